@@ -0,0 +1,449 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import {
+  BlueprintAsset,
+  BlueprintComment,
+  BlueprintData,
+  BlueprintGraph,
+  BlueprintGroup,
+  BlueprintNode,
+  BlueprintPin,
+  BlueprintVariable,
+  GraphKind,
+  PinType,
+  VariableReplication,
+} from './playground';
+import {COMMENT_MIN_SIZE, NODE_WIDTH} from './geometry';
+import {
+  formatPinType,
+  migrateBlueprint,
+  normalizePin,
+  parsePinType,
+  toPinCategory,
+} from './pins';
+
+export const EVENT_GRAPH = 'EventGraph';
+export const GRAPH_KINDS: GraphKind[] = ['event', 'function', 'macro'];
+export const REPLICATION_MODES: VariableReplication[] = [
+  'none',
+  'replicated',
+  'rep_notify',
+];
+
+const DEFAULT_ASSET_NAME = 'BP_Generated';
+const NEW_GRAPH_NAMES: Record<GraphKind, string> = {
+  event: 'EventGraph',
+  function: 'NewFunction',
+  macro: 'NewMacro',
+};
+
+export function createAsset(name = DEFAULT_ASSET_NAME): BlueprintAsset {
+  return {
+    name,
+    variables: [],
+    graphs: [{name: EVENT_GRAPH, kind: 'event', nodes: [], connections: []}],
+  };
+}
+
+export function findGraph(asset: BlueprintAsset, name: string) {
+  return asset.graphs.find((g) => g.name === name);
+}
+
+/** Returns `base`, or `base_2`, `base_3`... if the name is taken. */
+export function uniqueGraphName(asset: BlueprintAsset, base: string) {
+  let name = base;
+  for (let i = 2; findGraph(asset, name); i++) name = `${base}_${i}`;
+  return name;
+}
+
+/** A new, empty graph of the given kind with a name that isn't taken. */
+export function createGraph(
+  asset: BlueprintAsset,
+  kind: GraphKind,
+): BlueprintGraph {
+  const graph: BlueprintGraph = {
+    name: uniqueGraphName(asset, NEW_GRAPH_NAMES[kind]),
+    kind,
+    nodes: [],
+    connections: [],
+  };
+  if (kind !== 'event') {
+    graph.inputs = [];
+    graph.outputs = [];
+  }
+  return syncGraphSignature(graph);
+}
+
+function uniqueNodeId(nodes: BlueprintNode[], base: string) {
+  let id = base;
+  for (let i = 2; nodes.some((n) => n.id === id); i++) id = `${base}_${i}`;
+  return id;
+}
+
+function asParameter(
+  pin: BlueprintPin,
+  direction: 'input' | 'output',
+): BlueprintPin {
+  const {defaultValue, ...rest} = pin;
+  const param: BlueprintPin = {...rest, direction};
+  if (direction === 'input' && defaultValue !== undefined) {
+    param.defaultValue = defaultValue;
+  }
+  return param;
+}
+
+/**
+ * Reads a function or macro signature back from its entry and return nodes,
+ * e.g. after they were edited by hand. Functions get their exec pins
+ * implicitly, so those aren't parameters; macros declare their own.
+ */
+export function signatureFromNodes(graph: BlueprintGraph): BlueprintGraph {
+  if (graph.kind === 'event') return graph;
+  const isParam = (pin: BlueprintPin) =>
+    graph.kind === 'macro' || pin.category !== 'exec';
+  const entry = graph.nodes.find((n) => n.type === 'entry');
+  const result = graph.nodes.find((n) => n.type === 'return');
+  return {
+    ...graph,
+    inputs: (entry?.outputs ?? [])
+      .filter(isParam)
+      .map((p) => asParameter(p, 'input')),
+    outputs: (result?.inputs ?? [])
+      .filter(isParam)
+      .map((p) => asParameter(p, 'output')),
+  };
+}
+
+/**
+ * Rebuilds the pins of a function or macro graph's entry and return nodes
+ * from its signature, adding the nodes if they are missing and dropping
+ * wires to parameters that no longer exist.
+ */
+export function syncGraphSignature(graph: BlueprintGraph): BlueprintGraph {
+  if (graph.kind === 'event') return graph;
+  const isMacro = graph.kind === 'macro';
+  const inputs = graph.inputs ?? [];
+  const outputs = graph.outputs ?? [];
+  const exec = (direction: 'input' | 'output'): BlueprintPin[] =>
+    isMacro ? [] : [{name: 'Exec', direction, category: 'exec'}];
+  // The entry node outputs the inputs and the return node takes the outputs.
+  const entryPins = [
+    ...exec('output'),
+    ...inputs.map(({defaultValue, ...p}) => ({...p, direction: 'output' as const})),
+  ];
+  const returnPins = [
+    ...exec('input'),
+    ...outputs.map((p) => ({...p, direction: 'input' as const})),
+  ];
+
+  let nodes = graph.nodes.map((node) => {
+    if (node.type === 'entry') return {...node, inputs: [], outputs: entryPins};
+    if (node.type === 'return') return {...node, inputs: returnPins, outputs: []};
+    return node;
+  });
+  if (!nodes.some((n) => n.type === 'entry')) {
+    nodes = [
+      {
+        id: uniqueNodeId(nodes, 'node_entry'),
+        label: isMacro ? 'Inputs' : graph.name,
+        type: 'entry',
+        x: 50,
+        y: 50,
+        inputs: [],
+        outputs: entryPins,
+      },
+      ...nodes,
+    ];
+  }
+  if (outputs.length && !nodes.some((n) => n.type === 'return')) {
+    const right = Math.max(...nodes.map((n) => n.x));
+    nodes.push({
+      id: uniqueNodeId(nodes, 'node_return'),
+      label: isMacro ? 'Outputs' : 'Return Node',
+      type: 'return',
+      x: right + NODE_WIDTH + 100,
+      y: 50,
+      inputs: returnPins,
+      outputs: [],
+    });
+  }
+
+  const byId = new Map(nodes.map((n) => [n.id, n]));
+  const connections = graph.connections.filter((c) => {
+    const from = byId.get(c.from);
+    const to = byId.get(c.to);
+    if (from?.type === 'entry' && !from.outputs.some((p) => p.name === c.fromPort)) {
+      return false;
+    }
+    return !(to?.type === 'return' && !to.inputs.some((p) => p.name === c.toPort));
+  });
+  return {...graph, inputs, outputs, nodes, connections};
+}
+
+function migrateType(raw: any): PinType {
+  if (typeof raw === 'string') {
+    return parsePinType(raw) ?? {category: 'wildcard'};
+  }
+  const type: PinType = {category: toPinCategory(raw?.category) ?? 'wildcard'};
+  if (raw?.subtype) type.subtype = String(raw.subtype);
+  if (raw?.container && raw.container !== 'single') {
+    type.container = raw.container;
+  }
+  return type;
+}
+
+function migrateVariable(raw: any): BlueprintVariable {
+  const variable: BlueprintVariable = {
+    ...raw,
+    name: String(raw?.name ?? ''),
+    type: migrateType(raw?.type),
+  };
+  if (raw?.defaultValue === undefined || raw.defaultValue === null) {
+    delete variable.defaultValue;
+  } else {
+    variable.defaultValue = String(raw.defaultValue);
+  }
+  if (!variable.category) delete variable.category;
+  if (!variable.tooltip) delete variable.tooltip;
+  if (!REPLICATION_MODES.includes(variable.replication)) {
+    delete variable.replication;
+  }
+  return variable;
+}
+
+function migrateComment(raw: any, index: number): BlueprintComment {
+  const size = (value: any, fallback: number) =>
+    Math.max(COMMENT_MIN_SIZE, Number(value) || fallback);
+  const comment: BlueprintComment = {
+    id: String(raw?.id || `comment_${index + 1}`),
+    title: String(raw?.title ?? ''),
+    x: Number(raw?.x) || 0,
+    y: Number(raw?.y) || 0,
+    width: size(raw?.width, 400),
+    height: size(raw?.height, 200),
+  };
+  if (raw?.color) comment.color = String(raw.color);
+  return comment;
+}
+
+/**
+ * Normalizes the comment boxes and groups of a graph. Groups lose the ids
+ * of nodes that don't exist, and are dropped once they have none left.
+ */
+function migrateAnnotations<T extends BlueprintData>(graph: T): T {
+  const {comments, groups, ...rest} = graph;
+  const result = rest as T;
+  if (Array.isArray(comments) && comments.length) {
+    result.comments = comments.map(migrateComment);
+  }
+  const ids = new Set(graph.nodes.map((n) => n.id));
+  const kept = (Array.isArray(groups) ? groups : [])
+    .map((raw: any, index): BlueprintGroup => {
+      const group: BlueprintGroup = {
+        id: String(raw?.id || `group_${index + 1}`),
+        title: String(raw?.title ?? ''),
+        nodeIds: (Array.isArray(raw?.nodeIds) ? raw.nodeIds : [])
+          .map(String)
+          .filter((id: string) => ids.has(id)),
+      };
+      if (raw?.collapsed) group.collapsed = true;
+      return group;
+    })
+    .filter((g) => g.nodeIds.length);
+  if (kept.length) result.groups = kept;
+  return result;
+}
+
+function migrateGraph(raw: any, index: number): BlueprintGraph {
+  const kind: GraphKind = GRAPH_KINDS.includes(raw?.kind)
+    ? raw.kind
+    : index === 0
+      ? 'event'
+      : 'function';
+  let graph: BlueprintGraph = migrateAnnotations({
+    ...migrateBlueprint(raw ?? {}),
+    name: String(raw?.name || `${NEW_GRAPH_NAMES[kind]}_${index}`),
+    kind,
+  });
+  if (kind === 'event') {
+    delete graph.inputs;
+    delete graph.outputs;
+    return graph;
+  }
+  if (!Array.isArray(raw?.inputs) && !Array.isArray(raw?.outputs)) {
+    // Signature left out; read it from the entry and return nodes.
+    graph = signatureFromNodes(graph);
+  } else {
+    const params = (pins: any, direction: 'input' | 'output') =>
+      (Array.isArray(pins) ? pins : []).map((p: any) =>
+        normalizePin({connections: []}, '', p, direction),
+      );
+    graph.inputs = params(raw?.inputs, 'input');
+    graph.outputs = params(raw?.outputs, 'output');
+  }
+  return syncGraphSignature(graph);
+}
+
+/**
+ * Brings a saved or generated asset up to the current model. Files from
+ * before assets existed hold a single graph; it becomes the EventGraph.
+ */
+export function migrateAsset(raw: any): BlueprintAsset {
+  if (!Array.isArray(raw?.graphs)) {
+    raw = {graphs: [{...raw, name: EVENT_GRAPH, kind: 'event'}]};
+  }
+  const graphs = raw.graphs.map(migrateGraph);
+  const eventGraph = graphs.findIndex((g) => g.kind === 'event');
+  if (eventGraph < 0) {
+    graphs.unshift(createAsset().graphs[0]);
+  } else if (eventGraph > 0) {
+    graphs.unshift(...graphs.splice(eventGraph, 1));
+  }
+  return {
+    ...raw,
+    name: String(raw.name || DEFAULT_ASSET_NAME),
+    variables: (Array.isArray(raw.variables) ? raw.variables : []).map(
+      migrateVariable,
+    ),
+    graphs,
+  };
+}
+
+/** Reads "Get Health" or "Set Health" off a variable node's label. */
+export function variableReference(
+  node: BlueprintNode,
+): {access: 'get' | 'set'; name: string} | null {
+  if (node.type !== 'variable') return null;
+  const match = node.label.trim().match(/^(get|set)\s+(.+)$/i);
+  if (!match) return null;
+  return {
+    access: match[1].toLowerCase() as 'get' | 'set',
+    name: match[2].trim(),
+  };
+}
+
+/** A Get or Set node for a member variable, shaped like Unreal's. */
+export function variableNode(
+  variable: BlueprintVariable,
+  access: 'get' | 'set',
+  id: string,
+  x: number,
+  y: number,
+): BlueprintNode {
+  const value = (direction: 'input' | 'output'): BlueprintPin => ({
+    name: variable.name,
+    direction,
+    ...variable.type,
+  });
+  return access === 'get'
+    ? {
+        id,
+        label: `Get ${variable.name}`,
+        type: 'variable',
+        x,
+        y,
+        inputs: [],
+        outputs: [value('output')],
+      }
+    : {
+        id,
+        label: `Set ${variable.name}`,
+        type: 'variable',
+        x,
+        y,
+        inputs: [
+          {name: 'Exec', direction: 'input', category: 'exec'},
+          value('input'),
+        ],
+        outputs: [{name: 'Exec', direction: 'output', category: 'exec'}],
+      };
+}
+
+/** A reroute node passing on a wire of the given type. */
+export function rerouteNode(
+  type: PinType,
+  id: string,
+  x: number,
+  y: number,
+): BlueprintNode {
+  return {
+    id,
+    label: 'Reroute',
+    type: 'reroute',
+    x,
+    y,
+    inputs: [{name: 'In', direction: 'input', ...type}],
+    outputs: [{name: 'Out', direction: 'output', ...type}],
+  };
+}
+
+/**
+ * Applies changes to a variable declaration and carries them over to every
+ * Get and Set node that uses it: a new name relabels the nodes and renames
+ * their value pins and wires, a new type retypes those pins.
+ */
+export function updateVariable(
+  asset: BlueprintAsset,
+  name: string,
+  changes: Partial<BlueprintVariable>,
+): BlueprintAsset {
+  const variable = asset.variables.find((v) => v.name === name);
+  if (!variable) return asset;
+  const updated = {...variable, ...changes};
+  const retype = (pin: BlueprintPin): BlueprintPin => {
+    if (pin.name !== name) return pin;
+    const {subtype, container, ...rest} = pin;
+    return {...rest, ...updated.type, name: updated.name};
+  };
+
+  const graphs = asset.graphs.map((graph) => {
+    const users = new Set(
+      graph.nodes
+        .filter((n) => variableReference(n)?.name === name)
+        .map((n) => n.id),
+    );
+    if (!users.size) return graph;
+    return {
+      ...graph,
+      nodes: graph.nodes.map((node) => {
+        if (!users.has(node.id)) return node;
+        const {access} = variableReference(node);
+        return {
+          ...node,
+          label: `${access === 'get' ? 'Get' : 'Set'} ${updated.name}`,
+          inputs: node.inputs.map(retype),
+          outputs: node.outputs.map(retype),
+        };
+      }),
+      connections: graph.connections.map((c) => ({
+        ...c,
+        fromPort:
+          users.has(c.from) && c.fromPort === name ? updated.name : c.fromPort,
+        toPort: users.has(c.to) && c.toPort === name ? updated.name : c.toPort,
+      })),
+    };
+  });
+  return {
+    ...asset,
+    variables: asset.variables.map((v) => (v === variable ? updated : v)),
+    graphs,
+  };
+}
+
+/** One line per declared variable, sent to the model with every message. */
+export function describeVariables(variables: BlueprintVariable[]) {
+  if (!variables.length) return 'The blueprint declares no member variables.';
+  const lines = variables.map((v) => {
+    let line = `- ${v.name}: ${formatPinType(v.type)}`;
+    if (v.defaultValue !== undefined) line += ` = ${v.defaultValue}`;
+    const notes = [
+      v.category && `category ${v.category}`,
+      v.replication && v.replication !== 'none' && v.replication,
+      v.tooltip && `"${v.tooltip}"`,
+    ].filter(Boolean);
+    return notes.length ? `${line} (${notes.join(', ')})` : line;
+  });
+  return `The blueprint declares these member variables; Get and Set nodes may only use these names:\n${lines.join('\n')}`;
+}
@@ -0,0 +1,1061 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import {
+  BlueprintAsset,
+  BlueprintConnection,
+  BlueprintData,
+  BlueprintGraph,
+  BlueprintNode,
+  BlueprintPin,
+} from './playground';
+import {variableReference} from './asset';
+import {
+  formatPinType,
+  parsePinSpec,
+  pinConnectionError,
+  pinSpec,
+} from './pins';
+import {ValidationIssue} from './validator';
+
+/** A node Unreal provides, with the pins it is created with. */
+export interface CatalogEntry {
+  label: string;
+  /**
+   * Node type it is created as: function, flow_control or macro, or event
+   * and variable for the ones a project's C++ code declares.
+   */
+  type: string;
+  /** Section of the add node palette, e.g. "Math|Integer". */
+  category: string;
+  /** Other names models use for it, e.g. "PrintString". */
+  aliases?: string[];
+  inputs: BlueprintPin[];
+  outputs: BlueprintPin[];
+  /** Inputs hidden under the node's advanced arrow, only kept when used. */
+  advanced?: BlueprintPin[];
+  /**
+   * Whether pins can be added, like the elements of Make Array or the
+   * outputs of Sequence. Pins past the catalog's are kept instead of dropped.
+   */
+  variadic?: boolean;
+  /**
+   * For properties of the project's C++ classes: the classes whose
+   * blueprints can use the variable without declaring it.
+   */
+  owners?: string[];
+}
+
+/**
+ * An entry as written in a catalog file, with pins in the node editor's
+ * notation, e.g. "In String: string = Hello".
+ */
+interface CatalogFileEntry {
+  label: string;
+  type?: string;
+  category?: string;
+  aliases?: string[];
+  inputs?: string[];
+  outputs?: string[];
+  advanced?: string[];
+  variadic?: boolean;
+}
+
+/** Node types that call something from the catalog. */
+const CATALOG_NODE_TYPES = ['function', 'flow_control', 'macro'];
+const ENTRY_TYPES = [...CATALOG_NODE_TYPES, 'event', 'variable'];
+
+/** Calls match entries of any call type, other nodes only their own type. */
+function matchesType(entry: CatalogEntry, node: BlueprintNode) {
+  return (
+    entry.type === node.type ||
+    (CATALOG_NODE_TYPES.includes(entry.type) &&
+      CATALOG_NODE_TYPES.includes(node.type))
+  );
+}
+
+const CATALOG_KEY = 'blueprint-magic-catalog';
+
+const mathName = (type: string) => (type === 'int' ? 'Integer' : 'Float');
+
+/** Names the search also finds operators by. */
+const OPERATOR_NAMES: Record<string, string> = {
+  '+': 'Add',
+  '-': 'Subtract',
+  '*': 'Multiply',
+  '/': 'Divide',
+  '==': 'Equal',
+  '!=': 'Not Equal',
+  '<': 'Less',
+  '<=': 'Less Equal',
+  '>': 'Greater',
+  '>=': 'Greater Equal',
+};
+
+const comparison = (op: string, type: string): CatalogFileEntry => ({
+  label: `${op} (${mathName(type)})`,
+  category: `Math|${mathName(type)}`,
+  aliases: [`${OPERATOR_NAMES[op]} (${mathName(type)})`],
+  inputs: [`A: ${type} = 0`, `B: ${type} = 0`],
+  outputs: ['Return Value: bool'],
+});
+
+const arithmetic = (op: string, type: string): CatalogFileEntry => ({
+  label: `${op} (${mathName(type)})`,
+  category: `Math|${mathName(type)}`,
+  aliases: [`${OPERATOR_NAMES[op]} (${mathName(type)})`],
+  inputs: [`A: ${type} = 0`, `B: ${type} = 0`],
+  outputs: [`Return Value: ${type}`],
+  // Unreal offers "Add pin" on commutative operators.
+  variadic: op === '+' || op === '*',
+});
+
+const BUILTIN_ENTRIES: CatalogFileEntry[] = [
+  // Flow control nodes and the standard macros.
+  {
+    label: 'Branch',
+    type: 'flow_control',
+    category: 'Flow Control',
+    aliases: ['If', 'IfThenElse'],
+    inputs: ['Exec', 'Condition: bool = true'],
+    outputs: ['True: exec', 'False: exec'],
+  },
+  {
+    label: 'Sequence',
+    type: 'flow_control',
+    category: 'Flow Control',
+    aliases: ['ExecutionSequence'],
+    inputs: ['Exec'],
+    outputs: ['Then 0', 'Then 1'],
+    variadic: true,
+  },
+  {
+    label: 'Switch on Int',
+    type: 'flow_control',
+    category: 'Flow Control',
+    aliases: ['SwitchInteger', 'Switch on Integer'],
+    inputs: ['Exec', 'Selection: int = 0'],
+    outputs: ['Default: exec'],
+    variadic: true,
+  },
+  {
+    label: 'Switch on String',
+    type: 'flow_control',
+    category: 'Flow Control',
+    aliases: ['SwitchString'],
+    inputs: ['Exec', 'Selection: string'],
+    outputs: ['Default: exec'],
+    variadic: true,
+  },
+  {
+    label: 'Select',
+    type: 'flow_control',
+    category: 'Utilities',
+    inputs: ['Option 0: wildcard', 'Option 1: wildcard', 'Index: wildcard'],
+    outputs: ['Return Value: wildcard'],
+    variadic: true,
+  },
+  {
+    label: 'For Loop',
+    type: 'flow_control',
+    category: 'Flow Control',
+    aliases: ['ForLoop'],
+    inputs: ['Exec', 'First Index: int = 0', 'Last Index: int = 0'],
+    outputs: ['Loop Body: exec', 'Index: int', 'Completed: exec'],
+  },
+  {
+    label: 'For Loop with Break',
+    type: 'flow_control',
+    category: 'Flow Control',
+    aliases: ['ForLoopWithBreak'],
+    inputs: [
+      'Exec',
+      'First Index: int = 0',
+      'Last Index: int = 0',
+      'Break: exec',
+    ],
+    outputs: ['Loop Body: exec', 'Index: int', 'Completed: exec'],
+  },
+  {
+    label: 'For Each Loop',
+    type: 'flow_control',
+    category: 'Flow Control',
+    aliases: ['ForEachLoop', 'For Each'],
+    inputs: ['Exec', 'Array: wildcard[]'],
+    outputs: [
+      'Loop Body: exec',
+      'Array Element: wildcard',
+      'Array Index: int',
+      'Completed: exec',
+    ],
+  },
+  {
+    label: 'For Each Loop with Break',
+    type: 'flow_control',
+    category: 'Flow Control',
+    aliases: ['ForEachLoopWithBreak'],
+    inputs: ['Exec', 'Array: wildcard[]', 'Break: exec'],
+    outputs: [
+      'Loop Body: exec',
+      'Array Element: wildcard',
+      'Array Index: int',
+      'Completed: exec',
+    ],
+  },
+  {
+    label: 'Reverse for Each Loop',
+    type: 'flow_control',
+    category: 'Flow Control',
+    aliases: ['ReverseForEachLoop'],
+    inputs: ['Exec', 'Array: wildcard[]'],
+    outputs: [
+      'Loop Body: exec',
+      'Array Element: wildcard',
+      'Array Index: int',
+      'Completed: exec',
+    ],
+  },
+  {
+    label: 'While Loop',
+    type: 'flow_control',
+    category: 'Flow Control',
+    aliases: ['WhileLoop', 'While'],
+    inputs: ['Exec', 'Condition: bool'],
+    outputs: ['Loop Body: exec', 'Completed: exec'],
+  },
+  {
+    label: 'Do Once',
+    type: 'flow_control',
+    category: 'Flow Control',
+    aliases: ['DoOnce'],
+    inputs: ['Exec', 'Reset: exec', 'Start Closed: bool = false'],
+    outputs: ['Completed: exec'],
+  },
+  {
+    label: 'Do N',
+    type: 'flow_control',
+    category: 'Flow Control',
+    aliases: ['DoN'],
+    inputs: ['Enter: exec', 'N: int = 1', 'Reset: exec'],
+    outputs: ['Exit: exec', 'Counter: int'],
+  },
+  {
+    label: 'FlipFlop',
+    type: 'flow_control',
+    category: 'Flow Control',
+    aliases: ['Flip Flop'],
+    inputs: ['Exec'],
+    outputs: ['A: exec', 'B: exec', 'Is A: bool'],
+  },
+  {
+    label: 'Gate',
+    type: 'flow_control',
+    category: 'Flow Control',
+    inputs: [
+      'Enter: exec',
+      'Open: exec',
+      'Close: exec',
+      'Toggle: exec',
+      'Start Closed: bool = false',
+    ],
+    outputs: ['Exit: exec'],
+  },
+  {
+    label: 'Is Valid',
+    type: 'flow_control',
+    category: 'Utilities',
+    aliases: ['IsValid'],
+    inputs: ['Exec', 'Input Object: object'],
+    outputs: ['Is Valid: exec', 'Is Not Valid: exec'],
+  },
+
+  // Utilities.
+  {
+    label: 'Print String',
+    category: 'Development',
+    aliases: ['PrintString', 'Print'],
+    inputs: ['Exec', 'In String: string = Hello'],
+    outputs: ['Exec'],
+    advanced: [
+      'Print to Screen: bool = true',
+      'Print to Log: bool = true',
+      'Text Color: struct<LinearColor>',
+      'Duration: real = 2.0',
+      'Key: name',
+    ],
+  },
+  {
+    label: 'Delay',
+    category: 'Utilities|Flow Control',
+    inputs: ['Exec', 'Duration: real = 0.2'],
+    outputs: ['Completed: exec'],
+  },
+  {
+    label: 'Retriggerable Delay',
+    category: 'Utilities|Flow Control',
+    aliases: ['RetriggerableDelay'],
+    inputs: ['Exec', 'Duration: real = 0.2'],
+    outputs: ['Completed: exec'],
+  },
+  {
+    label: 'Is Valid',
+    category: 'Utilities',
+    inputs: ['Object: object'],
+    outputs: ['Return Value: bool'],
+  },
+  {
+    label: 'Set Timer by Function Name',
+    category: 'Utilities|Time',
+    aliases: ['SetTimer', 'K2_SetTimer'],
+    inputs: [
+      'Exec',
+      'Function Name: string',
+      'Time: real = 0',
+      'Looping: bool = false',
+    ],
+    outputs: ['Exec', 'Return Value: struct<TimerHandle>'],
+  },
+  {
+    label: 'Get Game Time in Seconds',
+    category: 'Utilities|Time',
+    aliases: ['GetGameTimeInSeconds'],
+    inputs: [],
+    outputs: ['Return Value: real'],
+  },
+
+  // Math.
+  ...['+', '-', '*', '/'].map((op) => arithmetic(op, 'int')),
+  ...['+', '-', '*', '/'].map((op) => arithmetic(op, 'real')),
+  {
+    label: '% (Integer)',
+    category: 'Math|Integer',
+    aliases: ['Modulo'],
+    inputs: ['A: int = 0', 'B: int = 1'],
+    outputs: ['Return Value: int'],
+  },
+  ...['==', '!=', '<', '<=', '>', '>='].map((op) => comparison(op, 'int')),
+  ...['==', '!=', '<', '<=', '>', '>='].map((op) => comparison(op, 'real')),
+  {
+    label: 'Random Integer in Range',
+    category: 'Math|Random',
+    aliases: ['RandomIntegerInRange'],
+    inputs: ['Min: int = 0', 'Max: int = 0'],
+    outputs: ['Return Value: int'],
+  },
+  {
+    label: 'Random Integer',
+    category: 'Math|Random',
+    aliases: ['RandomInteger'],
+    inputs: ['Max: int = 0'],
+    outputs: ['Return Value: int'],
+  },
+  {
+    label: 'Random Float in Range',
+    category: 'Math|Random',
+    aliases: ['RandomFloatInRange'],
+    inputs: ['Min: real = 0', 'Max: real = 1'],
+    outputs: ['Return Value: real'],
+  },
+  {
+    label: 'Random Bool',
+    category: 'Math|Random',
+    aliases: ['RandomBool'],
+    inputs: [],
+    outputs: ['Return Value: bool'],
+  },
+  {
+    label: 'Clamp (Integer)',
+    category: 'Math|Integer',
+    inputs: ['Value: int = 0', 'Min: int = 0', 'Max: int = 0'],
+    outputs: ['Return Value: int'],
+  },
+  {
+    label: 'Clamp (Float)',
+    category: 'Math|Float',
+    inputs: ['Value: real = 0', 'Min: real = 0', 'Max: real = 0'],
+    outputs: ['Return Value: real'],
+  },
+  {
+    label: 'Truncate',
+    category: 'Math|Float',
+    inputs: ['A: real = 0'],
+    outputs: ['Return Value: int'],
+  },
+  {
+    label: 'AND Boolean',
+    category: 'Math|Boolean',
+    aliases: ['AND'],
+    inputs: ['A: bool = false', 'B: bool = false'],
+    outputs: ['Return Value: bool'],
+    variadic: true,
+  },
+  {
+    label: 'OR Boolean',
+    category: 'Math|Boolean',
+    aliases: ['OR'],
+    inputs: ['A: bool = false', 'B: bool = false'],
+    outputs: ['Return Value: bool'],
+    variadic: true,
+  },
+  {
+    label: 'NOT Boolean',
+    category: 'Math|Boolean',
+    aliases: ['NOT'],
+    inputs: ['A: bool = false'],
+    outputs: ['Return Value: bool'],
+  },
+
+  // Array library.
+  {
+    label: 'Make Array',
+    category: 'Utilities|Array',
+    aliases: ['MakeArray'],
+    inputs: ['[0]: wildcard'],
+    outputs: ['Array: wildcard[]'],
+    variadic: true,
+  },
+  {
+    label: 'Get (a copy)',
+    category: 'Utilities|Array',
+    aliases: ['Get', 'Array Get'],
+    inputs: ['Array: wildcard[]', 'Index: int = 0'],
+    outputs: ['Value: wildcard'],
+  },
+  {
+    label: 'Length',
+    category: 'Utilities|Array',
+    aliases: ['Array Length'],
+    inputs: ['Target Array: wildcard[]'],
+    outputs: ['Return Value: int'],
+  },
+  {
+    label: 'Last Index',
+    category: 'Utilities|Array',
+    aliases: ['LastIndex'],
+    inputs: ['Target Array: wildcard[]'],
+    outputs: ['Return Value: int'],
+  },
+  {
+    label: 'Add',
+    category: 'Utilities|Array',
+    aliases: ['Array Add'],
+    inputs: ['Exec', 'Target Array: wildcard[]', 'New Item: wildcard'],
+    outputs: ['Exec', 'Return Value: int'],
+  },
+  {
+    label: 'Add Unique',
+    category: 'Utilities|Array',
+    aliases: ['AddUnique'],
+    inputs: ['Exec', 'Target Array: wildcard[]', 'New Item: wildcard'],
+    outputs: ['Exec', 'Return Value: int'],
+  },
+  {
+    label: 'Insert',
+    category: 'Utilities|Array',
+    inputs: [
+      'Exec',
+      'Target Array: wildcard[]',
+      'New Item: wildcard',
+      'Index: int = 0',
+    ],
+    outputs: ['Exec'],
+  },
+  {
+    label: 'Remove Index',
+    category: 'Utilities|Array',
+    aliases: ['RemoveIndex'],
+    inputs: ['Exec', 'Target Array: wildcard[]', 'Index to Remove: int = 0'],
+    outputs: ['Exec'],
+  },
+  {
+    label: 'Remove Item',
+    category: 'Utilities|Array',
+    aliases: ['RemoveItem'],
+    inputs: ['Exec', 'Target Array: wildcard[]', 'Item: wildcard'],
+    outputs: ['Exec', 'Return Value: bool'],
+  },
+  {
+    label: 'Clear',
+    category: 'Utilities|Array',
+    aliases: ['Array Clear'],
+    inputs: ['Exec', 'Target Array: wildcard[]'],
+    outputs: ['Exec'],
+  },
+  {
+    label: 'Contains',
+    category: 'Utilities|Array',
+    aliases: ['Contains Item'],
+    inputs: ['Target Array: wildcard[]', 'Item to Find: wildcard'],
+    outputs: ['Return Value: bool'],
+  },
+  {
+    label: 'Find',
+    category: 'Utilities|Array',
+    aliases: ['Find Item'],
+    inputs: ['Target Array: wildcard[]', 'Item to Find: wildcard'],
+    outputs: ['Return Value: int'],
+  },
+  {
+    label: 'Set Array Elem',
+    category: 'Utilities|Array',
+    aliases: ['SetArrayElem', 'Array Set'],
+    inputs: [
+      'Exec',
+      'Target Array: wildcard[]',
+      'Index: int = 0',
+      'Item: wildcard',
+      'Size to Fit: bool = false',
+    ],
+    outputs: ['Exec'],
+  },
+  {
+    label: 'Shuffle',
+    category: 'Utilities|Array',
+    inputs: ['Exec', 'Target Array: wildcard[]'],
+    outputs: ['Exec'],
+  },
+
+  // String library.
+  {
+    label: 'Append',
+    category: 'Utilities|String',
+    aliases: ['Concat', 'Concatenate'],
+    inputs: ['A: string', 'B: string'],
+    outputs: ['Return Value: string'],
+    variadic: true,
+  },
+  {
+    label: 'Len',
+    category: 'Utilities|String',
+    aliases: ['String Length'],
+    inputs: ['S: string'],
+    outputs: ['Return Value: int'],
+  },
+  {
+    label: 'Substring',
+    category: 'Utilities|String',
+    inputs: [
+      'Source String: string',
+      'Start Index: int = 0',
+      'Length: int = 1',
+    ],
+    outputs: ['Return Value: string'],
+  },
+  {
+    label: 'To Upper',
+    category: 'Utilities|String',
+    aliases: ['ToUpper'],
+    inputs: ['Source String: string'],
+    outputs: ['Return Value: string'],
+  },
+  {
+    label: 'To Lower',
+    category: 'Utilities|String',
+    aliases: ['ToLower'],
+    inputs: ['Source String: string'],
+    outputs: ['Return Value: string'],
+  },
+  {
+    label: 'Equal (String)',
+    category: 'Utilities|String',
+    aliases: ['== (String)'],
+    inputs: ['A: string', 'B: string'],
+    outputs: ['Return Value: bool'],
+  },
+  {
+    label: 'To String (Integer)',
+    category: 'Utilities|String',
+    aliases: ['Conv_IntToString'],
+    inputs: ['In Int: int = 0'],
+    outputs: ['Return Value: string'],
+  },
+  {
+    label: 'To String (Float)',
+    category: 'Utilities|String',
+    aliases: ['Conv_DoubleToString'],
+    inputs: ['In Float: real = 0'],
+    outputs: ['Return Value: string'],
+  },
+  {
+    label: 'To String (Boolean)',
+    category: 'Utilities|String',
+    aliases: ['Conv_BoolToString'],
+    inputs: ['In Bool: bool = false'],
+    outputs: ['Return Value: string'],
+  },
+];
+
+/** Labels and pin names compared without case, spaces or punctuation. */
+function labelKey(label: string) {
+  return label.toLowerCase().replace(/[\s_]+/g, '');
+}
+
+function pinKey(name: string) {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function editDistance(a: string, b: string) {
+  let previous = Array.from({length: b.length + 1}, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(
+        previous[j] + 1,
+        row[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = row;
+  }
+  return previous[b.length];
+}
+
+const hasExec = (pins: BlueprintPin[]) =>
+  pins.some((p) => p.category === 'exec');
+
+/** Reads the entries of a catalog file. Throws if an entry is malformed. */
+export function parseCatalogEntries(raw: any): CatalogEntry[] {
+  if (!Array.isArray(raw)) throw new Error('The catalog must be a list.');
+  return raw.map((item: any, index: number) => {
+    const where = `Catalog entry ${index + 1}`;
+    if (typeof item?.label !== 'string' || !item.label.trim()) {
+      throw new Error(`${where} has no label.`);
+    }
+    const pins = (key: string, direction: 'input' | 'output') => {
+      const specs = item[key] ?? [];
+      if (!Array.isArray(specs)) {
+        throw new Error(`${where} ("${item.label}"): "${key}" must be a list.`);
+      }
+      try {
+        return specs.map((spec: any) => parsePinSpec(String(spec), direction));
+      } catch (e) {
+        throw new Error(`${where} ("${item.label}"): ${(e as Error).message}`);
+      }
+    };
+    const entry: CatalogEntry = {
+      label: item.label.trim(),
+      type: ENTRY_TYPES.includes(item.type) ? item.type : 'function',
+      category: String(item.category ?? 'Custom'),
+      inputs: pins('inputs', 'input'),
+      outputs: pins('outputs', 'output'),
+    };
+    if (Array.isArray(item.aliases)) entry.aliases = item.aliases.map(String);
+    if (item.advanced) entry.advanced = pins('advanced', 'input');
+    if (item.variadic) entry.variadic = true;
+    return entry;
+  });
+}
+
+/** An entry in the notation of a catalog file. */
+function fileEntry(entry: CatalogEntry): CatalogFileEntry {
+  return {
+    label: entry.label,
+    type: entry.type,
+    category: entry.category,
+    ...(entry.aliases && {aliases: entry.aliases}),
+    inputs: entry.inputs.map(pinSpec),
+    outputs: entry.outputs.map(pinSpec),
+    ...(entry.advanced && {advanced: entry.advanced.map(pinSpec)}),
+    ...(entry.variadic && {variadic: true}),
+  };
+}
+
+/**
+ * Node catalog files are JSON objects with a "nodeCatalog" list of entries
+ * like {"label": "Delay", "type": "function", "category": "Utilities",
+ * "inputs": ["Exec", "Duration: real = 0.2"], "outputs": ["Completed: exec"]}.
+ */
+export function isCatalogFile(json: any) {
+  return Array.isArray(json?.nodeCatalog);
+}
+
+/**
+ * The nodes Unreal provides, looked up by label or alias. Some labels, like
+ * "Is Valid", name both a pure function and a macro with exec pins.
+ */
+export class NodeCatalog {
+  private readonly list: CatalogEntry[] = [];
+  private readonly byKey = new Map<string, CatalogEntry[]>();
+
+  constructor(entries: CatalogEntry[] = []) {
+    entries.forEach((entry) => this.add(entry));
+  }
+
+  get entries(): readonly CatalogEntry[] {
+    return this.list;
+  }
+
+  /** Adds an entry, replacing one with the same label and node type. */
+  add(entry: CatalogEntry) {
+    const index = this.list.findIndex(
+      (e) =>
+        labelKey(e.label) === labelKey(entry.label) && e.type === entry.type,
+    );
+    if (index < 0) {
+      this.list.push(entry);
+    } else {
+      this.list[index] = entry;
+    }
+    this.byKey.clear();
+    for (const e of this.list) {
+      for (const name of [e.label, ...(e.aliases ?? [])]) {
+        const key = labelKey(name);
+        this.byKey.set(key, [...(this.byKey.get(key) ?? []), e]);
+      }
+    }
+  }
+
+  /** Entries labeled `label`, or with it as an alias. */
+  find(label: string): CatalogEntry[] {
+    return this.byKey.get(labelKey(label)) ?? [];
+  }
+
+  /**
+   * The entry a node stands for. When a label is ambiguous, the one whose
+   * exec pins match the node's wins.
+   */
+  resolve(node: BlueprintNode): CatalogEntry | undefined {
+    const candidates = this.find(node.label).filter((e) =>
+      matchesType(e, node),
+    );
+    const exec = hasExec([...node.inputs, ...node.outputs]);
+    return (
+      candidates.find(
+        (e) => hasExec([...e.inputs, ...e.outputs]) === exec,
+      ) ?? candidates[0]
+    );
+  }
+
+  /** Entries whose label, aliases or category contain every word of `query`. */
+  search(query: string, limit = 20): CatalogEntry[] {
+    const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+    if (!words.length) return [];
+    const prefix = query.trim().toLowerCase();
+    return this.list
+      .filter((e) => {
+        const text = [e.label, e.category, ...(e.aliases ?? [])]
+          .join(' ')
+          .toLowerCase();
+        return words.every((w) => text.includes(w));
+      })
+      .sort(
+        (a, b) =>
+          Number(!a.label.toLowerCase().startsWith(prefix)) -
+          Number(!b.label.toLowerCase().startsWith(prefix)),
+      )
+      .slice(0, limit);
+  }
+}
+
+export const BUILTIN_CATALOG = parseCatalogEntries(BUILTIN_ENTRIES);
+
+/** Entries added from catalog files, kept in the browser. */
+function savedEntries(): CatalogEntry[] {
+  try {
+    return parseCatalogEntries(
+      JSON.parse(localStorage.getItem(CATALOG_KEY) ?? '[]'),
+    );
+  } catch (e) {
+    return [];
+  }
+}
+
+/** The built-in catalog extended with the entries loaded from files. */
+export function loadCatalog(): NodeCatalog {
+  return new NodeCatalog([...BUILTIN_CATALOG, ...savedEntries()]);
+}
+
+/**
+ * Keeps the entries of a catalog file for later sessions, replacing saved
+ * entries with the same label. Returns the extended catalog.
+ */
+export function extendCatalog(entries: CatalogEntry[]): NodeCatalog {
+  const saved = new NodeCatalog(savedEntries());
+  entries.forEach((entry) => saved.add(entry));
+  localStorage.setItem(
+    CATALOG_KEY,
+    JSON.stringify(saved.entries.map(fileEntry)),
+  );
+  return loadCatalog();
+}
+
+/** A fresh node for a catalog entry, as placed from the add node palette. */
+export function catalogNode(
+  entry: CatalogEntry,
+  id: string,
+  x: number,
+  y: number,
+): BlueprintNode {
+  return {
+    id,
+    label: entry.label,
+    type: entry.type,
+    x,
+    y,
+    inputs: entry.inputs.map((p) => ({...p})),
+    outputs: entry.outputs.map((p) => ({...p})),
+  };
+}
+
+/**
+ * Pairs a node's pins with the catalog's: by exact name, then by name
+ * ignoring case and punctuation, then by similar name, then by position
+ * among pins of the same type and finally by position.
+ * Advanced pins are optional, so they only pair up by name. Exec pins are
+ * only paired with exec pins.
+ */
+function matchPins(
+  pins: BlueprintPin[],
+  required: BlueprintPin[],
+  advanced: BlueprintPin[],
+) {
+  const matches = new Map<BlueprintPin, BlueprintPin>();
+  const used = new Set<BlueprintPin>();
+  const pair = (
+    canonical: BlueprintPin[],
+    test: (pin: BlueprintPin, c: BlueprintPin) => boolean,
+  ) => {
+    for (const c of canonical) {
+      if (matches.has(c)) continue;
+      const pin = pins.find(
+        (p) =>
+          !used.has(p) &&
+          (p.category === 'exec') === (c.category === 'exec') &&
+          test(p, c),
+      );
+      if (pin) {
+        matches.set(c, pin);
+        used.add(pin);
+      }
+    }
+  };
+  pair([...required, ...advanced], (pin, c) => pin.name === c.name);
+  pair(
+    [...required, ...advanced],
+    (pin, c) => pinKey(pin.name) === pinKey(c.name),
+  );
+  pair(required, (pin, c) => {
+    const a = pinKey(pin.name);
+    const b = pinKey(c.name);
+    if (!a || !b) return false;
+    const shorter = Math.min(a.length, b.length);
+    const tolerance = Math.max(1, Math.floor(shorter / 3));
+    return a.includes(b) || b.includes(a) || editDistance(a, b) <= tolerance;
+  });
+  pair(required, (pin, c) => pin.category === c.category);
+  pair(required, wiresFit);
+  return matches;
+}
+
+/** Whether wires made for `pin` still fit once it has `canonical`'s type. */
+function wiresFit(pin: BlueprintPin, canonical: BlueprintPin) {
+  return canonical.direction === 'input'
+    ? !pinConnectionError({...pin, direction: 'output'}, canonical)
+    : !pinConnectionError(canonical, {...pin, direction: 'input'});
+}
+
+/** A pin with the catalog's name and type, keeping the node's default. */
+function conformPin(pin: BlueprintPin, canonical: BlueprintPin): BlueprintPin {
+  // Wildcards take the type of whatever the node was wired to.
+  if (canonical.category === 'wildcard' && pin.category !== 'exec') {
+    return {...pin, name: canonical.name};
+  }
+  const conformed = {...canonical};
+  if (
+    pin.defaultValue !== undefined &&
+    conformed.direction === 'input' &&
+    conformed.category !== 'exec'
+  ) {
+    conformed.defaultValue = pin.defaultValue;
+  }
+  return conformed;
+}
+
+/**
+ * Rebuilds one side of a node from the catalog. Returns the new pins, what
+ * became of each old pin name (null for removed pins) and the corrections.
+ */
+function conformPins(
+  node: BlueprintNode,
+  entry: CatalogEntry,
+  isInput: boolean,
+) {
+  const pins = isInput ? node.inputs : node.outputs;
+  const required = isInput ? entry.inputs : entry.outputs;
+  const advanced = isInput ? entry.advanced ?? [] : [];
+  const matches = matchPins(pins, required, advanced);
+  const side = isInput ? 'input' : 'output';
+  const corrections: string[] = [];
+  const renames = new Map<string, string | null>();
+  const result: BlueprintPin[] = [];
+
+  for (const canonical of [...required, ...advanced]) {
+    const pin = matches.get(canonical);
+    if (!pin) {
+      if (required.includes(canonical)) {
+        result.push({...canonical});
+        corrections.push(
+          `${entry.label}: added missing ${side} "${canonical.name}".`,
+        );
+      }
+      continue;
+    }
+    const conformed = conformPin(pin, canonical);
+    result.push(conformed);
+    renames.set(pin.name, conformed.name);
+    if (pin.name !== conformed.name) {
+      corrections.push(
+        `${entry.label}: renamed ${side} "${pin.name}" to "${conformed.name}".`,
+      );
+    }
+    if (formatPinType(pin) !== formatPinType(conformed)) {
+      corrections.push(
+        `${entry.label}: ${side} "${conformed.name}" is ${formatPinType(conformed)}, not ${formatPinType(pin)}.`,
+      );
+    }
+  }
+
+  for (const pin of pins.filter((p) => !renames.has(p.name))) {
+    if (entry.variadic && !result.some((p) => p.name === pin.name)) {
+      result.push(pin);
+      renames.set(pin.name, pin.name);
+    } else {
+      renames.set(pin.name, null);
+      corrections.push(
+        `${entry.label}: removed ${side} "${pin.name}", which it doesn't have.`,
+      );
+    }
+  }
+  return {pins: result, renames, corrections};
+}
+
+/** Names the asset's own graphs and custom events can be called by. */
+function ownCallables(asset: BlueprintAsset) {
+  const names = new Set(asset.graphs.map((g) => g.name));
+  for (const graph of asset.graphs) {
+    for (const node of graph.nodes) {
+      const custom = node.label.match(/^Custom Event:\s*(.+)$/i);
+      if (node.type === 'event' && custom) names.add(custom[1].trim());
+    }
+  }
+  return names;
+}
+
+/**
+ * Nodes that call something neither the catalog nor the asset defines,
+ * which is often a node the model made up.
+ */
+export function unknownNodes(
+  asset: BlueprintAsset,
+  graph: BlueprintData,
+  catalog: NodeCatalog,
+): BlueprintNode[] {
+  const own = ownCallables(asset);
+  return graph.nodes.filter(
+    (n) =>
+      CATALOG_NODE_TYPES.includes(n.type) &&
+      !own.has(n.label) &&
+      !catalog.resolve(n),
+  );
+}
+
+/**
+ * Corrects the catalog nodes of a graph: labels are resolved to the
+ * catalog's, pins renamed and retyped to match it, missing pins added and
+ * made up ones removed, along with their wires. Other nodes, and calls to
+ * the asset's own graphs and variables, are untouched. Each removed wire is
+ * also an issue, since the graph no longer does what it was wired to do.
+ */
+export function conformGraph(
+  asset: BlueprintAsset,
+  graph: BlueprintGraph,
+  catalog: NodeCatalog,
+): {
+  graph: BlueprintGraph;
+  corrections: string[];
+  issues: ValidationIssue[];
+} {
+  const own = ownCallables(asset);
+  const corrections: string[] = [];
+  const issues: ValidationIssue[] = [];
+  const renames = new Map<
+    string,
+    {inputs: Map<string, string | null>; outputs: Map<string, string | null>}
+  >();
+
+  const nodes = graph.nodes.map((node) => {
+    const variable = variableReference(node)?.name;
+    if (
+      (CATALOG_NODE_TYPES.includes(node.type) && own.has(node.label)) ||
+      asset.variables.some((v) => v.name === variable)
+    ) {
+      return node;
+    }
+    const entry = catalog.resolve(node);
+    if (!entry) return node;
+    if (node.label !== entry.label) {
+      corrections.push(`"${node.label}" is now "${entry.label}".`);
+    }
+    const inputs = conformPins(node, entry, true);
+    const outputs = conformPins(node, entry, false);
+    corrections.push(...inputs.corrections, ...outputs.corrections);
+    renames.set(node.id, {inputs: inputs.renames, outputs: outputs.renames});
+    return {
+      ...node,
+      label: entry.label,
+      type: entry.type,
+      inputs: inputs.pins,
+      outputs: outputs.pins,
+    };
+  });
+
+  const connections: BlueprintConnection[] = [];
+  for (const conn of graph.connections) {
+    const from = renames.get(conn.from)?.outputs.get(conn.fromPort);
+    const to = renames.get(conn.to)?.inputs.get(conn.toPort);
+    // Wires to pins that aren't renamed are left for the validator.
+    if (from !== null && to !== null) {
+      connections.push({
+        ...conn,
+        fromPort: from ?? conn.fromPort,
+        toPort: to ?? conn.toPort,
+      });
+      continue;
+    }
+    const [id, side, port] =
+      from === null
+        ? [conn.from, 'output', conn.fromPort]
+        : [conn.to, 'input', conn.toPort];
+    const label = nodes.find((n) => n.id === id)?.label ?? id;
+    issues.push({
+      severity: 'error',
+      code: 'removed-pin',
+      message: `"${label}" has no ${side} named "${port}", so its wire was removed.`,
+      nodeIds: [conn.from, conn.to],
+      connections: [],
+    });
+  }
+  return {graph: {...graph, nodes, connections}, corrections, issues};
+}
+
+/** conformGraph for every graph of an asset. */
+export function conformAsset(
+  asset: BlueprintAsset,
+  catalog: NodeCatalog,
+): {
+  asset: BlueprintAsset;
+  corrections: string[];
+  issues: ValidationIssue[];
+} {
+  const corrections: string[] = [];
+  const issues: ValidationIssue[] = [];
+  const graphs = asset.graphs.map((graph) => {
+    const result = conformGraph(asset, graph, catalog);
+    const prefix = asset.graphs.length > 1 ? `In graph "${graph.name}": ` : '';
+    corrections.push(...result.corrections.map((c) => prefix + c));
+    issues.push(...result.issues.map((i) => ({...i, graph: graph.name})));
+    return result.graph;
+  });
+  return {asset: {...asset, graphs}, corrections, issues};
+}
@@ -0,0 +1,340 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import {mkdirSync, readFileSync, writeFileSync} from 'fs';
+import {join} from 'path';
+import {migrateAsset} from './asset';
+import {
+  compareRuns,
+  CURRENT_VARIANT,
+  EvalScore,
+  parseVariant,
+  PromptVariant,
+  runEval,
+} from './eval';
+import {EXAMPLE_PROMPTS, STARTUP_BLUEPRINT} from './examples';
+import {generateBlueprint} from './generator';
+import {parseHeaders, ProjectApi} from './headers';
+import {BlueprintAsset} from './playground';
+import {
+  createProvider,
+  DEFAULT_SETTINGS,
+  LlmProvider,
+  MockProvider,
+  PROVIDER_KINDS,
+  ProviderKind,
+  ProviderSettings,
+  Recording,
+} from './providers';
+import {exportToT3D, importFromT3D, isT3DText} from './t3d';
+
+const USAGE = `Generates a blueprint for each prompt and writes it to a file,
+or with --eval, scores the answers to two versions of the system prompt.
+
+Usage: npm run cli -- [options] [prompt...]
+
+Options:
+  --prompts <file>      Reads prompts from a file, one per line. Blank lines
+                        and lines starting with # are skipped.
+  --blueprint <file>    Blueprint JSON or Unreal paste text the prompts change.
+  --header <file>       C++ header whose UFUNCTIONs and UPROPERTYs the model
+                        may use. Can be repeated.
+  --format <json|t3d>   Writes blueprint JSON, or Unreal paste text with one
+                        file per graph. Defaults to json.
+  --out <dir>           Where the files go. Defaults to "out".
+  --no-layout           Keeps the node positions the model chose.
+  --provider <name>     ${PROVIDER_KINDS.join(', ')}. Defaults to ${DEFAULT_SETTINGS.provider}.
+  --model <name>        Defaults to ${DEFAULT_SETTINGS.model}.
+  --endpoint <url>      Base URL of an OpenAI-compatible API.
+  --api-key <key>       Defaults to the GEMINI_API_KEY environment variable.
+  --temperature <n>     Defaults to ${DEFAULT_SETTINGS.temperature}.
+  --recordings <file>   Responses the mock provider replays, as a JSON array
+                        of {"prompt", "response"} objects.
+
+Evaluation:
+  --eval                Sends each prompt to both variants and compares how
+                        valid, tidy, big and fast the first answers are.
+                        Without prompts, the chat's example prompts are asked
+                        about the example blueprint.
+  --baseline <file>     Variant to compare against. Defaults to the current
+                        instructions and schema.
+  --candidate <file>    Variant to evaluate: a text file with new system
+                        instructions, or JSON with "name", "systemInstruction",
+                        "responseSchema" and "recordings" for the mock.
+  --report <file>       Writes the Markdown report there instead of printing it.
+`;
+
+interface CliOptions {
+  prompts: string[];
+  blueprint?: string;
+  headers: string[];
+  format: 'json' | 't3d';
+  out: string;
+  layout: boolean;
+  settings: ProviderSettings;
+  recordings?: string;
+  eval: boolean;
+  baseline?: string;
+  candidate?: string;
+  report?: string;
+}
+
+function parseArgs(args: string[]): CliOptions {
+  const options: CliOptions = {
+    prompts: [],
+    headers: [],
+    format: 'json',
+    out: 'out',
+    layout: true,
+    eval: false,
+    settings: {
+      ...DEFAULT_SETTINGS,
+      apiKey: process.env['GEMINI_API_KEY'] ?? '',
+    },
+  };
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (!arg.startsWith('--')) {
+      options.prompts.push(arg);
+      continue;
+    }
+    if (arg === '--help') {
+      console.log(USAGE);
+      process.exit(0);
+    }
+    if (arg === '--no-layout') {
+      options.layout = false;
+      continue;
+    }
+    if (arg === '--eval') {
+      options.eval = true;
+      continue;
+    }
+    const value = args[++i];
+    if (value === undefined) throw new Error(`${arg} needs a value.`);
+    switch (arg) {
+      case '--prompts':
+        options.prompts.push(...readPrompts(value));
+        break;
+      case '--blueprint':
+        options.blueprint = value;
+        break;
+      case '--header':
+        options.headers.push(value);
+        break;
+      case '--format':
+        if (value !== 'json' && value !== 't3d') {
+          throw new Error(`Unknown format "${value}".`);
+        }
+        options.format = value;
+        break;
+      case '--out':
+        options.out = value;
+        break;
+      case '--provider':
+        if (!PROVIDER_KINDS.includes(value as ProviderKind)) {
+          throw new Error(`Unknown provider "${value}".`);
+        }
+        options.settings.provider = value as ProviderKind;
+        break;
+      case '--model':
+        options.settings.model = value;
+        break;
+      case '--endpoint':
+        options.settings.endpoint = value;
+        break;
+      case '--api-key':
+        options.settings.apiKey = value;
+        break;
+      case '--temperature':
+        options.settings.temperature = Number(value);
+        break;
+      case '--recordings':
+        options.recordings = value;
+        break;
+      case '--baseline':
+        options.baseline = value;
+        break;
+      case '--candidate':
+        options.candidate = value;
+        break;
+      case '--report':
+        options.report = value;
+        break;
+      default:
+        throw new Error(`Unknown option ${arg}.`);
+    }
+  }
+  return options;
+}
+
+function readPrompts(file: string) {
+  return readFileSync(file, 'utf8')
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith('#'));
+}
+
+function readBlueprint(file: string): BlueprintAsset {
+  const text = readFileSync(file, 'utf8');
+  if (isT3DText(text)) return migrateAsset(importFromT3D(text).data);
+  const json = JSON.parse(text);
+  // Files saved from a chat answer hold the asset next to its description.
+  return migrateAsset(json.blueprint ?? json);
+}
+
+/** A file name made of the prompt's number and the blueprint's name. */
+function baseName(index: number, asset: BlueprintAsset) {
+  const name = asset.name.replace(/[^\w-]+/g, '_');
+  return `${String(index + 1).padStart(2, '0')}-${name}`;
+}
+
+/** Writes the blueprint and returns the paths of the files written. */
+function writeBlueprint(
+  asset: BlueprintAsset,
+  base: string,
+  options: CliOptions,
+): string[] {
+  if (options.format === 'json') {
+    const path = join(options.out, `${base}.json`);
+    writeFileSync(path, JSON.stringify(asset, null, 2));
+    return [path];
+  }
+  // Unreal pastes into one graph at a time.
+  return asset.graphs.map((graph, i) => {
+    const suffix = i ? `.${graph.name.replace(/[^\w-]+/g, '_')}` : '';
+    const path = join(options.out, `${base}${suffix}.t3d`);
+    writeFileSync(path, exportToT3D(graph));
+    return path;
+  });
+}
+
+/** The configured backend. The mock answers unrecorded prompts in turn. */
+function createBackend(
+  settings: ProviderSettings,
+  recordings: Recording[],
+): LlmProvider {
+  return settings.provider === 'mock'
+    ? new MockProvider(
+        recordings,
+        recordings.map((r) => r.response),
+      )
+    : createProvider(settings);
+}
+
+function readVariant(file: string | undefined, name: string): PromptVariant {
+  return file ? parseVariant(readFileSync(file, 'utf8'), name) : CURRENT_VARIANT;
+}
+
+function formatScore(score: EvalScore) {
+  const seconds = (score.latencyMs / 1000).toFixed(1);
+  if (!score.parsed) return `failed after ${seconds} s: ${score.failure}`;
+  const errors = `${score.errors} error${score.errors === 1 ? '' : 's'}`;
+  return `${score.valid ? 'valid' : errors}, ${score.nodes} nodes, ${
+    score.overlaps
+  } overlapping (${score.overlapsAfterLayout} after layout), ${seconds} s`;
+}
+
+async function evaluate(
+  options: CliOptions,
+  current: BlueprintAsset | undefined,
+  api: ProjectApi,
+  recordings: Recording[],
+) {
+  if (!options.candidate) throw new Error('--eval needs a --candidate.');
+  const variants = [
+    readVariant(options.baseline, 'baseline'),
+    readVariant(options.candidate, 'candidate'),
+  ];
+  const prompts = options.prompts.length ? options.prompts : EXAMPLE_PROMPTS;
+  // The example prompts ask about the example blueprint.
+  const example = options.prompts.length
+    ? undefined
+    : STARTUP_BLUEPRINT.blueprint;
+  const context = {current: current ?? example, api};
+  const runs = [];
+  for (const variant of variants) {
+    console.log(`Evaluating ${variant.name} on ${prompts.length} prompts`);
+    runs.push(
+      await runEval(
+        variant,
+        prompts,
+        createBackend(options.settings, variant.recordings ?? recordings),
+        options.settings,
+        context,
+        (score) => console.log(`  ${score.prompt}: ${formatScore(score)}`),
+      ),
+    );
+  }
+  const report = compareRuns(runs[0], runs[1]);
+  if (options.report) {
+    writeFileSync(options.report, report);
+    console.log(`Wrote ${options.report}`);
+  } else {
+    console.log(`\n${report}`);
+  }
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  if (!options.prompts.length && !options.eval) {
+    console.error(USAGE);
+    process.exit(1);
+  }
+  const current = options.blueprint
+    ? readBlueprint(options.blueprint)
+    : undefined;
+  const api = parseHeaders(
+    options.headers.map((fileName) => ({
+      fileName,
+      text: readFileSync(fileName, 'utf8'),
+    })),
+  );
+  for (const warning of api.warnings) console.warn(`Skipped ${warning}`);
+  const recordings: Recording[] = options.recordings
+    ? JSON.parse(readFileSync(options.recordings, 'utf8'))
+    : [];
+  if (options.eval) {
+    await evaluate(options, current, api, recordings);
+    return;
+  }
+  mkdirSync(options.out, {recursive: true});
+
+  const provider = createBackend(options.settings, recordings);
+  let failures = 0;
+  for (const [index, prompt] of options.prompts.entries()) {
+    console.log(`[${index + 1}/${options.prompts.length}] ${prompt}`);
+    try {
+      const result = await generateBlueprint(prompt, current, {
+        settings: options.settings,
+        provider,
+        context: {api},
+        layout: options.layout,
+        onStep: (summary, problems) => {
+          console.log(`  ${summary}`);
+          for (const problem of problems) console.log(`    - ${problem}`);
+        },
+      });
+      const files = writeBlueprint(
+        result.asset,
+        baseName(index, result.asset),
+        options,
+      );
+      console.log(`  ${result.description}`);
+      for (const file of files) console.log(`  Wrote ${file}`);
+    } catch (e) {
+      failures++;
+      console.error(`  Failed: ${e instanceof Error ? e.message : e}`);
+    }
+  }
+  if (failures) {
+    console.error(`${failures} of ${options.prompts.length} prompts failed.`);
+    process.exit(1);
+  }
+}
+
+main().catch((e) => {
+  console.error(e instanceof Error ? e.message : e);
+  process.exit(1);
+});
@@ -0,0 +1,961 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import {variableReference} from './asset';
+import {findPin} from './pins';
+import {
+  BlueprintAsset,
+  BlueprintGraph,
+  BlueprintNode,
+  BlueprintPin,
+  BlueprintVariable,
+  PinType,
+} from './playground';
+
+/** A UCLASS header and source generated from an asset. */
+export interface CppFiles {
+  className: string;
+  /** Base name of both files, e.g. "MageDice" for MageDice.h. */
+  fileName: string;
+  header: string;
+  source: string;
+  /** Lines of either file that carry a TODO comment. */
+  todos: string[];
+}
+
+/** Unreal's coding standard indents with tabs. */
+const INDENT = '\t';
+
+/** Engine classes whose C++ names start with U rather than A. */
+const OBJECT_CLASSES = [
+  'Object',
+  'ActorComponent',
+  'SceneComponent',
+  'GameInstance',
+  'UserWidget',
+  'DataAsset',
+  'PrimaryDataAsset',
+  'AnimInstance',
+];
+
+const PARENT_HEADERS: Record<string, string> = {
+  Actor: 'GameFramework/Actor.h',
+  Pawn: 'GameFramework/Pawn.h',
+  Character: 'GameFramework/Character.h',
+  PlayerController: 'GameFramework/PlayerController.h',
+  GameModeBase: 'GameFramework/GameModeBase.h',
+  ActorComponent: 'Components/ActorComponent.h',
+  SceneComponent: 'Components/SceneComponent.h',
+  GameInstance: 'Engine/GameInstance.h',
+  UserWidget: 'Blueprint/UserWidget.h',
+  Object: 'UObject/Object.h',
+};
+
+/** Blueprint events that override a virtual function of AActor. */
+const NATIVE_EVENTS: Record<string, {signature: string; superCall: string}> = {
+  beginplay: {signature: 'BeginPlay()', superCall: 'BeginPlay()'},
+  tick: {signature: 'Tick(float DeltaSeconds)', superCall: 'Tick(DeltaSeconds)'},
+  endplay: {
+    signature: 'EndPlay(const EEndPlayReason::Type EndPlayReason)',
+    superCall: 'EndPlay(EndPlayReason)',
+  },
+  actorbeginoverlap: {
+    signature: 'NotifyActorBeginOverlap(AActor* OtherActor)',
+    superCall: 'NotifyActorBeginOverlap(OtherActor)',
+  },
+  actorendoverlap: {
+    signature: 'NotifyActorEndOverlap(AActor* OtherActor)',
+    superCall: 'NotifyActorEndOverlap(OtherActor)',
+  },
+  destroyed: {signature: 'Destroyed()', superCall: 'Destroyed()'},
+};
+
+const BINARY_OPERATORS: Record<string, string> = {
+  '+': '+',
+  'add': '+',
+  '-': '-',
+  'subtract': '-',
+  '*': '*',
+  'multiply': '*',
+  '/': '/',
+  'divide': '/',
+  '%': '%',
+  '==': '==',
+  'equal': '==',
+  '!=': '!=',
+  '<': '<',
+  '>': '>',
+  '<=': '<=',
+  '>=': '>=',
+  'and': '&&',
+  'or': '||',
+};
+
+const isExec = (pin: BlueprintPin) => pin.category === 'exec';
+
+/** Lower-cased label without spaces or a "(Integer)"-style suffix. */
+function labelKey(label: string) {
+  return label
+    .replace(/\s*\(.*\)\s*$/, '')
+    .toLowerCase()
+    .replace(/\s+/g, '');
+}
+
+/** "Delta Seconds" becomes "DeltaSeconds", "[0]" becomes the fallback. */
+function identifier(text: string, fallback = 'Value') {
+  const name = text
+    .split(/[^A-Za-z0-9_]+/)
+    .filter(Boolean)
+    .map((word) => word[0].toUpperCase() + word.slice(1))
+    .join('');
+  if (!name) return fallback;
+  return /^\d/.test(name) ? `_${name}` : name;
+}
+
+function classPrefix(name: string) {
+  return OBJECT_CLASSES.includes(name) || /Component$/.test(name) ? 'U' : 'A';
+}
+
+function cppString(text: string) {
+  return `TEXT("${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}")`;
+}
+
+function isContainer(type: PinType) {
+  return (type.container ?? 'single') !== 'single';
+}
+
+function elementType(type: PinType): string {
+  switch (type.category) {
+    case 'bool':
+      return 'bool';
+    case 'byte':
+      return 'uint8';
+    case 'int':
+      return 'int32';
+    case 'int64':
+      return 'int64';
+    case 'real':
+      return 'float';
+    case 'name':
+      return 'FName';
+    case 'string':
+      return 'FString';
+    case 'text':
+      return 'FText';
+    case 'vector':
+      return 'FVector';
+    case 'rotator':
+      return 'FRotator';
+    case 'transform':
+      return 'FTransform';
+    case 'object': {
+      const name = identifier(type.subtype ?? 'Object');
+      return `${classPrefix(name)}${name}*`;
+    }
+    case 'struct':
+      return `F${identifier(type.subtype ?? 'Struct')}`;
+    case 'enum':
+      return `E${identifier(type.subtype ?? 'Enum')}`;
+    default:
+      return '/* TODO: pick a type for this wildcard */ int32';
+  }
+}
+
+function cppType(type: PinType): string {
+  const element = elementType(type);
+  switch (type.container ?? 'single') {
+    case 'array':
+      return `TArray<${element}>`;
+    case 'set':
+      return `TSet<${element}>`;
+    case 'map':
+      return `TMap<${element}, /* TODO: value type */ ${element}>`;
+    default:
+      return element;
+  }
+}
+
+/** Parameter type; anything bigger than a number is passed by reference. */
+function paramType(type: PinType) {
+  const cheap = ['bool', 'byte', 'int', 'int64', 'real', 'object', 'enum'];
+  return isContainer(type) || !cheap.includes(type.category)
+    ? `const ${cppType(type)}&`
+    : cppType(type);
+}
+
+function floatLiteral(value: number) {
+  return Number.isInteger(value) ? `${value}.f` : `${value}f`;
+}
+
+function vectorParts(text: string) {
+  return text.split(',').map((part) => parseFloat(part) || 0);
+}
+
+/**
+ * A default value written the way Unreal stores it, as C++. Returns null
+ * when there is no default value.
+ */
+function literal(type: PinType, text: string | undefined): string | null {
+  if (text === undefined || text === '' || isContainer(type)) return null;
+  switch (type.category) {
+    case 'bool':
+      return text.trim().toLowerCase() === 'true' ? 'true' : 'false';
+    case 'byte':
+    case 'int':
+    case 'int64':
+      return String(parseInt(text, 10) || 0);
+    case 'real':
+      return floatLiteral(parseFloat(text) || 0);
+    case 'name':
+      return `FName(${cppString(text)})`;
+    case 'string':
+      return cppString(text);
+    case 'text':
+      return `FText::FromString(${cppString(text)})`;
+    case 'vector':
+      return `FVector(${vectorParts(text).join(', ')})`;
+    case 'rotator':
+      return `FRotator(${vectorParts(text).join(', ')})`;
+    case 'enum':
+      return `${elementType(type)}::${identifier(text)}`;
+    default:
+      return null;
+  }
+}
+
+/** The value an unconnected pin without a default has. */
+function zeroValue(type: PinType): string {
+  if (isContainer(type)) return `${cppType(type)}()`;
+  switch (type.category) {
+    case 'bool':
+      return 'false';
+    case 'byte':
+    case 'int':
+    case 'int64':
+      return '0';
+    case 'real':
+      return '0.f';
+    case 'name':
+      return 'NAME_None';
+    case 'string':
+      return 'FString()';
+    case 'text':
+      return 'FText::GetEmpty()';
+    case 'vector':
+      return 'FVector::ZeroVector';
+    case 'rotator':
+      return 'FRotator::ZeroRotator';
+    case 'transform':
+      return 'FTransform::Identity';
+    case 'object':
+      return 'nullptr';
+    case 'struct':
+    case 'enum':
+      return `${elementType(type)}()`;
+    default:
+      return '0';
+  }
+}
+
+/** Wraps a value for a pin of another type, like Unreal's conversion nodes. */
+function convert(expression: string, from: PinType, to: PinType) {
+  if (from.category === to.category || isContainer(from) || isContainer(to)) {
+    return expression;
+  }
+  if (to.category === 'string') {
+    switch (from.category) {
+      case 'bool':
+        return `(${expression} ? TEXT("true") : TEXT("false"))`;
+      case 'byte':
+      case 'int':
+      case 'int64':
+        return `FString::FromInt(${bare(expression)})`;
+      case 'real':
+        return `FString::SanitizeFloat(${bare(expression)})`;
+      case 'object':
+        return `GetNameSafe(${bare(expression)})`;
+      default:
+        return `${expression}.ToString()`;
+    }
+  }
+  if (to.category === 'text') {
+    return from.category === 'string'
+      ? `FText::FromString(${bare(expression)})`
+      : `FText::FromString(${convert(expression, from, {category: 'string'})})`;
+  }
+  if (to.category === 'name' && from.category === 'string') {
+    return `FName(${bare(expression)})`;
+  }
+  return expression;
+}
+
+/** Drops the parentheses around a whole expression, e.g. for a statement. */
+function bare(expression: string) {
+  if (!expression.startsWith('(') || !expression.endsWith(')')) {
+    return expression;
+  }
+  let depth = 0;
+  for (let i = 0; i < expression.length - 1; i++) {
+    if (expression[i] === '(') depth++;
+    if (expression[i] === ')') depth--;
+    if (depth === 0) return expression;
+  }
+  return expression.slice(1, -1);
+}
+
+/** Something a call node can refer to: a function graph or a custom event. */
+interface Callable {
+  name: string;
+  inputs: BlueprintPin[];
+  outputs: BlueprintPin[];
+}
+
+/** Shared by all function bodies of one class. */
+interface ClassContext {
+  callables: Callable[];
+  /** Extra #include lines needed by the source file. */
+  includes: Set<string>;
+}
+
+/** Writes the body of one C++ function from an exec chain. */
+class BodyWriter {
+  readonly lines: string[] = [];
+  private depth = 1;
+  /** C++ expressions for outputs of nodes that already ran. */
+  private readonly values = new Map<string, string>();
+  private readonly names = new Set<string>();
+  /** Exec nodes on the chain being written, to catch wires that loop back. */
+  private readonly active = new Set<string>();
+
+  constructor(
+    private readonly graph: BlueprintGraph,
+    private readonly context: ClassContext,
+  ) {}
+
+  line(text: string) {
+    this.lines.push(INDENT.repeat(this.depth) + text);
+  }
+
+  /** Makes the outputs of an event or entry node available as parameters. */
+  bind(node: BlueprintNode, names: string[]) {
+    node.outputs.filter((p) => !isExec(p)).forEach((pin, i) => {
+      this.values.set(this.key(node.id, pin.name), names[i]);
+      this.names.add(names[i]);
+    });
+  }
+
+  /** Writes the statements reached through an exec output. */
+  chain(nodeId: string, pin: string | null) {
+    const visited: string[] = [];
+    let wire = this.execWire(nodeId, pin);
+    while (wire) {
+      const node = this.node(wire.to);
+      if (!node) break;
+      if (this.active.has(node.id)) {
+        this.line(
+          `// TODO: the exec wire loops back to "${node.label}"; rewrite it as a loop.`,
+        );
+        break;
+      }
+      this.active.add(node.id);
+      visited.push(node.id);
+      const next = this.statement(node);
+      wire = this.execWire(node.id, next);
+    }
+    visited.forEach((id) => this.active.delete(id));
+  }
+
+  private block(header: string, write: () => void) {
+    this.line(header);
+    this.line('{');
+    this.depth++;
+    write();
+    this.depth--;
+    this.line('}');
+  }
+
+  private key(nodeId: string, pin: string) {
+    return `${nodeId}\u0000${pin}`;
+  }
+
+  private node(id: string) {
+    return this.graph.nodes.find((n) => n.id === id);
+  }
+
+  private execWire(nodeId: string, pin: string | null) {
+    if (pin === null) return null;
+    return this.graph.connections.find(
+      (c) => c.type === 'exec' && c.from === nodeId && c.fromPort === pin,
+    );
+  }
+
+  private local(base: string) {
+    let name = base;
+    for (let i = 2; this.names.has(name); i++) name = `${base}${i}`;
+    this.names.add(name);
+    return name;
+  }
+
+  private pinNamed(pins: BlueprintPin[], pattern: RegExp) {
+    return pins.find((p) => pattern.test(p.name))?.name;
+  }
+
+  private dataInputs(node: BlueprintNode) {
+    return node.inputs.filter((p) => !isExec(p));
+  }
+
+  private firstExecOutput(node: BlueprintNode) {
+    return node.outputs.find(isExec)?.name ?? null;
+  }
+
+  private findCallable(node: BlueprintNode) {
+    const name = identifier(node.label.replace(/^call\s+/i, ''), '');
+    return this.context.callables.find((c) => identifier(c.name) === name);
+  }
+
+  /** C++ expression for an input pin. */
+  private input(node: BlueprintNode, name: string | undefined): string {
+    const pin = node.inputs.find((p) => p.name === name);
+    if (!pin) return `0 /* TODO: "${node.label}" has no such input */`;
+    const wire = this.graph.connections.find(
+      (c) => c.type === 'data' && c.to === node.id && c.toPort === name,
+    );
+    if (!wire) return literal(pin, pin.defaultValue) ?? zeroValue(pin);
+    const from = findPin(this.node(wire.from), wire.fromPort, false);
+    const value = this.output(wire.from, wire.fromPort);
+    return from ? convert(value, from, pin) : value;
+  }
+
+  private output(nodeId: string, pinName: string): string {
+    const key = this.key(nodeId, pinName);
+    if (this.values.has(key)) return this.values.get(key);
+    const node = this.node(nodeId);
+    const pin = node?.outputs.find((p) => p.name === pinName);
+    if (!node || !pin) return '0 /* TODO: broken wire */';
+    if ([...node.inputs, ...node.outputs].some(isExec)) {
+      return `${zeroValue(pin)} /* TODO: "${node.label}" hasn't run here */`;
+    }
+    return this.pure(node, pin);
+  }
+
+  /** C++ expression for an output of a node without exec pins. */
+  private pure(node: BlueprintNode, pin: BlueprintPin): string {
+    if (node.type === 'reroute') return this.input(node, node.inputs[0]?.name);
+    const ref = variableReference(node);
+    if (ref) return identifier(ref.name);
+
+    const kind = labelKey(node.label);
+    const args = this.dataInputs(node).map((p) => this.input(node, p.name));
+    const operator = node.label.trim().split(/\s+/)[0].toLowerCase();
+    if (BINARY_OPERATORS[operator] && args.length >= 2) {
+      return `(${args.join(` ${BINARY_OPERATORS[operator]} `)})`;
+    }
+    if (operator === 'not' || operator === '!') return `!${args[0]}`;
+
+    const named = (pattern: RegExp) =>
+      this.input(node, this.pinNamed(node.inputs, pattern));
+    switch (kind) {
+      case 'makearray':
+        return `${cppType(pin)}{${args.join(', ')}}`;
+      case 'get':
+        return `${named(/array/i)}[${bare(named(/index/i))}]`;
+      case 'length':
+        return `${args[0]}.Num()`;
+      case 'randomintegerinrange':
+        return `FMath::RandRange(${bare(named(/min/i))}, ${bare(named(/max/i))})`;
+      case 'randomfloatinrange':
+        return `FMath::FRandRange(${bare(named(/min/i))}, ${bare(named(/max/i))})`;
+      case 'randominteger':
+        return `FMath::RandHelper(${bare(args[0])})`;
+      case 'randombool':
+        return 'FMath::RandBool()';
+      case 'append':
+        return `(FString(${args.map(bare).join(') + FString(')}))`;
+      case 'isvalid':
+        return `IsValid(${bare(args[0])})`;
+      default:
+        return `${zeroValue(pin)} /* TODO: translate "${node.label}" */`;
+    }
+  }
+
+  /**
+   * Unreal evaluates a pure node once per exec node that reads it, so a
+   * Random node read twice by one statement must give the same number.
+   * Such nodes are stored in a local first. Returns the keys to forget
+   * once the statement is written.
+   */
+  private hoistShared(node: BlueprintNode) {
+    const uses = new Map<string, number>();
+    const order: Array<{node: BlueprintNode; pin: BlueprintPin}> = [];
+    const visit = (current: BlueprintNode) => {
+      for (const wire of this.graph.connections) {
+        if (wire.type !== 'data' || wire.to !== current.id) continue;
+        const from = this.node(wire.from);
+        const pin = from?.outputs.find((p) => p.name === wire.fromPort);
+        if (!pin || variableReference(from)) continue;
+        if ([...from.inputs, ...from.outputs].some(isExec)) continue;
+        const key = this.key(from.id, pin.name);
+        if (this.values.has(key)) continue;
+        uses.set(key, (uses.get(key) ?? 0) + 1);
+        if (uses.get(key) === 1) {
+          visit(from);
+          order.push({node: from, pin});
+        }
+      }
+    };
+    visit(node);
+    const hoisted: string[] = [];
+    for (const {node: from, pin} of order) {
+      const key = this.key(from.id, pin.name);
+      if (uses.get(key) < 2) continue;
+      const name = this.local(
+        identifier(/return value/i.test(pin.name) ? from.label : pin.name),
+      );
+      this.line(`const ${cppType(pin)} ${name} = ${bare(this.pure(from, pin))};`);
+      this.values.set(key, name);
+      hoisted.push(key);
+    }
+    return hoisted;
+  }
+
+  /** Writes one exec node and returns the exec output to continue with. */
+  private statement(node: BlueprintNode): string | null {
+    const hoisted = this.hoistShared(node);
+    const next = this.write(node);
+    hoisted.forEach((key) => this.values.delete(key));
+    return next;
+  }
+
+  private write(node: BlueprintNode): string | null {
+    const inputs = this.dataInputs(node);
+    const named = (pattern: RegExp) =>
+      this.input(node, this.pinNamed(inputs, pattern) ?? inputs[0]?.name);
+
+    if (node.type === 'return') {
+      this.writeReturn(node);
+      return null;
+    }
+    if (node.type === 'reroute') return this.firstExecOutput(node);
+    const ref = variableReference(node);
+    if (ref?.access === 'set') {
+      const name = identifier(ref.name);
+      this.line(`${name} = ${bare(this.input(node, inputs[0]?.name))};`);
+      for (const pin of node.outputs.filter((p) => !isExec(p))) {
+        this.values.set(this.key(node.id, pin.name), name);
+      }
+      return this.firstExecOutput(node);
+    }
+
+    switch (labelKey(node.label)) {
+      case 'printstring':
+        this.context.includes.add('Kismet/KismetSystemLibrary.h');
+        this.line(
+          `UKismetSystemLibrary::PrintString(this, ${bare(named(/string|text/i))});`,
+        );
+        return this.firstExecOutput(node);
+      case 'branch': {
+        const truePin = this.pinNamed(node.outputs, /^true$/i);
+        const falsePin = this.pinNamed(node.outputs, /^false$/i);
+        this.block(`if (${bare(named(/condition/i))})`, () =>
+          this.chain(node.id, truePin),
+        );
+        if (this.execWire(node.id, falsePin)) {
+          this.block('else', () => this.chain(node.id, falsePin));
+        }
+        return null;
+      }
+      case 'sequence':
+        for (const pin of node.outputs.filter(isExec)) {
+          this.chain(node.id, pin.name);
+        }
+        return null;
+      case 'forloop': {
+        const index = this.local('Index');
+        const indexPin = this.pinNamed(node.outputs, /index/i);
+        if (indexPin) this.values.set(this.key(node.id, indexPin), index);
+        this.block(
+          `for (int32 ${index} = ${bare(named(/first/i))}; ${index} <= ${bare(
+            named(/last/i),
+          )}; ++${index})`,
+          () => this.chain(node.id, this.pinNamed(node.outputs, /loop body/i)),
+        );
+        return this.pinNamed(node.outputs, /completed/i) ?? null;
+      }
+      case 'foreachloop': {
+        let array = bare(named(/array/i));
+        if (!/^[A-Za-z_]\w*$/.test(array)) {
+          const items = this.local('Items');
+          this.line(`const auto& ${items} = ${array};`);
+          array = items;
+        }
+        const index = this.local('ArrayIndex');
+        const elementPin = this.pinNamed(node.outputs, /element/i);
+        const indexPin = this.pinNamed(node.outputs, /index/i);
+        if (elementPin) {
+          this.values.set(this.key(node.id, elementPin), `${array}[${index}]`);
+        }
+        if (indexPin) this.values.set(this.key(node.id, indexPin), index);
+        this.block(
+          `for (int32 ${index} = 0; ${index} < ${array}.Num(); ++${index})`,
+          () => this.chain(node.id, this.pinNamed(node.outputs, /loop body/i)),
+        );
+        return this.pinNamed(node.outputs, /completed/i) ?? null;
+      }
+      case 'whileloop':
+        this.block(`while (${bare(named(/condition/i))})`, () =>
+          this.chain(node.id, this.pinNamed(node.outputs, /loop body/i)),
+        );
+        return this.pinNamed(node.outputs, /completed/i) ?? null;
+      case 'setarrayelem':
+        this.line(
+          `${named(/array/i)}[${bare(named(/index/i))}] = ${bare(named(/item/i))};`,
+        );
+        return this.firstExecOutput(node);
+      case 'add':
+        if (inputs.some(isContainer)) {
+          this.line(`${named(/array/i)}.Add(${bare(named(/item/i))});`);
+          return this.firstExecOutput(node);
+        }
+        break;
+      case 'delay':
+        this.line(
+          '// TODO: "Delay" needs a timer. Start one with ' +
+            'GetWorldTimerManager().SetTimer and move the statements below ' +
+            'into its callback.',
+        );
+        return this.firstExecOutput(node);
+      default:
+        break;
+    }
+
+    const callable = this.findCallable(node);
+    if (callable) {
+      this.writeCall(node, callable);
+    } else {
+      this.line(`// TODO: translate "${node.label}" (${node.id}).`);
+    }
+    return this.firstExecOutput(node);
+  }
+
+  private writeCall(node: BlueprintNode, callable: Callable) {
+    const args = callable.inputs.map((param) =>
+      bare(this.input(node, param.name)),
+    );
+    const name = identifier(callable.name);
+    const results = callable.outputs.map((param) => ({
+      param,
+      local: this.local(identifier(param.name)),
+    }));
+    for (const {param, local} of results) {
+      const pin = node.outputs.find((p) => p.name === param.name);
+      if (pin) this.values.set(this.key(node.id, pin.name), local);
+    }
+    if (results.length === 1) {
+      const [{param, local}] = results;
+      this.line(`const ${cppType(param)} ${local} = ${name}(${args.join(', ')});`);
+      return;
+    }
+    for (const {param, local} of results) {
+      this.line(`${cppType(param)} ${local};`);
+    }
+    const all = [...args, ...results.map((r) => r.local)];
+    this.line(`${name}(${all.join(', ')});`);
+  }
+
+  private writeReturn(node: BlueprintNode) {
+    const outputs = this.graph.outputs ?? [];
+    if (outputs.length === 1) {
+      this.line(`return ${bare(this.input(node, outputs[0].name))};`);
+      return;
+    }
+    for (const param of outputs) {
+      const value = bare(this.input(node, param.name));
+      this.line(`${identifier(param.name)} = ${value};`);
+    }
+    if (outputs.length) this.line('return;');
+  }
+}
+
+/** One generated member function. */
+interface MemberFunction {
+  /** Lines of the class declaration, e.g. UFUNCTION and the prototype. */
+  declaration: string[];
+  /** Whether the declaration goes in the protected section. */
+  isProtected: boolean;
+  definition: string[];
+}
+
+function eventFunction(
+  graph: BlueprintGraph,
+  event: BlueprintNode,
+  className: string,
+  isActor: boolean,
+  context: ClassContext,
+): MemberFunction {
+  const writer = new BodyWriter(graph, context);
+  const params = event.outputs.filter((p) => !isExec(p));
+  const custom = event.label.match(/^custom\s*event\s*:?\s*(.+)$/i);
+  const native = custom
+    ? null
+    : NATIVE_EVENTS[labelKey(event.label).replace(/^event/, '')];
+  const execOut = event.outputs.find(isExec)?.name ?? null;
+
+  if (native && !isActor) {
+    writer.line(
+      `// TODO: "${event.label}" is an Actor event; call this from the matching event of this class.`,
+    );
+  } else if (native) {
+    const names = native.superCall.match(/\((.*)\)/)[1].split(/,\s*/);
+    writer.bind(event, names);
+    writer.line(`Super::${native.superCall};`);
+    writer.chain(event.id, execOut);
+    return {
+      declaration: [`virtual void ${native.signature} override;`],
+      isProtected: true,
+      definition: [
+        `void ${className}::${native.signature}`,
+        '{',
+        ...writer.lines,
+        '}',
+      ],
+    };
+  }
+
+  const name = identifier(
+    custom ? custom[1] : event.label.replace(/^event\s+/i, ''),
+    'CustomEvent',
+  );
+  const names = params.map((p) => identifier(p.name));
+  writer.bind(event, names);
+  writer.chain(event.id, execOut);
+  const signature = params
+    .map((p, i) => `${paramType(p)} ${names[i]}`)
+    .join(', ');
+  return {
+    declaration: ['UFUNCTION(BlueprintCallable)', `void ${name}(${signature});`],
+    isProtected: false,
+    definition: [
+      `void ${className}::${name}(${signature})`,
+      '{',
+      ...writer.lines,
+      '}',
+    ],
+  };
+}
+
+function graphFunction(
+  graph: BlueprintGraph,
+  className: string,
+  context: ClassContext,
+): MemberFunction {
+  const writer = new BodyWriter(graph, context);
+  const name = identifier(graph.name, 'Function');
+  const inputs = graph.inputs ?? [];
+  const outputs = graph.outputs ?? [];
+  const params = inputs.map((p) => `${paramType(p)} ${identifier(p.name)}`);
+  // A single output is the return value, more become reference parameters.
+  const returnType = outputs.length === 1 ? cppType(outputs[0]) : 'void';
+  if (outputs.length > 1) {
+    params.push(...outputs.map((p) => `${cppType(p)}& ${identifier(p.name)}`));
+  }
+  const entry = graph.nodes.find((n) => n.type === 'entry');
+  if (entry) {
+    writer.bind(
+      entry,
+      entry.outputs.filter((p) => !isExec(p)).map((p) => identifier(p.name)),
+    );
+    writer.chain(entry.id, entry.outputs.find(isExec)?.name ?? null);
+  } else {
+    writer.line(`// TODO: ${graph.name} has no entry node.`);
+  }
+  const signature = `${name}(${params.join(', ')})`;
+  return {
+    declaration: ['UFUNCTION(BlueprintCallable)', `${returnType} ${signature};`],
+    isProtected: false,
+    definition: [
+      `${returnType} ${className}::${signature}`,
+      '{',
+      ...writer.lines,
+      '}',
+    ],
+  };
+}
+
+function propertyDeclaration(variable: BlueprintVariable) {
+  const specifiers = [
+    'EditAnywhere',
+    'BlueprintReadWrite',
+    `Category = "${variable.category || 'Default'}"`,
+  ];
+  const name = identifier(variable.name);
+  if (variable.replication === 'replicated') specifiers.push('Replicated');
+  if (variable.replication === 'rep_notify') {
+    specifiers.push(`ReplicatedUsing = OnRep_${name}`);
+  }
+  const initial = literal(variable.type, variable.defaultValue);
+  const lines = [
+    `UPROPERTY(${specifiers.join(', ')})`,
+    `${cppType(variable.type)} ${name}${initial ? ` = ${initial}` : ''};`,
+  ];
+  if (variable.type.category === 'transform' && variable.defaultValue) {
+    lines.push(`// TODO: set the default value ${variable.defaultValue}.`);
+  }
+  if (variable.tooltip) lines.unshift(`/** ${variable.tooltip} */`);
+  return lines;
+}
+
+function indent(lines: string[]) {
+  return lines.map((line) => (line ? INDENT + line : line));
+}
+
+/**
+ * Translates an asset into a UCLASS. Variables become UPROPERTYs, events
+ * and functions become UFUNCTIONs, and exec chains become statements.
+ * Nodes it can't translate are left as TODO comments.
+ */
+export function generateCpp(asset: BlueprintAsset): CppFiles {
+  const fileName = identifier(asset.name.replace(/^BP_/i, ''), 'Blueprint');
+  const parent = identifier(asset.parentClass || 'Actor');
+  const className = `${classPrefix(parent)}${fileName}`;
+  const parentClass = `${classPrefix(parent)}${parent}`;
+  const isActor = classPrefix(parent) === 'A';
+
+  const eventNodes = asset.graphs
+    .filter((g) => g.kind === 'event')
+    .flatMap((graph) =>
+      graph.nodes
+        .filter((n) => n.type === 'event')
+        .map((event) => ({graph, event})),
+    );
+  const functionGraphs = asset.graphs.filter((g) => g.kind === 'function');
+  const macroGraphs = asset.graphs.filter((g) => g.kind === 'macro');
+  const context: ClassContext = {
+    callables: [
+      ...functionGraphs.map((g) => ({
+        name: g.name,
+        inputs: g.inputs ?? [],
+        outputs: g.outputs ?? [],
+      })),
+      ...eventNodes
+        .filter(({event}) => /^custom\s*event/i.test(event.label))
+        .map(({event}) => ({
+          name: event.label.replace(/^custom\s*event\s*:?\s*/i, ''),
+          inputs: event.outputs.filter((p) => !isExec(p)),
+          outputs: [],
+        })),
+    ],
+    includes: new Set(),
+  };
+
+  const functions = [
+    ...eventNodes.map(({graph, event}) =>
+      eventFunction(graph, event, className, isActor, context),
+    ),
+    ...functionGraphs.map((graph) => graphFunction(graph, className, context)),
+  ];
+
+  const replicated = asset.variables.filter(
+    (v) => (v.replication ?? 'none') !== 'none',
+  );
+  if (replicated.length) {
+    context.includes.add('Net/UnrealNetwork.h');
+    functions.push({
+      declaration: [
+        'virtual void GetLifetimeReplicatedProps(TArray<FLifetimeProperty>& OutLifetimeProps) const override;',
+      ],
+      isProtected: false,
+      definition: [
+        `void ${className}::GetLifetimeReplicatedProps(TArray<FLifetimeProperty>& OutLifetimeProps) const`,
+        '{',
+        `${INDENT}Super::GetLifetimeReplicatedProps(OutLifetimeProps);`,
+        ...replicated.map(
+          (v) => `${INDENT}DOREPLIFETIME(${className}, ${identifier(v.name)});`,
+        ),
+        '}',
+      ],
+    });
+  }
+  // RepNotify functions written as graphs are generated with the graphs.
+  for (const variable of replicated) {
+    const name = `OnRep_${identifier(variable.name)}`;
+    if (variable.replication !== 'rep_notify') continue;
+    if (functionGraphs.some((g) => identifier(g.name) === name)) continue;
+    functions.push({
+      declaration: ['UFUNCTION()', `void ${name}();`],
+      isProtected: true,
+      definition: [
+        `void ${className}::${name}()`,
+        '{',
+        `${INDENT}// Called on clients when ${variable.name} replicates.`,
+        '}',
+      ],
+    });
+  }
+
+  const hasTick = functions.some((f) =>
+    f.declaration.some((line) => line.includes(' Tick(')),
+  );
+  const constructor = isActor
+    ? [
+        `${className}::${className}()`,
+        '{',
+        `${INDENT}PrimaryActorTick.bCanEverTick = ${hasTick};`,
+        ...(replicated.length ? [`${INDENT}bReplicates = true;`] : []),
+        '}',
+      ]
+    : [];
+
+  const parentHeader = PARENT_HEADERS[parent]
+    ? `#include "${PARENT_HEADERS[parent]}"`
+    : `#include "${parent}.h" // TODO: check the include path.`;
+  // Members are written in groups separated by blank lines.
+  const section = (access: string, groups: string[][]) =>
+    groups.length
+      ? ['', `${access}:`, ...indent(groups.flatMap((g) => ['', ...g]).slice(1))]
+      : [];
+  const declarations = (isProtected: boolean) =>
+    functions
+      .filter((f) => f.isProtected === isProtected)
+      .map((f) => f.declaration);
+
+  const header = [
+    `// Generated by Blueprint Magic from ${asset.name}.`,
+    '#pragma once',
+    '',
+    '#include "CoreMinimal.h"',
+    parentHeader,
+    `#include "${fileName}.generated.h"`,
+    '',
+    'UCLASS(Blueprintable)',
+    `class ${className} : public ${parentClass}`,
+    '{',
+    `${INDENT}GENERATED_BODY()`,
+    ...section('public', [
+      ...(isActor ? [[`${className}();`]] : []),
+      ...asset.variables.map(propertyDeclaration),
+      ...declarations(false),
+      ...macroGraphs.map((g) => [
+        `// TODO: macro "${g.name}" isn't translated; inline it where it's used.`,
+      ]),
+    ]),
+    ...section('protected', declarations(true)),
+    '};',
+    '',
+  ].join('\n');
+
+  const source = [
+    `// Generated by Blueprint Magic from ${asset.name}.`,
+    `#include "${fileName}.h"`,
+    ...[...context.includes].sort().map((path) => `#include "${path}"`),
+    ...[constructor, ...functions.map((f) => f.definition)]
+      .filter((lines) => lines.length)
+      .flatMap((lines) => ['', ...lines]),
+    '',
+  ].join('\n');
+
+  const todos = [...header.split('\n'), ...source.split('\n')]
+    .filter((line) => line.includes('TODO'))
+    .map((line) => line.trim());
+  return {className, fileName, header, source, todos};
+}
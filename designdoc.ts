@@ -0,0 +1,186 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import {variableReference} from './asset';
+import {formatPinType} from './pins';
+import {
+  BlueprintAsset,
+  BlueprintGraph,
+  BlueprintNode,
+  BlueprintPin,
+} from './playground';
+
+export interface DesignDocOptions {
+  /** The model's explanation of the blueprint. */
+  description?: string;
+  /** URL of a picture of the graph, e.g. a data: URL. */
+  image?: string;
+}
+
+const REPLICATION_NAMES = {
+  none: 'None',
+  replicated: 'Replicated',
+  rep_notify: 'RepNotify',
+};
+
+const isExec = (pin: BlueprintPin) => pin.category === 'exec';
+
+function cell(text: string | undefined) {
+  return (text ?? '').replace(/\|/g, '\\|').replace(/\n/g, ' ');
+}
+
+function execWire(graph: BlueprintGraph, nodeId: string, pin: string) {
+  return graph.connections.find(
+    (c) => c.type === 'exec' && c.from === nodeId && c.fromPort === pin,
+  );
+}
+
+/**
+ * The exec chain leaving `pin` as a bullet list. Nodes with several exec
+ * outputs, like Branch or For Loop, get a nested list per output.
+ */
+function outline(
+  graph: BlueprintGraph,
+  nodeId: string,
+  pin: string | undefined,
+  depth = 0,
+  path = new Set<string>(),
+): string[] {
+  const indent = '  '.repeat(depth);
+  const lines: string[] = [];
+  const visited: string[] = [];
+  let wire = pin && execWire(graph, nodeId, pin);
+  while (wire) {
+    const node = graph.nodes.find((n) => n.id === wire.to);
+    if (!node) break;
+    if (path.has(node.id)) {
+      lines.push(`${indent}- back to ${node.label}`);
+      break;
+    }
+    path.add(node.id);
+    visited.push(node.id);
+    const outputs = node.outputs.filter(isExec);
+    // Reroutes only shape the wire, so the outline passes through them.
+    if (node.type !== 'reroute') lines.push(`${indent}- ${node.label}`);
+    if (outputs.length > 1) {
+      for (const output of outputs) {
+        const branch = outline(graph, node.id, output.name, depth + 2, path);
+        if (branch.length) {
+          lines.push(`${indent}  - ${output.name}:`, ...branch);
+        }
+      }
+      break;
+    }
+    wire = outputs[0] && execWire(graph, node.id, outputs[0].name);
+  }
+  visited.forEach((id) => path.delete(id));
+  return lines;
+}
+
+/** Variables read and written by everything an event or entry node runs. */
+function variablesUsed(graph: BlueprintGraph, start: BlueprintNode) {
+  const reached = new Set<string>();
+  const visit = (id: string, followExec: boolean) => {
+    if (reached.has(id)) return;
+    reached.add(id);
+    for (const wire of graph.connections) {
+      if (wire.to === id && wire.type === 'data') visit(wire.from, false);
+      if (followExec && wire.from === id && wire.type === 'exec') {
+        visit(wire.to, true);
+      }
+    }
+  };
+  visit(start.id, true);
+  const reads = new Set<string>();
+  const writes = new Set<string>();
+  for (const node of graph.nodes.filter((n) => reached.has(n.id))) {
+    const ref = variableReference(node);
+    if (ref) (ref.access === 'get' ? reads : writes).add(ref.name);
+  }
+  return {reads: [...reads], writes: [...writes]};
+}
+
+function section(graph: BlueprintGraph, start: BlueprintNode, title: string) {
+  const {reads, writes} = variablesUsed(graph, start);
+  const names = (list: string[]) => list.map((n) => `\`${n}\``).join(', ');
+  const usage = [
+    ...(reads.length ? [`reads ${names(reads)}`] : []),
+    ...(writes.length ? [`writes ${names(writes)}`] : []),
+  ];
+  const steps = outline(graph, start.id, start.outputs.find(isExec)?.name);
+  return [
+    `### ${title}`,
+    '',
+    `Variables: ${usage.join('; ') || 'none'}.`,
+    '',
+    ...(steps.length ? steps : ['_Nothing is connected._']),
+    '',
+  ];
+}
+
+function signature(graph: BlueprintGraph) {
+  const pins = (list: BlueprintPin[] = []) =>
+    list.map((p) => `${p.name}: ${formatPinType(p)}`).join(', ');
+  const outputs = pins(graph.outputs);
+  const result = outputs ? ` → ${outputs}` : '';
+  return `${graph.name}(${pins(graph.inputs)})${result}`;
+}
+
+/**
+ * A Markdown design document for an asset: the model's description, a
+ * picture of the graph, the variables, and what each event and function
+ * does, step by step.
+ */
+export function designDocument(
+  asset: BlueprintAsset,
+  {description, image}: DesignDocOptions = {},
+): string {
+  const lines = [`# ${asset.name}`, ''];
+  if (asset.parentClass) lines.push(`Parent class: ${asset.parentClass}`, '');
+  if (description?.trim()) lines.push(description.trim(), '');
+  if (image) lines.push(`![${asset.name}](${image})`, '');
+
+  lines.push('## Variables', '');
+  if (asset.variables.length) {
+    lines.push(
+      '| Name | Type | Default | Category | Replication |',
+      '| --- | --- | --- | --- | --- |',
+      ...asset.variables.map((v) => {
+        const replication = REPLICATION_NAMES[v.replication ?? 'none'];
+        const type = formatPinType(v.type);
+        return `| ${cell(v.name)} | ${cell(type)} | ${cell(v.defaultValue)} | ${cell(v.category)} | ${replication} |`;
+      }),
+      '',
+    );
+  } else {
+    lines.push('_None._', '');
+  }
+
+  const events = asset.graphs
+    .filter((g) => g.kind === 'event')
+    .flatMap((graph) =>
+      graph.nodes
+        .filter((n) => n.type === 'event')
+        .map((event) => section(graph, event, event.label)),
+    );
+  if (events.length) lines.push('## Events', '', ...events.flat());
+
+  for (const [kind, title] of [
+    ['function', 'Functions'],
+    ['macro', 'Macros'],
+  ]) {
+    const graphs = asset.graphs.filter((g) => g.kind === kind);
+    if (!graphs.length) continue;
+    lines.push(`## ${title}`, '');
+    for (const graph of graphs) {
+      const entry = graph.nodes.find((n) => n.type === 'entry');
+      lines.push(
+        ...(entry
+          ? section(graph, entry, signature(graph))
+          : [`### ${signature(graph)}`, '', '_No entry node._', '']),
+      );
+    }
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,360 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import {migrateAsset} from './asset';
+import {conformAsset} from './catalog';
+import {
+  BLUEPRINT_CONFIG,
+  defaultCatalog,
+  promptParts,
+  PromptContext,
+} from './generator';
+import {nodeHeight, nodeWidth} from './geometry';
+import {layoutBlueprint} from './layout';
+import {BlueprintData, BlueprintNode} from './playground';
+import {
+  ChatConfig,
+  ChatSession,
+  LlmProvider,
+  ProviderSettings,
+  Recording,
+} from './providers';
+import {validateAsset} from './validator';
+
+/** Instructions and schema to evaluate, e.g. a proposed prompt change. */
+export interface PromptVariant {
+  name: string;
+  config: ChatConfig;
+  /** Answers the mock provider replays for this variant. */
+  recordings?: Recording[];
+}
+
+export const CURRENT_VARIANT: PromptVariant = {
+  name: 'current',
+  config: BLUEPRINT_CONFIG,
+};
+
+/**
+ * Reads a variant file: either plain text that replaces the system
+ * instructions, or JSON with a `name` and any of `systemInstruction`,
+ * `responseSchema` and `recordings`. What it leaves out stays as it is now.
+ */
+export function parseVariant(text: string, name: string): PromptVariant {
+  let json: any;
+  try {
+    json = JSON.parse(text);
+  } catch (e) {
+    return {name, config: {...BLUEPRINT_CONFIG, systemInstruction: text}};
+  }
+  if (!json || typeof json !== 'object' || Array.isArray(json)) {
+    throw new Error(`Variant "${name}" must be a JSON object.`);
+  }
+  return {
+    name: typeof json.name === 'string' ? json.name : name,
+    config: {
+      systemInstruction:
+        json.systemInstruction ?? BLUEPRINT_CONFIG.systemInstruction,
+      responseSchema: json.responseSchema ?? BLUEPRINT_CONFIG.responseSchema,
+    },
+    recordings: Array.isArray(json.recordings) ? json.recordings : undefined,
+  };
+}
+
+/**
+ * How one answer did. Counts are for the answer as the model wrote it,
+ * except `overlapsAfterLayout`.
+ */
+export interface EvalScore {
+  prompt: string;
+  /** The answer was JSON with a description and a blueprint. */
+  parsed: boolean;
+  /** The blueprint had no validation errors. */
+  valid: boolean;
+  errors: number;
+  /** Wires to nodes or pins that don't exist. */
+  danglingPorts: number;
+  /** Exec wires on data pins, and data wires on exec pins. */
+  wireMismatches: number;
+  /** Pairs of nodes drawn on top of each other. */
+  overlaps: number;
+  /** The same once the graphs are laid out, as the chat does by default. */
+  overlapsAfterLayout: number;
+  nodes: number;
+  /** Pins the node catalog had to rename, add, remove or retype. */
+  corrections: number;
+  latencyMs: number;
+  /** Why the answer couldn't be scored, when it couldn't. */
+  failure?: string;
+}
+
+export interface EvalRun {
+  variant: string;
+  scores: EvalScore[];
+}
+
+function boxesOverlap(a: BlueprintNode, b: BlueprintNode) {
+  return (
+    a.x < b.x + nodeWidth(b) &&
+    b.x < a.x + nodeWidth(a) &&
+    a.y < b.y + nodeHeight(b) &&
+    b.y < a.y + nodeHeight(a)
+  );
+}
+
+function overlappingPairs(nodes: BlueprintNode[]) {
+  let count = 0;
+  for (let i = 0; i < nodes.length; i++) {
+    for (let j = i + 1; j < nodes.length; j++) {
+      if (boxesOverlap(nodes[i], nodes[j])) count++;
+    }
+  }
+  return count;
+}
+
+/** Scores an answer without repairing it, so the prompt alone is judged. */
+export function scoreResponse(
+  prompt: string,
+  text: string,
+  latencyMs: number,
+  catalog = defaultCatalog(),
+): EvalScore {
+  const score: EvalScore = {
+    prompt,
+    parsed: false,
+    valid: false,
+    errors: 0,
+    danglingPorts: 0,
+    wireMismatches: 0,
+    overlaps: 0,
+    overlapsAfterLayout: 0,
+    nodes: 0,
+    corrections: 0,
+    latencyMs,
+  };
+  let json: any;
+  try {
+    json = JSON.parse(text);
+  } catch (e) {
+    return {...score, failure: `Not valid JSON: ${(e as Error).message}`};
+  }
+  if (
+    typeof json?.description !== 'string' ||
+    !Array.isArray(json.blueprint?.graphs)
+  ) {
+    return {...score, failure: 'No description or blueprint graphs.'};
+  }
+  const asset = migrateAsset(json.blueprint);
+  const issues = validateAsset(asset, catalog).filter(
+    (issue) => issue.severity === 'error',
+  );
+  const count = (...codes: string[]) =>
+    issues.filter((issue) => codes.includes(issue.code)).length;
+  const overlaps = (graphs: BlueprintData[]) =>
+    graphs.reduce((sum, graph) => sum + overlappingPairs(graph.nodes), 0);
+  const conformed = conformAsset(asset, catalog);
+  return {
+    ...score,
+    parsed: true,
+    valid: !issues.length,
+    errors: issues.length,
+    danglingPorts: count('missing-node', 'missing-port'),
+    wireMismatches: count('wire-type'),
+    overlaps: overlaps(asset.graphs),
+    overlapsAfterLayout: overlaps(
+      conformed.asset.graphs.map(layoutBlueprint),
+    ),
+    nodes: asset.graphs.reduce((sum, graph) => sum + graph.nodes.length, 0),
+    corrections: conformed.corrections.length,
+  };
+}
+
+/** Sends every prompt in a new conversation and scores the first answer. */
+export async function runEval(
+  variant: PromptVariant,
+  prompts: string[],
+  provider: LlmProvider,
+  settings: ProviderSettings,
+  context: PromptContext = {},
+  onScore?: (score: EvalScore) => void,
+): Promise<EvalRun> {
+  const catalog = defaultCatalog(context.api);
+  const scores: EvalScore[] = [];
+  for (const prompt of prompts) {
+    const chat = new ChatSession(provider, settings, variant.config);
+    const start = Date.now();
+    let text = '';
+    let score: EvalScore;
+    try {
+      for await (const chunk of chat.sendMessageStream(
+        promptParts(prompt, context),
+      )) {
+        text += chunk;
+      }
+      score = scoreResponse(prompt, text, Date.now() - start, catalog);
+    } catch (e) {
+      score = {
+        ...scoreResponse(prompt, '', Date.now() - start, catalog),
+        failure: e instanceof Error ? e.message : String(e),
+      };
+    }
+    scores.push(score);
+    onScore?.(score);
+  }
+  return {variant: variant.name, scores};
+}
+
+interface Metric {
+  label: string;
+  value: (scores: EvalScore[]) => number;
+  format: (value: number) => string;
+  /** Whether a larger value is an improvement; unset when it's neither. */
+  higherIsBetter?: boolean;
+}
+
+const mean = (values: number[]) =>
+  values.length ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  if (!sorted.length) return 0;
+  return sorted.length % 2
+    ? sorted[middle]
+    : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+const decimal = (value: number) => value.toFixed(1);
+
+const METRICS: Metric[] = [
+  {
+    label: 'Parsed',
+    value: (s) => mean(s.map((score) => Number(score.parsed))),
+    format: percent,
+    higherIsBetter: true,
+  },
+  {
+    label: 'Valid',
+    value: (s) => mean(s.map((score) => Number(score.valid))),
+    format: percent,
+    higherIsBetter: true,
+  },
+  {
+    label: 'Errors per answer',
+    value: (s) => mean(s.map((score) => score.errors)),
+    format: decimal,
+    higherIsBetter: false,
+  },
+  {
+    label: 'Dangling ports per answer',
+    value: (s) => mean(s.map((score) => score.danglingPorts)),
+    format: decimal,
+    higherIsBetter: false,
+  },
+  {
+    label: 'Exec/data mismatches per answer',
+    value: (s) => mean(s.map((score) => score.wireMismatches)),
+    format: decimal,
+    higherIsBetter: false,
+  },
+  {
+    label: 'Overlapping nodes per answer',
+    value: (s) => mean(s.map((score) => score.overlaps)),
+    format: decimal,
+    higherIsBetter: false,
+  },
+  {
+    label: 'Overlapping nodes after layout',
+    value: (s) => mean(s.map((score) => score.overlapsAfterLayout)),
+    format: decimal,
+    higherIsBetter: false,
+  },
+  {
+    label: 'Catalog corrections per answer',
+    value: (s) => mean(s.map((score) => score.corrections)),
+    format: decimal,
+    higherIsBetter: false,
+  },
+  {
+    label: 'Nodes per answer',
+    value: (s) => mean(s.map((score) => score.nodes)),
+    format: decimal,
+  },
+  {
+    label: 'Median latency',
+    value: (s) => median(s.map((score) => score.latencyMs)),
+    format: (ms) => `${(ms / 1000).toFixed(1)} s`,
+    higherIsBetter: false,
+  },
+];
+
+function verdict(metric: Metric, before: number, after: number) {
+  // Differences too small to show aren't worth a verdict either.
+  if (
+    metric.higherIsBetter === undefined ||
+    metric.format(before) === metric.format(after)
+  ) {
+    return '';
+  }
+  return after > before === metric.higherIsBetter ? 'better' : 'worse';
+}
+
+function escapeCell(text: string) {
+  return text.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+}
+
+function scoreCell(score: EvalScore | undefined) {
+  if (!score) return '–';
+  if (!score.parsed) return `failed: ${escapeCell(score.failure ?? '')}`;
+  const problems = [
+    score.danglingPorts && `${score.danglingPorts} dangling`,
+    score.wireMismatches && `${score.wireMismatches} mismatched`,
+    score.overlaps && `${score.overlaps} overlapping`,
+    score.overlapsAfterLayout &&
+      `${score.overlapsAfterLayout} overlapping after layout`,
+  ].filter(Boolean);
+  const errors = `${score.errors} error${score.errors === 1 ? '' : 's'}`;
+  return `${score.valid ? 'valid' : errors}, ${
+    score.nodes
+  } nodes${problems.length ? ` (${problems.join(', ')})` : ''}`;
+}
+
+/**
+ * A Markdown report comparing a candidate variant with the baseline, first
+ * as totals and then prompt by prompt.
+ */
+export function compareRuns(baseline: EvalRun, candidate: EvalRun): string {
+  const lines = [
+    `# Prompt evaluation: ${baseline.variant} vs ${candidate.variant}`,
+    '',
+    `${candidate.scores.length} prompts.`,
+    '',
+    `| Metric | ${baseline.variant} | ${candidate.variant} | |`,
+    '| --- | --- | --- | --- |',
+  ];
+  for (const metric of METRICS) {
+    const before = metric.value(baseline.scores);
+    const after = metric.value(candidate.scores);
+    lines.push(
+      `| ${metric.label} | ${metric.format(before)} | ${metric.format(
+        after,
+      )} | ${verdict(metric, before, after)} |`,
+    );
+  }
+  lines.push(
+    '',
+    '## By prompt',
+    '',
+    `| Prompt | ${baseline.variant} | ${candidate.variant} |`,
+    '| --- | --- | --- |',
+  );
+  candidate.scores.forEach((score, i) => {
+    lines.push(
+      `| ${escapeCell(score.prompt)} | ${scoreCell(
+        baseline.scores[i],
+      )} | ${scoreCell(score)} |`,
+    );
+  });
+  return lines.join('\n') + '\n';
+}
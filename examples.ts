@@ -0,0 +1,439 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import {BlueprintAsset} from './playground';
+
+/** The example loaded on first start, and what the mock answers with. */
+export const STARTUP_BLUEPRINT: {description: string; blueprint: BlueprintAsset} = {
+  description:
+    'This blueprint outlines a "Mage Dice" system. It initializes a 6-sided die where each face determines the number of fireballs to cast. It includes custom events to roll the dice and cast spells and to upgrade player health, and a function that applies a random upgrade to a dice face.',
+  blueprint: {
+    name: 'BP_MageDice',
+    parentClass: 'Actor',
+    variables: [
+      {
+        name: 'MageDiceFaces',
+        type: {category: 'int', container: 'array'},
+        category: 'Dice',
+      },
+      {
+        name: 'MaxHP',
+        type: {category: 'real'},
+        defaultValue: '100',
+        category: 'Health',
+      },
+    ],
+    graphs: [
+      {
+        name: 'EventGraph',
+        kind: 'event',
+        nodes: [
+          {
+            id: 'node_begin_play',
+            label: 'Event BeginPlay',
+            type: 'event',
+            x: 50,
+            y: 100,
+            inputs: [],
+            outputs: [
+              {name: 'Exec', direction: 'output', category: 'exec'},
+            ],
+          },
+          {
+            id: 'node_set_dice_array',
+            label: 'Set MageDiceFaces',
+            type: 'variable',
+            x: 300,
+            y: 100,
+            inputs: [
+              {name: 'Exec', direction: 'input', category: 'exec'},
+              {
+                name: 'MageDiceFaces',
+                direction: 'input',
+                category: 'int',
+                container: 'array',
+              },
+            ],
+            outputs: [
+              {name: 'Exec', direction: 'output', category: 'exec'},
+            ],
+          },
+          {
+            id: 'node_dice_array_default',
+            label: 'Make Array',
+            type: 'function',
+            x: 50,
+            y: 175,
+            inputs: [
+              {
+                name: '[0]',
+                direction: 'input',
+                category: 'int',
+                defaultValue: '1',
+              },
+              {
+                name: '[1]',
+                direction: 'input',
+                category: 'int',
+                defaultValue: '2',
+              },
+              {
+                name: '[2]',
+                direction: 'input',
+                category: 'int',
+                defaultValue: '3',
+              },
+              {
+                name: '[3]',
+                direction: 'input',
+                category: 'int',
+                defaultValue: '4',
+              },
+              {
+                name: '[4]',
+                direction: 'input',
+                category: 'int',
+                defaultValue: '5',
+              },
+              {
+                name: '[5]',
+                direction: 'input',
+                category: 'int',
+                defaultValue: '6',
+              },
+            ],
+            outputs: [
+              {
+                name: 'Array',
+                direction: 'output',
+                category: 'int',
+                container: 'array',
+              },
+            ],
+          },
+          {
+            id: 'node_roll_event',
+            label: 'Custom Event: RollAndCast',
+            type: 'event',
+            x: 50,
+            y: 350,
+            inputs: [],
+            outputs: [
+              {name: 'Exec', direction: 'output', category: 'exec'},
+            ],
+          },
+          {
+            id: 'node_get_dice_array',
+            label: 'Get MageDiceFaces',
+            type: 'variable',
+            x: 300,
+            y: 425,
+            inputs: [],
+            outputs: [
+              {
+                name: 'MageDiceFaces',
+                direction: 'output',
+                category: 'int',
+                container: 'array',
+              },
+            ],
+          },
+          {
+            id: 'node_random_int',
+            label: 'Random Integer in Range',
+            type: 'function',
+            x: 300,
+            y: 500,
+            inputs: [
+              {
+                name: 'Min',
+                direction: 'input',
+                category: 'int',
+                defaultValue: '0',
+              },
+              {
+                name: 'Max',
+                direction: 'input',
+                category: 'int',
+                defaultValue: '5',
+              },
+            ],
+            outputs: [
+              {name: 'Return Value', direction: 'output', category: 'int'},
+            ],
+          },
+          {
+            id: 'node_get_from_array',
+            label: 'Get (a copy)',
+            type: 'function',
+            x: 500,
+            y: 425,
+            inputs: [
+              {
+                name: 'Array',
+                direction: 'input',
+                category: 'int',
+                container: 'array',
+              },
+              {name: 'Index', direction: 'input', category: 'int'},
+            ],
+            outputs: [
+              {name: 'Value', direction: 'output', category: 'int'},
+            ],
+          },
+          {
+            id: 'node_for_loop',
+            label: 'For Loop',
+            type: 'flow_control',
+            x: 750,
+            y: 350,
+            inputs: [
+              {name: 'Exec', direction: 'input', category: 'exec'},
+              {
+                name: 'First Index',
+                direction: 'input',
+                category: 'int',
+                defaultValue: '1',
+              },
+              {name: 'Last Index', direction: 'input', category: 'int'},
+            ],
+            outputs: [
+              {name: 'Loop Body', direction: 'output', category: 'exec'},
+              {name: 'Index', direction: 'output', category: 'int'},
+              {name: 'Completed', direction: 'output', category: 'exec'},
+            ],
+          },
+          {
+            id: 'node_print_cast',
+            label: 'Print String',
+            type: 'function',
+            x: 1000,
+            y: 350,
+            inputs: [
+              {name: 'Exec', direction: 'input', category: 'exec'},
+              {
+                name: 'In String',
+                direction: 'input',
+                category: 'string',
+                defaultValue: 'Fireball!',
+              },
+            ],
+            outputs: [
+              {name: 'Exec', direction: 'output', category: 'exec'},
+            ],
+          },
+          {
+            id: 'node_hp_upgrade_event',
+            label: 'Custom Event: UpgradeHealth',
+            type: 'event',
+            x: 50,
+            y: 650,
+            inputs: [],
+            outputs: [
+              {name: 'Exec', direction: 'output', category: 'exec'},
+            ],
+          },
+          {
+            id: 'node_get_max_hp',
+            label: 'Get MaxHP',
+            type: 'variable',
+            x: 300,
+            y: 725,
+            inputs: [],
+            outputs: [
+              {name: 'Value', direction: 'output', category: 'real'},
+            ],
+          },
+          {
+            id: 'node_multiply_hp',
+            label: '* (Float)',
+            type: 'function',
+            x: 500,
+            y: 650,
+            inputs: [
+              {name: 'A', direction: 'input', category: 'real'},
+              {
+                name: 'B',
+                direction: 'input',
+                category: 'real',
+                defaultValue: '1.1',
+              },
+            ],
+            outputs: [
+              {name: 'Return Value', direction: 'output', category: 'real'},
+            ],
+          },
+          {
+            id: 'node_set_max_hp',
+            label: 'Set MaxHP',
+            type: 'variable',
+            x: 750,
+            y: 650,
+            inputs: [
+              {name: 'Exec', direction: 'input', category: 'exec'},
+              {name: 'Value', direction: 'input', category: 'real'},
+            ],
+            outputs: [
+              {name: 'Exec', direction: 'output', category: 'exec'},
+            ],
+          },
+        ],
+        connections: [
+          {from: 'node_begin_play', to: 'node_set_dice_array', fromPort: 'Exec', toPort: 'Exec', type: 'exec'},
+          {from: 'node_dice_array_default', to: 'node_set_dice_array', fromPort: 'Array', toPort: 'MageDiceFaces', type: 'data'},
+          {from: 'node_roll_event', to: 'node_for_loop', fromPort: 'Exec', toPort: 'Exec', type: 'exec'},
+          {from: 'node_get_dice_array', to: 'node_get_from_array', fromPort: 'MageDiceFaces', toPort: 'Array', type: 'data'},
+          {from: 'node_random_int', to: 'node_get_from_array', fromPort: 'Return Value', toPort: 'Index', type: 'data'},
+          {from: 'node_get_from_array', to: 'node_for_loop', fromPort: 'Value', toPort: 'Last Index', type: 'data'},
+          {from: 'node_for_loop', to: 'node_print_cast', fromPort: 'Loop Body', toPort: 'Exec', type: 'exec'},
+          {from: 'node_hp_upgrade_event', to: 'node_set_max_hp', fromPort: 'Exec', toPort: 'Exec', type: 'exec'},
+          {from: 'node_get_max_hp', to: 'node_multiply_hp', fromPort: 'Value', toPort: 'A', type: 'data'},
+          {from: 'node_multiply_hp', to: 'node_set_max_hp', fromPort: 'Return Value', toPort: 'Value', type: 'data'},
+        ],
+      },
+      {
+        name: 'ApplyRandomUpgrade',
+        kind: 'function',
+        inputs: [],
+        outputs: [],
+        nodes: [
+          {
+            id: 'node_upgrade_entry',
+            label: 'ApplyRandomUpgrade',
+            type: 'entry',
+            x: 50,
+            y: 50,
+            inputs: [],
+            outputs: [
+              {name: 'Exec', direction: 'output', category: 'exec'},
+            ],
+          },
+          {
+            id: 'node_get_dice_array_2',
+            label: 'Get MageDiceFaces',
+            type: 'variable',
+            x: 300,
+            y: 125,
+            inputs: [],
+            outputs: [
+              {
+                name: 'MageDiceFaces',
+                direction: 'output',
+                category: 'int',
+                container: 'array',
+              },
+            ],
+          },
+          {
+            id: 'node_random_int_2',
+            label: 'Random Integer in Range',
+            type: 'function',
+            x: 300,
+            y: 200,
+            inputs: [
+              {
+                name: 'Min',
+                direction: 'input',
+                category: 'int',
+                defaultValue: '0',
+              },
+              {
+                name: 'Max',
+                direction: 'input',
+                category: 'int',
+                defaultValue: '5',
+              },
+            ],
+            outputs: [
+              {name: 'Return Value', direction: 'output', category: 'int'},
+            ],
+          },
+          {
+            id: 'node_add_one',
+            label: '+ (Integer)',
+            type: 'function',
+            x: 750,
+            y: 125,
+            inputs: [
+              {name: 'A', direction: 'input', category: 'int'},
+              {
+                name: 'B',
+                direction: 'input',
+                category: 'int',
+                defaultValue: '1',
+              },
+            ],
+            outputs: [
+              {name: 'Return Value', direction: 'output', category: 'int'},
+            ],
+          },
+          {
+            id: 'node_set_array_elem',
+            label: 'Set Array Elem',
+            type: 'function',
+            x: 1000,
+            y: 50,
+            inputs: [
+              {name: 'Exec', direction: 'input', category: 'exec'},
+              {
+                name: 'Target Array',
+                direction: 'input',
+                category: 'int',
+                container: 'array',
+              },
+              {name: 'Index', direction: 'input', category: 'int'},
+              {name: 'Item', direction: 'input', category: 'int'},
+              {
+                name: 'Size to Fit',
+                direction: 'input',
+                category: 'bool',
+                defaultValue: 'false',
+              },
+            ],
+            outputs: [
+              {name: 'Exec', direction: 'output', category: 'exec'},
+            ],
+          },
+          {
+            id: 'node_get_from_array_2',
+            label: 'Get (a copy)',
+            type: 'function',
+            x: 500,
+            y: 125,
+            inputs: [
+              {
+                name: 'Array',
+                direction: 'input',
+                category: 'int',
+                container: 'array',
+              },
+              {name: 'Index', direction: 'input', category: 'int'},
+            ],
+            outputs: [
+              {name: 'Value', direction: 'output', category: 'int'},
+            ],
+          },
+        ],
+        connections: [
+          {from: 'node_upgrade_entry', to: 'node_set_array_elem', fromPort: 'Exec', toPort: 'Exec', type: 'exec'},
+          {from: 'node_get_dice_array_2', to: 'node_set_array_elem', fromPort: 'MageDiceFaces', toPort: 'Target Array', type: 'data'},
+          {from: 'node_get_dice_array_2', to: 'node_get_from_array_2', fromPort: 'MageDiceFaces', toPort: 'Array', type: 'data'},
+          {from: 'node_random_int_2', to: 'node_set_array_elem', fromPort: 'Return Value', toPort: 'Index', type: 'data'},
+          {from: 'node_random_int_2', to: 'node_get_from_array_2', fromPort: 'Return Value', toPort: 'Index', type: 'data'},
+          {from: 'node_get_from_array_2', to: 'node_add_one', fromPort: 'Value', toPort: 'A', type: 'data'},
+          {from: 'node_add_one', to: 'node_set_array_elem', fromPort: 'Return Value', toPort: 'Item', type: 'data'},
+        ],
+      },
+    ],
+  },
+};
+
+/** Requests about the example, suggested in the chat and used in evaluations. */
+export const EXAMPLE_PROMPTS = [
+  'Show how to roll the dice and cast the spells',
+  'Create a function that applies a "Rare" upgrade to the dice',
+  'How would I add a mana cost to the RollAndCast event?',
+  'Add logic to check if a dice roll is a critical success',
+  'Make a new function to decrease player health and check if they have died.',
+];
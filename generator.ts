@@ -0,0 +1,642 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import {Type} from '@google/genai';
+import {
+  createAsset,
+  describeVariables,
+  EVENT_GRAPH,
+  findGraph,
+  GRAPH_KINDS,
+  migrateAsset,
+  REPLICATION_MODES,
+} from './asset';
+import {
+  BUILTIN_CATALOG,
+  conformAsset,
+  conformGraph,
+  NodeCatalog,
+} from './catalog';
+import {apiEntries, describeApi, ProjectApi} from './headers';
+import {layoutBlueprint} from './layout';
+import {applyPatch, PATCH_OPERATIONS, PatchOperation} from './patch';
+import {PIN_CATEGORIES, PIN_CONTAINERS} from './pins';
+import {BlueprintAsset, BlueprintData} from './playground';
+import {
+  ChatConfig,
+  ChatSession,
+  ChatTurn,
+  createProvider,
+  DEFAULT_SETTINGS,
+  LlmProvider,
+  ProviderSettings,
+} from './providers';
+import {
+  parsePartialJson,
+  PartialJson,
+  streamedAsset,
+  streamedOperations,
+} from './streaming';
+import {validateAsset, ValidationIssue} from './validator';
+
+const SYSTEM_INSTRUCTIONS = `You are an expert Unreal Engine developer specializing in Blueprints. Your task is to generate a flowchart representation of a Blueprint asset based on the user's description.
+You must output a JSON object that follows a specific schema.
+The JSON object should contain two main properties: "description" and "blueprint".
+
+- **description**: A brief, human-readable explanation of the blueprint's logic.
+- **blueprint**: The whole Blueprint class.
+  - \`name\`: The asset name (e.g., "BP_MageDice").
+  - \`parentClass\`: The class it derives from (e.g., "Actor", "Character").
+  - **variables**: The member variables. Each has a \`name\`, a \`type\` (an object with \`category\`, \`subtype\` and \`container\` as described for pins), an optional \`defaultValue\` written like a pin default, an optional \`category\` that groups it in the editor (e.g., "Combat"), an optional \`replication\` ("none", "replicated" or "rep_notify") and an optional \`tooltip\`. Declare every variable that a Get or Set node uses, with the same name and type.
+  - **graphs**: The graphs of the class. The first one is always the "EventGraph" with kind "event", which holds the events. Each graph has:
+    - \`name\`: The graph name. Function and macro names are used to call them.
+    - \`kind\`: "event", "function" or "macro".
+    - \`inputs\` and \`outputs\`: For function and macro graphs only, the parameters as pins, using direction "input" for inputs and "output" for outputs.
+    - \`nodes\` and \`connections\`: The graph itself, described below.
+    - \`comments\` and \`groups\`: Optional annotations, described below.
+  Put reusable logic in function graphs and call it with a "function" node labeled with the function name whose pins match the parameters. Every function graph has one node of type "entry" labeled with the function name, whose outputs are an "Exec" exec pin followed by the inputs; a function with outputs also has a node of type "return" labeled "Return Node", whose inputs are an "Exec" exec pin followed by the outputs. Macro graphs have an "entry" node labeled "Inputs" and a "return" node labeled "Outputs"; macros declare their exec pins as parameters themselves and are called with a "macro" node. Read and write member variables with "variable" nodes labeled "Get <Name>" and "Set <Name>".
+  When changing a blueprint, return all of it, including graphs and variables you didn't change.
+- **graph**: Each graph contains "nodes" and "connections".
+  - **nodes**: An array of objects, where each object represents a Blueprint node.
+    - \`id\`: A unique string identifier for the node (e.g., "node_1", "node_2").
+    - \`label\`: The display text of the node (e.g., "Event BeginPlay", "Print String").
+    - \`type\`: The category of the node. Use one of: "event", "function", "variable", "flow_control", "macro", "entry" or "return" for the entry and return nodes of functions and macros, and "reroute" for reroute nodes.
+    - \`x\`: The horizontal position of the node in the graph.
+    - \`y\`: The vertical position of the node in the graph.
+    - \`inputs\`: An array of input pins, top to bottom.
+    - \`outputs\`: An array of output pins, top to bottom.
+  - **pins**: Each pin is an object describing a typed Unreal pin.
+    - \`name\`: The pin name as Unreal shows it (e.g., "Exec", "In String", "Return Value"). Pin names must be unique within a node's inputs and within its outputs.
+    - \`direction\`: "input" for pins in \`inputs\`, "output" for pins in \`outputs\`.
+    - \`category\`: The Unreal pin category. Use one of: "exec", "bool", "byte", "int", "int64", "real" (floats and doubles), "name", "string", "text", "vector", "rotator", "transform", "object", "struct", "enum", "wildcard".
+    - \`subtype\`: Optional. The class, struct or enum name for "object", "struct" and "enum" pins (e.g., "Actor", "HitResult").
+    - \`container\`: Optional. "array", "set" or "map" for container pins. Omit it for single values.
+    - \`defaultValue\`: Optional, input pins only. The literal Unreal uses while the pin is unconnected, written as a string the way Unreal stores it: "true"/"false" for bool, digits for int and byte (e.g. "3"), a number for real (e.g. "1.5"), "X,Y,Z" for vector, "Pitch,Yaw,Roll" for rotator, an enumerator name for enum, and plain text for name, string and text. Set it for constants such as Print String's text or the operands of math nodes instead of leaving the input unconnected. Exec and container pins have no default value.
+  - **connections**: An array of objects representing a connection between two nodes.
+    - \`from\`: The \`id\` of the source node.
+    - \`to\`: The \`id\` of the target node.
+    - \`fromPort\`: The name of the output port on the source node.
+    - \`toPort\`: The name of the input port on the target node.
+    - \`type\`: The type of connection, either "exec" for execution flow (white wire) or "data" for data flow (colored wire).
+  - **reroute nodes**: A wire can pass through a node of type "reroute" labeled "Reroute", with one input pin "In" and one output pin "Out" of the type of the wire. Use them to lead long wires around other nodes.
+  - **comments**: Comment boxes drawn behind the nodes, like Unreal's comment nodes. Each has an \`id\` (e.g., "comment_1"), a \`title\` saying what the logic inside does, a position \`x\`, \`y\` and a size \`width\`, \`height\` that enclose its nodes with a margin of about 20 units and 50 units above them for the title, and an optional \`color\` written as a hex string (e.g., "#3b6ea5"). Add a comment box around the logic of each event, and keep the boxes from overlapping.
+  - **groups**: Nodes that can be collapsed into a single box. Each has an \`id\`, a \`title\`, the \`nodeIds\` it holds and an optional \`collapsed\` flag. Only add groups when asked to.
+
+Arrange the nodes logically in a left-to-right flow. Start event nodes at x=50. Increment x for subsequent connected nodes by about 300-400 units. Use the \`y\` coordinate to avoid overlaps. Ensure all connection ports you define exist in the corresponding node's \`inputs\` or \`outputs\` array, and only connect pins whose types match: exec to exec, and data pins of the same category and container (Unreal's automatic conversions such as int to real or int to string are allowed). Do not add any text outside of the JSON object.`;
+
+const PIN_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    name: {type: Type.STRING},
+    direction: {type: Type.STRING, enum: ['input', 'output']},
+    category: {type: Type.STRING, enum: PIN_CATEGORIES},
+    subtype: {type: Type.STRING},
+    container: {type: Type.STRING, enum: PIN_CONTAINERS},
+    defaultValue: {type: Type.STRING},
+  },
+  required: ['name', 'direction', 'category'],
+};
+
+const NODE_TYPE_SCHEMA = {
+  type: Type.STRING,
+  enum: [
+    'event',
+    'function',
+    'variable',
+    'flow_control',
+    'macro',
+    'entry',
+    'return',
+    'reroute',
+  ],
+};
+
+const NODE_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    id: {type: Type.STRING},
+    label: {type: Type.STRING},
+    type: NODE_TYPE_SCHEMA,
+    x: {type: Type.NUMBER},
+    y: {type: Type.NUMBER},
+    inputs: {type: Type.ARRAY, items: PIN_SCHEMA},
+    outputs: {type: Type.ARRAY, items: PIN_SCHEMA},
+  },
+  required: ['id', 'label', 'type', 'x', 'y', 'inputs', 'outputs'],
+};
+
+const CONNECTION_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    from: {type: Type.STRING},
+    to: {type: Type.STRING},
+    fromPort: {type: Type.STRING},
+    toPort: {type: Type.STRING},
+    type: {type: Type.STRING, enum: ['exec', 'data']},
+  },
+  required: ['from', 'to', 'fromPort', 'toPort', 'type'],
+};
+
+const COMMENT_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    id: {type: Type.STRING},
+    title: {type: Type.STRING},
+    x: {type: Type.NUMBER},
+    y: {type: Type.NUMBER},
+    width: {type: Type.NUMBER},
+    height: {type: Type.NUMBER},
+    color: {type: Type.STRING},
+  },
+  required: ['id', 'title', 'x', 'y', 'width', 'height'],
+};
+
+const GROUP_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    id: {type: Type.STRING},
+    title: {type: Type.STRING},
+    nodeIds: {type: Type.ARRAY, items: {type: Type.STRING}},
+    collapsed: {type: Type.BOOLEAN},
+  },
+  required: ['id', 'title', 'nodeIds'],
+};
+
+const GRAPH_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    name: {type: Type.STRING},
+    kind: {type: Type.STRING, enum: GRAPH_KINDS},
+    inputs: {type: Type.ARRAY, items: PIN_SCHEMA},
+    outputs: {type: Type.ARRAY, items: PIN_SCHEMA},
+    nodes: {type: Type.ARRAY, items: NODE_SCHEMA},
+    connections: {type: Type.ARRAY, items: CONNECTION_SCHEMA},
+    comments: {type: Type.ARRAY, items: COMMENT_SCHEMA},
+    groups: {type: Type.ARRAY, items: GROUP_SCHEMA},
+  },
+  required: ['name', 'kind', 'nodes', 'connections'],
+};
+
+const VARIABLE_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    name: {type: Type.STRING},
+    type: {
+      type: Type.OBJECT,
+      properties: {
+        category: {type: Type.STRING, enum: PIN_CATEGORIES},
+        subtype: {type: Type.STRING},
+        container: {type: Type.STRING, enum: PIN_CONTAINERS},
+      },
+      required: ['category'],
+    },
+    defaultValue: {type: Type.STRING},
+    category: {type: Type.STRING},
+    replication: {type: Type.STRING, enum: REPLICATION_MODES},
+    tooltip: {type: Type.STRING},
+  },
+  required: ['name', 'type'],
+};
+
+const BLUEPRINT_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    description: {
+      type: Type.STRING,
+      description: "A brief, human-readable explanation of the blueprint's logic.",
+    },
+    blueprint: {
+      type: Type.OBJECT,
+      properties: {
+        name: {type: Type.STRING},
+        parentClass: {type: Type.STRING},
+        variables: {type: Type.ARRAY, items: VARIABLE_SCHEMA},
+        graphs: {type: Type.ARRAY, items: GRAPH_SCHEMA},
+      },
+      required: ['name', 'variables', 'graphs'],
+    },
+  },
+  required: ['description', 'blueprint'],
+};
+
+const PATCH_INSTRUCTIONS = `
+
+Answer this message with edits instead of the whole blueprint. Output a JSON object with "description", "graph" and "operations":
+- **description**: A brief, human-readable explanation of the change.
+- **graph**: The name of the one graph you edit.
+- **operations**: The edits, applied in order. Each has an \`op\` and the fields that operation uses:
+  - "addNode": \`node\`, a complete node as described above, with an id that isn't used yet.
+  - "removeNode": \`nodeId\`. Its wires are removed with it.
+  - "updateNode": \`nodeId\` and the \`label\`, \`type\`, \`x\` or \`y\` to change.
+  - "connect" and "disconnect": \`connection\`, a connection as described above.
+  - "movePins": \`nodeId\` and the node's new \`inputs\` and/or \`outputs\`, to add, remove, reorder or retype pins. Disconnect a pin before removing it.
+Use the ids of the current blueprint and only touch what the request needs; leave the position of existing nodes alone unless asked. If one operation fails, none are applied.`;
+
+const PATCH_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    description: {
+      type: Type.STRING,
+      description: 'A brief, human-readable explanation of the change.',
+    },
+    graph: {type: Type.STRING},
+    operations: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          op: {type: Type.STRING, enum: PATCH_OPERATIONS},
+          nodeId: {type: Type.STRING},
+          node: NODE_SCHEMA,
+          label: {type: Type.STRING},
+          type: NODE_TYPE_SCHEMA,
+          x: {type: Type.NUMBER},
+          y: {type: Type.NUMBER},
+          connection: CONNECTION_SCHEMA,
+          inputs: {type: Type.ARRAY, items: PIN_SCHEMA},
+          outputs: {type: Type.ARRAY, items: PIN_SCHEMA},
+        },
+        required: ['op'],
+      },
+    },
+  },
+  required: ['description', 'graph', 'operations'],
+};
+
+/** Instructions and answer format of answers with the whole blueprint. */
+export const BLUEPRINT_CONFIG: ChatConfig = {
+  systemInstruction: SYSTEM_INSTRUCTIONS,
+  responseSchema: BLUEPRINT_SCHEMA,
+};
+
+/** Per-message config for edit replies; it replaces the chat's config. */
+export const PATCH_CONFIG: ChatConfig = {
+  systemInstruction: SYSTEM_INSTRUCTIONS + PATCH_INSTRUCTIONS,
+  responseSchema: PATCH_SCHEMA,
+};
+
+/** How many times an invalid response is sent back for correction. */
+export const MAX_REPAIR_ATTEMPTS = 2;
+
+interface BlueprintResponse {
+  description: string;
+  blueprint: BlueprintAsset;
+}
+
+interface PatchResponse {
+  description: string;
+  /** The asset with the edits applied. */
+  asset: BlueprintAsset;
+  graph: string;
+}
+
+function formatIssues(issues: ValidationIssue[]) {
+  return issues
+    .filter((issue) => issue.severity === 'error')
+    .map((issue) =>
+      issue.graph ? `In graph "${issue.graph}": ${issue.message}` : issue.message,
+    );
+}
+
+/**
+ * Parses a model response and lists the problems that keep it from being
+ * shown. Validator warnings are accepted, only errors are reported. Nodes
+ * are first corrected against the node catalog, which is also reported.
+ */
+function checkBlueprintResponse(
+  responseText: string,
+  catalog: NodeCatalog,
+): {
+  response: BlueprintResponse | null;
+  errors: string[];
+  corrections?: string[];
+} {
+  let json: any;
+  try {
+    json = JSON.parse(responseText);
+  } catch (e) {
+    return {
+      response: null,
+      errors: [`The response is not valid JSON: ${(e as Error).message}`],
+    };
+  }
+  if (
+    typeof json?.description !== 'string' ||
+    !Array.isArray(json.blueprint?.graphs)
+  ) {
+    return {
+      response: null,
+      errors: [
+        'The response must be an object with "description" and "blueprint", and the blueprint must have a "graphs" array.',
+      ],
+    };
+  }
+  const {asset, corrections, issues} = conformAsset(
+    migrateAsset(json.blueprint),
+    catalog,
+  );
+  json.blueprint = asset;
+  return {
+    response: json,
+    errors: formatIssues([...issues, ...validateAsset(asset, catalog)]),
+    corrections,
+  };
+}
+
+/**
+ * Parses an edit response and applies it to a copy of `asset`. Only errors
+ * the edits introduce are reported, not ones the blueprint already had.
+ */
+function checkPatchResponse(
+  responseText: string,
+  asset: BlueprintAsset,
+  catalog: NodeCatalog,
+): {
+  response: PatchResponse | null;
+  errors: string[];
+  corrections?: string[];
+} {
+  let json: any;
+  try {
+    json = JSON.parse(responseText);
+  } catch (e) {
+    return {
+      response: null,
+      errors: [`The response is not valid JSON: ${(e as Error).message}`],
+    };
+  }
+  if (
+    typeof json?.description !== 'string' ||
+    !Array.isArray(json.operations)
+  ) {
+    return {
+      response: null,
+      errors: [
+        'The response must be an object with "description", "graph" and an "operations" array.',
+      ],
+    };
+  }
+  const graph = findGraph(asset, json.graph ?? EVENT_GRAPH);
+  if (!graph) {
+    return {
+      response: null,
+      errors: [`There is no graph named "${json.graph}".`],
+    };
+  }
+  const patch = applyPatch(graph, json.operations as PatchOperation[]);
+  if (!patch.graph) return {response: null, errors: patch.errors};
+
+  const conformed = conformGraph(asset, patch.graph, catalog);
+  const patched = {
+    ...asset,
+    graphs: asset.graphs.map((g) => (g === graph ? conformed.graph : g)),
+  };
+  const existing = new Set(formatIssues(validateAsset(asset, catalog)));
+  const errors = formatIssues([
+    ...conformed.issues.map((issue) => ({...issue, graph: graph.name})),
+    ...validateAsset(patched, catalog),
+  ]).filter((error) => !existing.has(error));
+  return {
+    response: {description: json.description, asset: patched, graph: graph.name},
+    errors,
+    corrections: conformed.corrections,
+  };
+}
+
+/** The blueprint with the edits received so far, if they apply. */
+function streamedPatch(
+  partial: PartialJson,
+  asset: BlueprintAsset,
+): BlueprintAsset | null {
+  const {graph: name, operations} = streamedOperations(partial);
+  const graph = findGraph(asset, name ?? EVENT_GRAPH);
+  if (!graph || !operations.length) return null;
+  const patch = applyPatch(graph, operations as PatchOperation[]);
+  if (!patch.graph) return null;
+  return {
+    ...asset,
+    graphs: asset.graphs.map((g) => (g === graph ? patch.graph : g)),
+  };
+}
+
+function repairPrompt(errors: string[], patch: boolean) {
+  return `Your previous response could not be used because of these problems:
+${errors.map((e) => `- ${e}`).join('\n')}
+${
+  patch
+    ? 'None of the operations were applied. Return the corrected JSON object with the complete list of operations.'
+    : 'Return the complete corrected JSON object, including every graph.'
+} Every connection must reference existing node ids in the same graph and ports that exist in the node's "inputs" or "outputs", and connect pins of compatible types.`;
+}
+
+/** What the model is told about the blueprint along with a prompt. */
+export interface PromptContext {
+  /** The blueprint the answer starts from. */
+  current?: BlueprintAsset | null;
+  /**
+   * Whether `current` changed since the model last saw it. Defaults to
+   * true, as a new conversation hasn't seen it at all.
+   */
+  changed?: boolean;
+  /** What happened since the last prompt, such as an undo. */
+  notes?: string[];
+  /** The C++ API of the project. */
+  api?: ProjectApi;
+}
+
+/** The parts of the user message that asks for `prompt`. */
+export function promptParts(
+  prompt: string,
+  context: PromptContext = {},
+  patch = false,
+): string[] {
+  const {current, changed = true, notes = [], api} = context;
+  const parts: string[] = [];
+  if (notes.length) parts.push(notes.join('\n'));
+  // Declarations, and the C++ API nodes, are repeated every turn so the
+  // nodes the model writes stay in sync with them.
+  parts.push(describeVariables(current?.variables ?? []));
+  const apiText = api ? describeApi(api) : '';
+  if (apiText) parts.push(apiText);
+  if (current && changed) {
+    parts.push(
+      'I have updated the blueprint JSON: ' + JSON.stringify(current, null, 2),
+    );
+  } else if (current && patch) {
+    // Edits need the exact ids, so don't rely on older turns.
+    parts.push(
+      'The current blueprint JSON is: ' + JSON.stringify(current, null, 2),
+    );
+  }
+  parts.push(prompt);
+  return parts;
+}
+
+/** An answer while it streams in. */
+export interface GenerationProgress {
+  /** 0 for the first answer, then the number of the repair attempt. */
+  attempt: number;
+  /** The text received so far; empty when an attempt starts. */
+  text: string;
+  /** The blueprint drawn from what has arrived, if any of it can be. */
+  preview: BlueprintAsset | null;
+  /** The description, once all of it has arrived. */
+  description?: string;
+}
+
+export interface GenerateOptions {
+  context?: PromptContext;
+  /** Asks for edits to `context.current` instead of a whole blueprint. */
+  patch?: boolean;
+  /** Lays out the nodes of whole blueprints, ignoring the model's positions. */
+  layout?: boolean;
+  /** Corrects the nodes of answers. Defaults to the built-in nodes. */
+  catalog?: NodeCatalog;
+  signal?: AbortSignal;
+  onProgress?: (progress: GenerationProgress) => void;
+  /** Reports each repair attempt, and corrections made by the catalog. */
+  onStep?: (summary: string, problems: string[]) => void;
+}
+
+export interface GenerationResult {
+  description: string;
+  /** The whole blueprint, with the edits applied for edit answers. */
+  asset: BlueprintAsset;
+  /** The graph an edit answer changes. */
+  graph?: string;
+  /** The answer as the model wrote it. */
+  responseText: string;
+}
+
+/** The built-in nodes, and those of the project's C++ API. */
+export function defaultCatalog(api?: ProjectApi) {
+  return new NodeCatalog([...BUILTIN_CATALOG, ...(api ? apiEntries(api) : [])]);
+}
+
+function plural(count: number, noun: string) {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+/**
+ * A conversation that generates blueprints. Every answer is checked, and
+ * invalid ones are sent back to the model to be repaired.
+ */
+export class BlueprintGenerator {
+  private readonly chat: ChatSession;
+
+  constructor(
+    provider: LlmProvider,
+    settings: ProviderSettings,
+    history: ChatTurn[] = [],
+  ) {
+    this.chat = new ChatSession(provider, settings, BLUEPRINT_CONFIG, history);
+  }
+
+  getHistory(): ChatTurn[] {
+    return this.chat.getHistory();
+  }
+
+  /** Throws when the answer is still invalid after the repair attempts. */
+  async generate(
+    prompt: string,
+    options: GenerateOptions = {},
+  ): Promise<GenerationResult> {
+    const {context = {}, signal, onProgress, onStep} = options;
+    const patchAsset = options.patch ? context.current : null;
+    const catalog = options.catalog ?? defaultCatalog(context.api);
+    const layout = (asset: BlueprintAsset) =>
+      options.layout && !patchAsset
+        ? {...asset, graphs: asset.graphs.map(layoutBlueprint)}
+        : asset;
+
+    let parts = promptParts(prompt, context, !!patchAsset);
+    for (let attempt = 0; ; attempt++) {
+      let text = '';
+      let description: string | undefined;
+      onProgress?.({attempt, text, preview: null});
+      for await (const chunk of this.chat.sendMessageStream(
+        parts,
+        patchAsset ? PATCH_CONFIG : undefined,
+        signal,
+      )) {
+        text += chunk;
+        // Nodes can be drawn as they arrive, the description once it's whole.
+        const partial = parsePartialJson(text);
+        const preview = patchAsset
+          ? streamedPatch(partial, patchAsset)
+          : streamedAsset(partial);
+        if (typeof partial.value?.description === 'string') {
+          description = partial.value.description;
+        }
+        onProgress?.({
+          attempt,
+          text,
+          preview: preview && layout(preview),
+          description,
+        });
+      }
+
+      // The kind of answer asked for decides how it is read, whatever keys
+      // the model put in it.
+      const patched = patchAsset
+        ? checkPatchResponse(text, patchAsset, catalog)
+        : null;
+      const full = patchAsset ? null : checkBlueprintResponse(text, catalog);
+      const {errors, corrections = []} = patched ?? full;
+      if (!errors.length) {
+        if (attempt) onStep?.(`Attempt ${attempt + 1}: valid`, []);
+        if (corrections.length) {
+          onStep?.(
+            `Node catalog: ${plural(corrections.length, 'correction')}`,
+            corrections,
+          );
+        }
+        return patched
+          ? {...patched.response, responseText: text}
+          : {
+              description: full.response.description,
+              asset: layout(full.response.blueprint),
+              responseText: text,
+            };
+      }
+
+      onStep?.(
+        `Attempt ${attempt + 1}: ${plural(errors.length, 'problem')}`,
+        errors,
+      );
+      if (attempt >= MAX_REPAIR_ATTEMPTS) {
+        throw new Error(
+          `The blueprint was still invalid after ${MAX_REPAIR_ATTEMPTS} repair attempts.`,
+        );
+      }
+      parts = [repairPrompt(errors, !!patchAsset)];
+    }
+  }
+}
+
+/**
+ * Generates one blueprint in a new conversation, changing `current` when
+ * it's given. Uses the provider in `settings` unless `provider` is given.
+ */
+export function generateBlueprint(
+  prompt: string,
+  current?: BlueprintAsset | BlueprintData,
+  options: GenerateOptions & {
+    settings?: ProviderSettings;
+    provider?: LlmProvider;
+  } = {},
+): Promise<GenerationResult> {
+  const settings = options.settings ?? DEFAULT_SETTINGS;
+  const generator = new BlueprintGenerator(
+    options.provider ?? createProvider(settings),
+    settings,
+  );
+  return generator.generate(prompt, {
+    ...options,
+    context: {
+      ...options.context,
+      current: current ? migrateAsset(current) : options.context?.current,
+    },
+  });
+}
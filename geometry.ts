@@ -0,0 +1,103 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import {BlueprintComment, BlueprintData, BlueprintNode} from './playground';
+
+/** Node metrics shared by the canvas renderer and the layout engine. */
+export const NODE_WIDTH = 200;
+export const NODE_HEADER_HEIGHT = 30;
+export const PORT_RADIUS = 6;
+export const PORT_SPACING = 25;
+/** Reroute nodes are a small handle with a pin on either side. */
+export const REROUTE_SIZE = 24;
+/** Room for a comment box's title, and around the nodes inside it. */
+export const COMMENT_HEADER_HEIGHT = 30;
+export const COMMENT_PADDING = 20;
+export const COMMENT_MIN_SIZE = 80;
+/** A collapsed group is drawn as a node with a single row of pins. */
+export const COLLAPSED_GROUP_HEIGHT = NODE_HEADER_HEIGHT + PORT_SPACING + 10;
+
+/** Vertical offset of the n-th port from the top of its node. */
+export function portOffset(index: number) {
+  return NODE_HEADER_HEIGHT + PORT_SPACING * (index + 1);
+}
+
+export function nodeWidth(node: BlueprintNode) {
+  return node.type === 'reroute' ? REROUTE_SIZE : NODE_WIDTH;
+}
+
+export function nodeHeight(node: BlueprintNode) {
+  if (node.type === 'reroute') return REROUTE_SIZE;
+  return (
+    NODE_HEADER_HEIGHT +
+    Math.max(node.inputs.length, node.outputs.length) * PORT_SPACING +
+    10
+  );
+}
+
+export interface Bounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** Smallest rectangle containing all the given nodes. */
+export function nodeBounds(nodes: BlueprintNode[]): Bounds | null {
+  if (!nodes.length) return null;
+  const left = Math.min(...nodes.map((n) => n.x));
+  const top = Math.min(...nodes.map((n) => n.y));
+  const right = Math.max(...nodes.map((n) => n.x + nodeWidth(n)));
+  const bottom = Math.max(...nodes.map((n) => n.y + nodeHeight(n)));
+  return {x: left, y: top, width: right - left, height: bottom - top};
+}
+
+/** Bounds of the nodes and comment boxes of a graph. */
+export function graphBounds(graph: BlueprintData): Bounds | null {
+  const boxes = [
+    ...(graph.comments ?? []),
+    ...graph.nodes.map((n) => ({
+      x: n.x,
+      y: n.y,
+      width: nodeWidth(n),
+      height: nodeHeight(n),
+    })),
+  ];
+  if (!boxes.length) return null;
+  const left = Math.min(...boxes.map((b) => b.x));
+  const top = Math.min(...boxes.map((b) => b.y));
+  const right = Math.max(...boxes.map((b) => b.x + b.width));
+  const bottom = Math.max(...boxes.map((b) => b.y + b.height));
+  return {x: left, y: top, width: right - left, height: bottom - top};
+}
+
+/** True when the node lies entirely within the box. */
+export function isInside(node: BlueprintNode, box: Bounds) {
+  return (
+    node.x >= box.x &&
+    node.y >= box.y &&
+    node.x + nodeWidth(node) <= box.x + box.width &&
+    node.y + nodeHeight(node) <= box.y + box.height
+  );
+}
+
+/** The nodes a comment box annotates, which move along with it. */
+export function commentedNodes(
+  comment: BlueprintComment,
+  nodes: BlueprintNode[],
+) {
+  return nodes.filter((n) => isInside(n, comment));
+}
+
+/** A comment box's rectangle fitted around the given nodes. */
+export function commentBox(nodes: BlueprintNode[]): Bounds | null {
+  const bounds = nodeBounds(nodes);
+  if (!bounds) return null;
+  return {
+    x: bounds.x - COMMENT_PADDING,
+    y: bounds.y - COMMENT_PADDING - COMMENT_HEADER_HEIGHT,
+    width: bounds.width + COMMENT_PADDING * 2,
+    height: bounds.height + COMMENT_PADDING * 2 + COMMENT_HEADER_HEIGHT,
+  };
+}
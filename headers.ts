@@ -0,0 +1,626 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import {variableNode} from './asset';
+import {CatalogEntry} from './catalog';
+import {BlueprintPin, PinContainer, PinType} from './playground';
+import {formatPinType, pinSpec} from './pins';
+
+/** A C++ header attached to a project. */
+export interface HeaderFile {
+  fileName: string;
+  text: string;
+}
+
+export interface CppParameter {
+  name: string;
+  type: PinType;
+  /** Non-const references are outputs in Blueprints. */
+  output: boolean;
+  defaultValue?: string;
+}
+
+export interface CppFunction {
+  name: string;
+  /** Name of the node, e.g. "Cast Spell" for CastSpell. */
+  displayName: string;
+  category?: string;
+  /** Impure functions have exec pins, events are implemented in Blueprints. */
+  kind: 'callable' | 'pure' | 'event';
+  isStatic: boolean;
+  parameters: CppParameter[];
+  returnType?: PinType;
+}
+
+export interface CppProperty {
+  name: string;
+  type: PinType;
+  readOnly: boolean;
+}
+
+/** Names are the ones Blueprints use, without the C++ prefix letter. */
+export interface CppClass {
+  name: string;
+  parent?: string;
+  functions: CppFunction[];
+  properties: CppProperty[];
+}
+
+export interface CppStruct {
+  name: string;
+  members: CppProperty[];
+}
+
+export interface CppEnum {
+  name: string;
+  values: string[];
+}
+
+/** What a project's headers expose to Blueprints. */
+export interface ProjectApi {
+  classes: CppClass[];
+  structs: CppStruct[];
+  enums: CppEnum[];
+  /** Declarations that were skipped, and why. */
+  warnings: string[];
+}
+
+const CPP_TYPES: Record<string, PinType> = {
+  bool: {category: 'bool'},
+  uint8: {category: 'byte'},
+  int: {category: 'int'},
+  int32: {category: 'int'},
+  int64: {category: 'int64'},
+  float: {category: 'real'},
+  double: {category: 'real'},
+  FString: {category: 'string'},
+  FName: {category: 'name'},
+  FText: {category: 'text'},
+  FVector: {category: 'vector'},
+  FRotator: {category: 'rotator'},
+  FTransform: {category: 'transform'},
+};
+
+const CONTAINER_TYPES: Record<string, PinContainer> = {
+  TArray: 'array',
+  TSet: 'set',
+  // Pins of maps are typed by their keys.
+  TMap: 'map',
+};
+
+const OBJECT_TEMPLATES = [
+  'TObjectPtr',
+  'TWeakObjectPtr',
+  'TSoftObjectPtr',
+  'TSubclassOf',
+  'TSoftClassPtr',
+];
+
+const BRACKETS: Record<string, string> = {'(': ')', '{': '}', '<': '>'};
+
+function stripComments(text: string) {
+  return text.replace(/\/\*[\s\S]*?\*\//g, ' ').replace(/\/\/[^\n]*/g, '');
+}
+
+/** Index just past the bracket that closes the one at `start`. */
+function closingIndex(text: string, start: number) {
+  const open = text[start];
+  const close = BRACKETS[open];
+  let depth = 0;
+  for (let i = start; i < text.length; i++) {
+    if (text[i] === '"') {
+      for (i++; i < text.length && text[i] !== '"'; i++) {
+        if (text[i] === '\\') i++;
+      }
+    } else if (text[i] === open) {
+      depth++;
+    } else if (text[i] === close && --depth === 0) {
+      return i + 1;
+    }
+  }
+  return text.length;
+}
+
+/** Splits at `separator`s that aren't inside brackets or strings. */
+function splitTopLevel(text: string, separator = ','): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (c === '"') {
+      for (i++; i < text.length && text[i] !== '"'; i++) {
+        if (text[i] === '\\') i++;
+      }
+    } else if ('(<{['.includes(c)) {
+      depth++;
+    } else if (')>}]'.includes(c)) {
+      depth--;
+    } else if (c === separator && depth === 0) {
+      parts.push(text.slice(start, i));
+      start = i + 1;
+    }
+  }
+  parts.push(text.slice(start));
+  return parts.map((p) => p.trim()).filter(Boolean);
+}
+
+/**
+ * Reads macro specifiers like `BlueprintCallable, Category="Combat",
+ * meta=(DisplayName="Cast")` into lowercase keys. Flags map to "true" and
+ * meta entries are merged in.
+ */
+function parseSpecifiers(text: string): Map<string, string> {
+  const specifiers = new Map<string, string>();
+  for (const item of splitTopLevel(text)) {
+    const eq = item.indexOf('=');
+    const key = (eq < 0 ? item : item.slice(0, eq)).trim().toLowerCase();
+    const value = eq < 0 ? 'true' : item.slice(eq + 1).trim();
+    if (key === 'meta' && value.startsWith('(')) {
+      parseSpecifiers(value.slice(1, -1)).forEach((v, k) => specifiers.set(k, v));
+    } else {
+      specifiers.set(key, value.replace(/^"(.*)"$/, '$1'));
+    }
+  }
+  return specifiers;
+}
+
+/**
+ * The Blueprint name of a C++ class or struct, e.g. "MageCharacter" for
+ * AMageCharacter. Enums keep their E, as they do in Unreal.
+ */
+function unprefixed(name: string) {
+  return name.replace(/^[AUFI](?=[A-Z])/, '');
+}
+
+/**
+ * Unreal's display form of an identifier, e.g. "Max HP" for MaxHP or
+ * "Is Dead" for the bool bIsDead.
+ */
+export function displayName(name: string, isBool = false) {
+  return (isBool ? name.replace(/^b(?=[A-Z])/, '') : name)
+    .replace(/_/g, ' ')
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .trim();
+}
+
+/** The pin type of a C++ type, or null if Blueprints can't use it. */
+export function pinTypeOf(text: string): PinType | null {
+  const type = text
+    .replace(/\b(const|class|struct|enum|typename)\b/g, '')
+    .replace(/&/g, '')
+    .replace(/::Type\b/, '')
+    .trim();
+  const template = type.match(/^(\w+)\s*<(.*)>\s*\*?$/);
+  if (template) {
+    const [, name, args] = template;
+    const first = splitTopLevel(args)[0] ?? '';
+    if (CONTAINER_TYPES[name]) {
+      const element = pinTypeOf(first);
+      if (!element || element.container) return null;
+      return {...element, container: CONTAINER_TYPES[name]};
+    }
+    if (OBJECT_TEMPLATES.includes(name)) return pinTypeOf(`${first}*`);
+    if (name === 'TEnumAsByte') return pinTypeOf(first);
+    return null;
+  }
+  const base = type.replace(/\*/g, '').trim();
+  if (CPP_TYPES[base]) return {...CPP_TYPES[base]};
+  if (/^[UA][A-Z]\w*$/.test(base)) {
+    return {category: 'object', subtype: unprefixed(base)};
+  }
+  if (/^F[A-Z]\w*$/.test(base)) {
+    return {category: 'struct', subtype: unprefixed(base)};
+  }
+  if (/^E[A-Z]\w*$/.test(base)) {
+    return {category: 'enum', subtype: base};
+  }
+  return null;
+}
+
+/** A C++ default argument as a pin default, when it is a plain literal. */
+function defaultLiteral(text: string): string | undefined {
+  const value = text.trim();
+  const quoted = value.match(/^(?:TEXT\s*\(\s*)?"(.*)"\s*\)?$/);
+  if (quoted) return quoted[1];
+  if (/^(true|false)$/.test(value)) return value;
+  const number = value.match(/^([-+]?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?)f?$/i);
+  if (number) return number[1].replace(/\.$/, '');
+  const enumerator = value.match(/^\w+::(\w+)$/);
+  return enumerator?.[1];
+}
+
+/** Splits a declaration like "TArray<int32> Values = {}" into its parts. */
+function splitDeclaration(text: string) {
+  const [head, ...rest] = splitTopLevel(text, '=');
+  const declaration = head.replace(/:\s*\d+\s*$/, '').trim();
+  const name = declaration.match(/(\w+)\s*$/)?.[1] ?? '';
+  return {
+    typeText: declaration.slice(0, declaration.length - name.length).trim(),
+    name,
+    initializer: rest.length ? rest.join('=') : undefined,
+  };
+}
+
+function parseParameter(text: string): CppParameter | string {
+  const uparam = text.match(/UPARAM\s*\(([^)]*)\)/);
+  const specifiers = parseSpecifiers(uparam?.[1] ?? '');
+  const {typeText, name, initializer} = splitDeclaration(
+    text.replace(/UPARAM\s*\([^)]*\)/, ''),
+  );
+  const type = pinTypeOf(typeText);
+  if (!type) return `parameter ${name} has type ${typeText}`;
+  const parameter: CppParameter = {
+    name: specifiers.get('displayname') ?? name,
+    type,
+    output:
+      typeText.endsWith('&') &&
+      !/\bconst\b/.test(typeText) &&
+      !specifiers.has('ref'),
+  };
+  const value = initializer && defaultLiteral(initializer);
+  if (value !== undefined && !parameter.output) parameter.defaultValue = value;
+  return parameter;
+}
+
+function parseFunction(
+  declaration: string,
+  specifiers: Map<string, string>,
+): CppFunction | string | null {
+  const isEvent =
+    specifiers.has('blueprintimplementableevent') ||
+    specifiers.has('blueprintnativeevent');
+  const callable = specifiers.has('blueprintcallable');
+  const explicitPure = specifiers.get('blueprintpure');
+  if (!isEvent && !callable && explicitPure !== 'true') return null;
+
+  const open = declaration.indexOf('(');
+  if (open < 0) return 'not a function declaration';
+  const close = closingIndex(declaration, open);
+  const head = declaration.slice(0, open).trim();
+  const name = head.match(/(\w+)$/)?.[1] ?? '';
+  const returnText = head
+    .slice(0, head.length - name.length)
+    .replace(/\b(static|virtual|inline|FORCEINLINE|explicit|constexpr)\b/g, '')
+    .trim();
+  const isConst = /^\s*const\b/.test(declaration.slice(close));
+  const returnType = returnText === 'void' ? undefined : pinTypeOf(returnText);
+  if (returnType === null) return `it returns ${returnText}`;
+
+  const parameters: CppParameter[] = [];
+  for (const text of splitTopLevel(declaration.slice(open + 1, close - 1))) {
+    if (text === 'void') continue;
+    const parameter = parseParameter(text);
+    if (typeof parameter === 'string') return parameter;
+    parameters.push(parameter);
+  }
+
+  // Const callable functions are pure unless they opt out.
+  const pure =
+    explicitPure === 'true' || (callable && isConst && explicitPure !== 'false');
+  return {
+    name,
+    displayName: specifiers.get('displayname') ?? displayName(name),
+    ...(specifiers.has('category') && {category: specifiers.get('category')}),
+    // Events with a return value are overridden as functions instead.
+    kind: isEvent && !returnType ? 'event' : pure ? 'pure' : 'callable',
+    isStatic: /\bstatic\b/.test(head),
+    parameters,
+    ...(returnType && {returnType}),
+  };
+}
+
+function parseProperty(
+  declaration: string,
+  specifiers: Map<string, string>,
+): CppProperty | string | null {
+  const readOnly = specifiers.has('blueprintreadonly');
+  if (!readOnly && !specifiers.has('blueprintreadwrite')) return null;
+  const {typeText, name} = splitDeclaration(declaration);
+  // Bools are usually declared as one-bit fields.
+  const isBitField = /:\s*1\s*(=.*)?$/.test(declaration);
+  const type = isBitField ? {category: 'bool' as const} : pinTypeOf(typeText);
+  if (!type) return `it has type ${typeText}`;
+  return {name, type, readOnly};
+}
+
+/**
+ * The UFUNCTION and UPROPERTY declarations in a class or struct body, each
+ * with its specifiers and the declaration text up to ";" or an inline body.
+ */
+function reflectedMembers(body: string) {
+  const members: Array<{
+    macro: string;
+    specifiers: Map<string, string>;
+    declaration: string;
+  }> = [];
+  const pattern = /\b(UFUNCTION|UPROPERTY)\s*\(/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(body))) {
+    const open = match.index + match[0].length - 1;
+    const close = closingIndex(body, open);
+    let end = close;
+    for (let depth = 0; end < body.length; end++) {
+      const c = body[end];
+      if (c === '(') depth++;
+      if (c === ')') depth--;
+      if (depth === 0 && (c === ';' || c === '{')) break;
+    }
+    members.push({
+      macro: match[1],
+      specifiers: parseSpecifiers(body.slice(open + 1, close - 1)),
+      declaration: body.slice(close, end).replace(/\s+/g, ' ').trim(),
+    });
+    pattern.lastIndex = end;
+  }
+  return members;
+}
+
+/** Reads the declarations a header exposes to Blueprints. */
+export function parseHeader(text: string, fileName = 'header'): ProjectApi {
+  const api: ProjectApi = {classes: [], structs: [], enums: [], warnings: []};
+  const source = stripComments(text);
+  const pattern = /\b(UCLASS|USTRUCT|UENUM)\s*\(/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(source))) {
+    const after = closingIndex(source, match.index + match[0].length - 1);
+    const rest = source.slice(after);
+    const declaration =
+      match[1] === 'UENUM'
+        ? rest.match(/^\s*enum\s+(?:class\s+)?(\w+)[^{;]*\{/)
+        : rest.match(
+            /^\s*(?:class|struct)\s+(?:\w+_API\s+)?(\w+)(?:\s+final)?\s*(?::\s*(?:public\s+)?(\w+))?[^{;]*\{/,
+          );
+    if (!declaration) continue;
+    const open = after + declaration[0].length - 1;
+    const close = closingIndex(source, open);
+    const body = source.slice(open + 1, close - 1);
+    const name =
+      match[1] === 'UENUM' ? declaration[1] : unprefixed(declaration[1]);
+    // Declarations nested in a body are rare, so bodies are skipped over.
+    pattern.lastIndex = close;
+
+    if (match[1] === 'UENUM') {
+      api.enums.push({
+        name,
+        values: splitTopLevel(body)
+          // Hidden values aren't offered in Blueprints.
+          .filter((v) => !/UMETA\s*\([^)]*\bHidden\b/i.test(v))
+          .map((v) => v.replace(/UMETA\s*\([^)]*\)/, '').split('=')[0].trim())
+          .filter((v) => /^\w+$/.test(v) && !/_MAX$/.test(v)),
+      });
+      continue;
+    }
+
+    const skip = (member: string, reason: string) =>
+      api.warnings.push(
+        `${fileName}: skipped ${declaration[1]}::${member} because ${reason}.`,
+      );
+    const functions: CppFunction[] = [];
+    const properties: CppProperty[] = [];
+    for (const member of reflectedMembers(body)) {
+      const {specifiers, declaration: text} = member;
+      if (member.macro === 'UFUNCTION') {
+        const fn = parseFunction(text, specifiers);
+        if (typeof fn === 'string') {
+          skip(text.match(/(\w+)\s*\(/)?.[1] ?? text, fn);
+        } else if (fn) {
+          functions.push(fn);
+        }
+      } else {
+        const property = parseProperty(text, specifiers);
+        if (typeof property === 'string') {
+          skip(splitDeclaration(text).name, property);
+        } else if (property) {
+          properties.push(property);
+        }
+      }
+    }
+    if (match[1] === 'USTRUCT') {
+      api.structs.push({name, members: properties});
+    } else {
+      api.classes.push({
+        name,
+        ...(declaration[2] && {parent: unprefixed(declaration[2])}),
+        functions,
+        properties,
+      });
+    }
+  }
+  return api;
+}
+
+/** Everything a project's headers declare, later files taking precedence. */
+export function parseHeaders(files: HeaderFile[]): ProjectApi {
+  const api: ProjectApi = {classes: [], structs: [], enums: [], warnings: []};
+  const merge = <T extends {name: string}>(list: T[], items: T[]) => {
+    for (const item of items) {
+      const index = list.findIndex((existing) => existing.name === item.name);
+      if (index < 0) list.push(item);
+      else list[index] = item;
+    }
+  };
+  for (const file of files) {
+    const parsed = parseHeader(file.text, file.fileName);
+    merge(api.classes, parsed.classes);
+    merge(api.structs, parsed.structs);
+    merge(api.enums, parsed.enums);
+    api.warnings.push(...parsed.warnings);
+  }
+  return api;
+}
+
+/** Attached files are recognized by extension, or by Unreal's macros. */
+export function isHeaderFile(fileName: string, text: string) {
+  return (
+    /\.(h|hpp)$/i.test(fileName) ||
+    (/\bU(CLASS|STRUCT|ENUM)\s*\(/.test(text) && /\bGENERATED_/.test(text))
+  );
+}
+
+function pin(
+  name: string,
+  direction: 'input' | 'output',
+  type: PinType,
+  defaultValue?: string,
+): BlueprintPin {
+  return {
+    name,
+    direction,
+    ...type,
+    ...(defaultValue !== undefined && {defaultValue}),
+  };
+}
+
+const execPin = (direction: 'input' | 'output'): BlueprintPin => ({
+  name: 'Exec',
+  direction,
+  category: 'exec',
+});
+
+function functionEntry(owner: CppClass, fn: CppFunction): CatalogEntry {
+  const parameterPin = (p: CppParameter, direction: 'input' | 'output') =>
+    pin(
+      displayName(p.name, p.type.category === 'bool'),
+      direction,
+      p.type,
+      p.defaultValue,
+    );
+  const category = `Project|${fn.category ?? owner.name}`;
+  if (fn.kind === 'event') {
+    return {
+      label: `Event ${fn.displayName}`,
+      type: 'event',
+      category,
+      inputs: [],
+      outputs: [
+        execPin('output'),
+        ...fn.parameters.map((p) => parameterPin(p, 'output')),
+      ],
+    };
+  }
+  const exec = fn.kind === 'callable';
+  const inputs = fn.parameters
+    .filter((p) => !p.output)
+    .map((p) => parameterPin(p, 'input'));
+  // The object the function is called on; Unreal shows it as Target.
+  const self = inputs.some((p) => p.name === 'Target') ? 'self' : 'Target';
+  return {
+    label: fn.displayName,
+    type: 'function',
+    category,
+    ...(fn.displayName !== fn.name && {aliases: [fn.name]}),
+    inputs: [
+      ...(exec ? [execPin('input')] : []),
+      ...(fn.isStatic
+        ? []
+        : [pin(self, 'input', {category: 'object', subtype: owner.name})]),
+      ...inputs,
+    ],
+    outputs: [
+      ...(exec ? [execPin('output')] : []),
+      ...fn.parameters
+        .filter((p) => p.output)
+        .map((p) => parameterPin(p, 'output')),
+      ...(fn.returnType ? [pin('Return Value', 'output', fn.returnType)] : []),
+    ],
+  };
+}
+
+/** Get and Set nodes, shaped like the ones for Blueprint variables. */
+/** The class and the classes the headers derive from it, at any depth. */
+function derivedClasses(api: ProjectApi, name: string): string[] {
+  const derived = [name];
+  for (let i = 0; i < derived.length; i++) {
+    for (const c of api.classes) {
+      if (c.parent === derived[i] && !derived.includes(c.name)) {
+        derived.push(c.name);
+      }
+    }
+  }
+  return derived;
+}
+
+function propertyEntries(
+  owner: CppClass,
+  property: CppProperty,
+  api: ProjectApi,
+) {
+  const accesses: Array<'get' | 'set'> = property.readOnly
+    ? ['get']
+    : ['get', 'set'];
+  return accesses.map((access): CatalogEntry => {
+    const node = variableNode(property, access, '', 0, 0);
+    return {
+      label: node.label,
+      type: 'variable',
+      category: `Project|${owner.name}`,
+      inputs: node.inputs,
+      outputs: node.outputs,
+      owners: derivedClasses(api, owner.name),
+    };
+  });
+}
+
+function structEntries(struct: CppStruct): CatalogEntry[] {
+  const type: PinType = {category: 'struct', subtype: struct.name};
+  const member = (p: CppProperty, direction: 'input' | 'output') =>
+    pin(displayName(p.name, p.type.category === 'bool'), direction, p.type);
+  return [
+    {
+      label: `Make ${struct.name}`,
+      type: 'function',
+      category: 'Project|Structs',
+      inputs: struct.members.map((p) => member(p, 'input')),
+      outputs: [pin(struct.name, 'output', type)],
+    },
+    {
+      label: `Break ${struct.name}`,
+      type: 'function',
+      category: 'Project|Structs',
+      inputs: [pin(struct.name, 'input', type)],
+      outputs: struct.members.map((p) => member(p, 'output')),
+    },
+  ];
+}
+
+/** Node catalog entries for everything the headers expose. */
+export function apiEntries(api: ProjectApi): CatalogEntry[] {
+  return [
+    ...api.classes.flatMap((owner) => [
+      ...owner.functions.map((fn) => functionEntry(owner, fn)),
+      ...owner.properties.flatMap((p) => propertyEntries(owner, p, api)),
+    ]),
+    ...api.structs.flatMap(structEntries),
+  ];
+}
+
+/** Tells the model about the project's C++ API, with the exact pins to use. */
+export function describeApi(api: ProjectApi): string {
+  const lines: string[] = [];
+  for (const owner of api.classes) {
+    const parent = owner.parent ? ` (parent class ${owner.parent})` : '';
+    lines.push(`C++ class ${owner.name}${parent}:`);
+    for (const entry of apiEntries({...api, classes: [owner], structs: []})) {
+      const pins = (list: BlueprintPin[]) => list.map(pinSpec).join(', ');
+      lines.push(
+        `- "${entry.label}" (${entry.type} node): inputs [${pins(entry.inputs)}]; outputs [${pins(entry.outputs)}]`,
+      );
+    }
+  }
+  for (const struct of api.structs) {
+    const members = struct.members
+      .map((m) => `${m.name}: ${formatPinType(m.type)}`)
+      .join(', ');
+    lines.push(
+      `C++ struct ${struct.name} {${members}}, built and split with "Make ${struct.name}" and "Break ${struct.name}" nodes.`,
+    );
+  }
+  for (const e of api.enums) {
+    lines.push(`C++ enum ${e.name}: ${e.values.join(', ')}.`);
+  }
+  if (!lines.length) return '';
+  return `The project's C++ code exposes these to Blueprints. Use the nodes exactly as listed, with the same labels and pins. Variable nodes of a class can be used without declaring the variable when the blueprint's parent class is that class or derives from it.\n${lines.join('\n')}`;
+}
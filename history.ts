@@ -0,0 +1,89 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/** One undoable change, stored as the serialized graph before and after. */
+export interface HistoryCommand {
+  label: string;
+  before: string;
+  after: string;
+  /** Changes with the same group recorded close together become one step. */
+  group?: string;
+  time: number;
+}
+
+/**
+ * Adds an entry to a list capped at `limit`, or updates the last entry
+ * instead when both belong to `group` and come within `windowMs` of each
+ * other, so bursts like typing or dragging become one entry.
+ */
+export function recordGrouped<T extends {group?: string; time: number}>(
+  entries: T[],
+  group: string | undefined,
+  {limit, windowMs}: {limit: number; windowMs: number},
+  create: (time: number) => T,
+  update: (last: T) => void,
+) {
+  const now = Date.now();
+  const last = entries[entries.length - 1];
+  if (group && last?.group === group && now - last.time < windowMs) {
+    update(last);
+    last.time = now;
+    return;
+  }
+  entries.push(create(now));
+  if (entries.length > limit) entries.shift();
+}
+
+export class HistoryStack {
+  private done: HistoryCommand[] = [];
+  private undone: HistoryCommand[] = [];
+
+  constructor(
+    private readonly limit = 100,
+    private readonly groupWindowMs = 1500,
+  ) {}
+
+  get canUndo() {
+    return this.done.length > 0;
+  }
+
+  get canRedo() {
+    return this.undone.length > 0;
+  }
+
+  get undoLabel() {
+    return this.done[this.done.length - 1]?.label;
+  }
+
+  get redoLabel() {
+    return this.undone[this.undone.length - 1]?.label;
+  }
+
+  push(label: string, before: string, after: string, group?: string) {
+    if (before === after) return;
+    this.undone = [];
+    recordGrouped(
+      this.done,
+      group,
+      {limit: this.limit, windowMs: this.groupWindowMs},
+      (time) => ({label, before, after, group, time}),
+      (last) => (last.after = after),
+    );
+  }
+
+  /** Returns the command to revert, or undefined when there is none. */
+  undo() {
+    const command = this.done.pop();
+    if (command) this.undone.push(command);
+    return command;
+  }
+
+  /** Returns the command to apply again, or undefined when there is none. */
+  redo() {
+    const command = this.undone.pop();
+    if (command) this.done.push(command);
+    return command;
+  }
+}
@@ -0,0 +1,157 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import {Bounds} from './geometry';
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+/** Canvas states that shouldn't end up in a document. */
+const TRANSIENT_CLASSES = ['selected', 'highlighted', 'sim-active', 'unknown'];
+
+/**
+ * The CSS rules that style `root` or anything inside it, so an exported SVG
+ * looks the same outside the page. Rules on :root are kept too, since the
+ * others refer to its custom properties.
+ */
+function matchingStyles(root: Element): string {
+  const rules: string[] = [];
+  for (const sheet of Array.from(document.styleSheets)) {
+    let list: CSSRuleList;
+    try {
+      list = sheet.cssRules;
+    } catch (e) {
+      // Cross-origin sheets, like web fonts, can't be read.
+      continue;
+    }
+    for (const rule of Array.from(list)) {
+      if (!(rule instanceof CSSStyleRule)) continue;
+      try {
+        const selector = rule.selectorText;
+        if (
+          selector === ':root' ||
+          root.matches(selector) ||
+          root.querySelector(selector)
+        ) {
+          rules.push(rule.cssText);
+        }
+      } catch (e) {
+        // Selectors with pseudo-elements can't be matched against elements.
+      }
+    }
+  }
+  return rules.join('\n');
+}
+
+/** The first background color found on the element or its ancestors. */
+function backgroundColor(element: Element) {
+  for (let e: Element | null = element; e; e = e.parentElement) {
+    const color = getComputedStyle(e).backgroundColor;
+    if (color && color !== 'transparent' && color !== 'rgba(0, 0, 0, 0)') {
+      return color;
+    }
+  }
+  return '#ffffff';
+}
+
+/**
+ * Copies the graph drawn on the canvas into a standalone SVG document that
+ * shows `bounds`, in graph coordinates, with `padding` around it. The inline
+ * default value fields become plain text, as HTML inside an SVG image would
+ * stop it from being drawn onto a canvas.
+ */
+export function canvasSvg(
+  canvas: SVGSVGElement,
+  bounds: Bounds,
+  padding = 40,
+): string {
+  const viewport = canvas.querySelector<SVGGElement>('#viewport');
+  const content = viewport.cloneNode(true) as SVGGElement;
+  content.removeAttribute('id');
+  content.removeAttribute('transform');
+  content
+    .querySelectorAll(
+      [
+        '.connection-hit',
+        '.connection-path-pending',
+        '.breakpoint',
+        '.comment-resize',
+        '.node-unknown',
+      ].join(', '),
+    )
+    .forEach((e) => e.remove());
+  content
+    .querySelectorAll(TRANSIENT_CLASSES.map((c) => `.${c}`).join(', '))
+    .forEach((e) => e.classList.remove(...TRANSIENT_CLASSES));
+
+  const fields = viewport.querySelectorAll('foreignObject');
+  content.querySelectorAll('foreignObject').forEach((copy, i) => {
+    const input = fields[i]?.querySelector('input');
+    const text = document.createElementNS(SVG_NS, 'text');
+    text.setAttribute('class', 'node-port-label');
+    text.setAttribute('x', copy.getAttribute('x'));
+    const top = Number(copy.getAttribute('y'));
+    const height = Number(copy.getAttribute('height'));
+    text.setAttribute('y', String(top + height * 0.75));
+    text.textContent =
+      input?.type === 'checkbox'
+        ? input.checked
+          ? '☑'
+          : '☐'
+        : input?.value ?? '';
+    copy.replaceWith(text);
+  });
+
+  const x = bounds.x - padding;
+  const y = bounds.y - padding;
+  const width = Math.ceil(bounds.width + padding * 2);
+  const height = Math.ceil(bounds.height + padding * 2);
+  const svg = document.createElementNS(SVG_NS, 'svg');
+  svg.setAttribute('xmlns', SVG_NS);
+  svg.setAttribute('width', String(width));
+  svg.setAttribute('height', String(height));
+  svg.setAttribute('viewBox', `${x} ${y} ${width} ${height}`);
+
+  const style = document.createElementNS(SVG_NS, 'style');
+  style.textContent = matchingStyles(content);
+  const background = document.createElementNS(SVG_NS, 'rect');
+  background.setAttribute('x', String(x));
+  background.setAttribute('y', String(y));
+  background.setAttribute('width', String(width));
+  background.setAttribute('height', String(height));
+  background.setAttribute('fill', backgroundColor(canvas));
+  svg.append(style, background, content);
+  return new XMLSerializer().serializeToString(svg);
+}
+
+/** Draws an SVG document onto a canvas `scale` times its size. */
+export async function svgToPng(svg: string, scale = 1): Promise<Blob> {
+  const url = URL.createObjectURL(new Blob([svg], {type: 'image/svg+xml'}));
+  try {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.ceil(image.width * scale);
+    canvas.height = Math.ceil(image.height * scale);
+    canvas.getContext('2d').drawImage(image, 0, 0, canvas.width, canvas.height);
+    return await new Promise((resolve, reject) =>
+      canvas.toBlob(
+        (blob) =>
+          blob ? resolve(blob) : reject(new Error('The image is too large.')),
+        'image/png',
+      ),
+    );
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+export function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
@@ -0,0 +1,420 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import {
+  commentBox,
+  commentedNodes,
+  NODE_WIDTH,
+  nodeHeight,
+  portOffset,
+} from './geometry';
+import {BlueprintData, BlueprintNode} from './playground';
+import {pinIndex} from './pins';
+
+const ORIGIN_X = 50;
+const ORIGIN_Y = 50;
+const COLUMN_GAP = 120;
+const ROW_GAP = 40;
+const BAND_GAP = 100;
+const ORDERING_SWEEPS = 8;
+
+interface LayoutEdge {
+  from: string;
+  to: string;
+  fromIndex: number;
+  toIndex: number;
+  exec: boolean;
+}
+
+interface LayoutContext {
+  nodes: Map<string, BlueprintNode>;
+  edges: LayoutEdge[];
+  /** Nodes with no exec wires at all, e.g. getters and math. */
+  pure: Set<string>;
+}
+
+/** Events, and the entry nodes of functions and macros, start a band. */
+function isStartNode(node: BlueprintNode) {
+  return node.type === 'event' || node.type === 'entry';
+}
+
+/**
+ * Groups nodes into horizontal bands, one per event. A band holds everything
+ * the event's exec chain reaches plus the data providers those nodes read
+ * from. Nodes not tied to any event get bands of their own.
+ */
+function collectBands(ctx: LayoutContext, order: BlueprintNode[]) {
+  const assigned = new Map<string, number>();
+  const bands: string[][] = [];
+
+  const claim = (id: string, band: number) => {
+    if (assigned.has(id)) return false;
+    assigned.set(id, band);
+    bands[band].push(id);
+    return true;
+  };
+
+  for (const event of order.filter(isStartNode)) {
+    if (assigned.has(event.id)) continue;
+    const band = bands.push([]) - 1;
+    const queue = [event.id];
+    while (queue.length) {
+      const id = queue.shift();
+      if (!claim(id, band)) continue;
+      for (const e of ctx.edges) {
+        if (e.exec && e.from === id) queue.push(e.to);
+      }
+    }
+    // Walk data wires backwards to pick up providers.
+    for (let i = 0; i < bands[band].length; i++) {
+      const id = bands[band][i];
+      for (const e of ctx.edges) {
+        if (!e.exec && e.to === id) claim(e.from, band);
+      }
+    }
+  }
+
+  // Leftovers join the band of any node they are wired to.
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const e of ctx.edges) {
+      const fromBand = assigned.get(e.from);
+      const toBand = assigned.get(e.to);
+      if (fromBand !== undefined && toBand === undefined) {
+        changed = claim(e.to, fromBand) || changed;
+      } else if (toBand !== undefined && fromBand === undefined) {
+        changed = claim(e.from, toBand) || changed;
+      }
+    }
+  }
+
+  // Whatever is still unassigned forms bands by connected component.
+  for (const node of order) {
+    if (assigned.has(node.id)) continue;
+    const band = bands.push([]) - 1;
+    const queue = [node.id];
+    while (queue.length) {
+      const id = queue.shift();
+      if (!claim(id, band)) continue;
+      for (const e of ctx.edges) {
+        if (e.from === id) queue.push(e.to);
+        if (e.to === id) queue.push(e.from);
+      }
+    }
+  }
+
+  return bands;
+}
+
+/**
+ * Assigns every node in a band to a column. Exec chains use longest-path
+ * layering from the band's events; pure nodes sit one column before the
+ * earliest node that reads them.
+ */
+function assignLayers(ctx: LayoutContext, band: string[]) {
+  const inBand = new Set(band);
+  const edges = ctx.edges.filter((e) => inBand.has(e.from) && inBand.has(e.to));
+  const layer = new Map<string, number>();
+
+  let roots = band.filter((id) => isStartNode(ctx.nodes.get(id)));
+  let chainEdges = edges.filter((e) => e.exec);
+  if (!roots.length) {
+    roots = band.filter((id) => !edges.some((e) => e.to === id));
+    if (!roots.length) roots = [band[0]];
+    chainEdges = edges;
+  }
+  roots.forEach((id) => layer.set(id, 0));
+
+  // Longest path; the pass limit keeps cycles from running forever.
+  for (let pass = 0; pass < band.length; pass++) {
+    let changed = false;
+    for (const e of chainEdges) {
+      if (!layer.has(e.from)) continue;
+      const next = layer.get(e.from) + 1;
+      if ((layer.get(e.to) ?? -Infinity) < next) {
+        layer.set(e.to, next);
+        changed = true;
+      }
+    }
+    if (!changed) break;
+  }
+
+  const consumersOf = (id: string) =>
+    edges.filter((e) => e.from === id && layer.has(e.to)).map((e) => layer.get(e.to));
+  const producersOf = (id: string) =>
+    edges.filter((e) => e.to === id && layer.has(e.from)).map((e) => layer.get(e.from));
+
+  // Fill in nodes the chain walk didn't reach.
+  for (let pass = 0; pass <= band.length; pass++) {
+    let changed = false;
+    for (const id of band) {
+      if (layer.has(id)) continue;
+      const consumers = consumersOf(id);
+      const producers = producersOf(id);
+      if (consumers.length) {
+        layer.set(id, Math.min(...consumers) - 1);
+      } else if (producers.length) {
+        layer.set(id, Math.max(...producers) + 1);
+      } else {
+        continue;
+      }
+      changed = true;
+    }
+    if (!changed) break;
+  }
+  band.forEach((id) => layer.has(id) || layer.set(id, 0));
+
+  // Pull pure providers next to the first node that reads them.
+  for (let pass = 0; pass < band.length; pass++) {
+    let changed = false;
+    for (const id of band) {
+      if (!ctx.pure.has(id)) continue;
+      const consumers = consumersOf(id);
+      if (!consumers.length) continue;
+      const target = Math.min(...consumers) - 1;
+      if (layer.get(id) !== target) {
+        layer.set(id, target);
+        changed = true;
+      }
+    }
+    if (!changed) break;
+  }
+
+  const min = Math.min(...band.map((id) => layer.get(id)));
+  band.forEach((id) => layer.set(id, layer.get(id) - min));
+  return layer;
+}
+
+function countCrossings(
+  edges: LayoutEdge[],
+  layer: Map<string, number>,
+  rank: Map<string, number>,
+) {
+  const spans = edges
+    .filter((e) => layer.get(e.to) - layer.get(e.from) === 1)
+    .map((e) => ({
+      column: layer.get(e.from),
+      a: rank.get(e.from) + e.fromIndex / 100,
+      b: rank.get(e.to) + e.toIndex / 100,
+    }));
+  let crossings = 0;
+  for (let i = 0; i < spans.length; i++) {
+    for (let j = i + 1; j < spans.length; j++) {
+      const s = spans[i];
+      const t = spans[j];
+      if (s.column === t.column && (s.a - t.a) * (s.b - t.b) < 0) crossings++;
+    }
+  }
+  return crossings;
+}
+
+/**
+ * Orders the nodes inside each column with barycenter sweeps, keeping the
+ * ordering that produced the fewest wire crossings.
+ */
+function orderColumns(
+  ctx: LayoutContext,
+  band: string[],
+  layer: Map<string, number>,
+) {
+  const inBand = new Set(band);
+  const edges = ctx.edges.filter((e) => inBand.has(e.from) && inBand.has(e.to));
+  const depth = Math.max(...band.map((id) => layer.get(id))) + 1;
+
+  let columns: string[][] = Array.from({length: depth}, () => []);
+  // Start from the model's own vertical order, which is usually sensible.
+  [...band]
+    .sort((a, b) => ctx.nodes.get(a).y - ctx.nodes.get(b).y)
+    .forEach((id) => columns[layer.get(id)].push(id));
+
+  const rankOf = (cols: string[][]) => {
+    const rank = new Map<string, number>();
+    cols.forEach((col) => col.forEach((id, i) => rank.set(id, i)));
+    return rank;
+  };
+
+  let best = columns.map((c) => [...c]);
+  let bestCrossings = countCrossings(edges, layer, rankOf(best));
+
+  for (let sweep = 0; sweep < ORDERING_SWEEPS && bestCrossings > 0; sweep++) {
+    const forward = sweep % 2 === 0;
+    const indexes = [...columns.keys()];
+    if (!forward) indexes.reverse();
+
+    for (const c of indexes) {
+      const rank = rankOf(columns);
+      const barycenter = new Map<string, number>();
+      for (const id of columns[c]) {
+        const neighbours = edges
+          .filter((e) =>
+            forward
+              ? e.to === id && layer.get(e.from) < c
+              : e.from === id && layer.get(e.to) > c,
+          )
+          .map((e) =>
+            forward
+              ? rank.get(e.from) + e.fromIndex / 100
+              : rank.get(e.to) + e.toIndex / 100,
+          );
+        barycenter.set(
+          id,
+          neighbours.length
+            ? neighbours.reduce((sum, v) => sum + v, 0) / neighbours.length
+            : rank.get(id),
+        );
+      }
+      columns[c] = [...columns[c]].sort(
+        (a, b) => barycenter.get(a) - barycenter.get(b),
+      );
+    }
+
+    const crossings = countCrossings(edges, layer, rankOf(columns));
+    if (crossings < bestCrossings) {
+      bestCrossings = crossings;
+      best = columns.map((col) => [...col]);
+    }
+  }
+  columns = best;
+  return columns;
+}
+
+/**
+ * Computes coordinates for one band. Nodes try to line their ports up with
+ * the nodes wired into them, exec wires taking precedence, and never overlap
+ * the node above them in the same column. Returns the bottom of the band.
+ */
+function placeBand(
+  ctx: LayoutContext,
+  columns: string[][],
+  top: number,
+  positions: Map<string, {x: number; y: number}>,
+) {
+  const placeColumn = (
+    column: string[],
+    desired: (id: string) => number | undefined,
+  ) => {
+    let cursor = top;
+    for (const id of column) {
+      const y = Math.max(desired(id) ?? cursor, cursor);
+      positions.get(id).y = Math.round(y);
+      cursor = y + nodeHeight(ctx.nodes.get(id)) + ROW_GAP;
+    }
+  };
+
+  const alignTo = (id: string, edges: LayoutEdge[], incoming: boolean) => {
+    const placed = edges.filter((e) => positions.has(incoming ? e.from : e.to));
+    if (!placed.length) return undefined;
+    const total = placed.reduce((sum, e) => {
+      const other = positions.get(incoming ? e.from : e.to).y;
+      return incoming
+        ? sum + other + portOffset(e.fromIndex) - portOffset(e.toIndex)
+        : sum + other + portOffset(e.toIndex) - portOffset(e.fromIndex);
+    }, 0);
+    return total / placed.length;
+  };
+
+  // Left to right: follow the wires coming in, preferring exec wires.
+  columns.forEach((column, c) => {
+    const x = ORIGIN_X + c * (NODE_WIDTH + COLUMN_GAP);
+    column.forEach((id) => positions.set(id, {x, y: top}));
+    const desired = new Map<string, number | undefined>();
+    for (const id of column) {
+      const incoming = ctx.edges.filter(
+        (e) => e.to === id && positions.has(e.from) && e.from !== id,
+      );
+      const exec = incoming.filter((e) => e.exec);
+      desired.set(id, alignTo(id, exec.length ? exec : incoming, true));
+    }
+    // Positions of this column aren't final yet, don't align to them.
+    for (const id of column) {
+      if (ctx.edges.some((e) => e.to === id && column.includes(e.from))) {
+        desired.set(id, undefined);
+      }
+    }
+    placeColumn(column, (id) => desired.get(id));
+  });
+
+  // Right to left: move pure providers next to the nodes that read them.
+  for (let c = columns.length - 2; c >= 0; c--) {
+    const column = columns[c];
+    const desired = new Map<string, number | undefined>();
+    for (const id of column) {
+      if (!ctx.pure.has(id)) {
+        desired.set(id, positions.get(id).y);
+        continue;
+      }
+      const outgoing = ctx.edges.filter(
+        (e) => e.from === id && !column.includes(e.to),
+      );
+      desired.set(
+        id,
+        alignTo(id, outgoing, false) ?? positions.get(id).y,
+      );
+    }
+    placeColumn(column, (id) => desired.get(id));
+  }
+
+  let bottom = top;
+  for (const column of columns) {
+    for (const id of column) {
+      bottom = Math.max(
+        bottom,
+        positions.get(id).y + nodeHeight(ctx.nodes.get(id)),
+      );
+    }
+  }
+  return bottom;
+}
+
+/**
+ * Lays a graph out with a layered (Sugiyama-style) algorithm: exec chains run
+ * left to right, each event gets its own band and node order is chosen to
+ * reduce wire crossings. The result is deterministic and the input is left
+ * untouched.
+ */
+export function layoutBlueprint<T extends BlueprintData>(data: T): T {
+  const nodes = new Map<string, BlueprintNode>();
+  for (const node of data.nodes) {
+    if (!nodes.has(node.id)) nodes.set(node.id, node);
+  }
+  const edges: LayoutEdge[] = data.connections
+    .filter((c) => nodes.has(c.from) && nodes.has(c.to) && c.from !== c.to)
+    .map((c) => ({
+      from: c.from,
+      to: c.to,
+      fromIndex: Math.max(0, pinIndex(nodes.get(c.from), c.fromPort, false)),
+      toIndex: Math.max(0, pinIndex(nodes.get(c.to), c.toPort, true)),
+      exec: c.type === 'exec',
+    }));
+  const pure = new Set(
+    [...nodes.keys()].filter(
+      (id) =>
+        !isStartNode(nodes.get(id)) &&
+        !edges.some((e) => e.exec && (e.from === id || e.to === id)),
+    ),
+  );
+  const ctx: LayoutContext = {nodes, edges, pure};
+
+  // Events are stacked in the order they already appear on the canvas.
+  const order = [...nodes.values()].sort((a, b) => a.y - b.y || a.x - b.x);
+  const positions = new Map<string, {x: number; y: number}>();
+  let top = ORIGIN_Y;
+  for (const band of collectBands(ctx, order)) {
+    const layer = assignLayers(ctx, band);
+    const columns = orderColumns(ctx, band, layer);
+    top = placeBand(ctx, columns, top, positions) + BAND_GAP;
+  }
+
+  const laidOut = data.nodes.map((node) =>
+    positions.has(node.id) ? {...node, ...positions.get(node.id)} : node,
+  );
+  // Comment boxes are fitted around the nodes they held before.
+  const comments = data.comments?.map((comment) => {
+    const inside = new Set(commentedNodes(comment, data.nodes).map((n) => n.id));
+    const box = commentBox(laidOut.filter((n) => inside.has(n.id)));
+    return box ? {...comment, ...box} : comment;
+  });
+  return {...data, nodes: laidOut, ...(comments && {comments})};
+}
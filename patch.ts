@@ -0,0 +1,225 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import {signatureFromNodes} from './asset';
+import {
+  BlueprintConnection,
+  BlueprintData,
+  BlueprintGraph,
+  BlueprintNode,
+  BlueprintPin,
+} from './playground';
+import {findPin, normalizePin, pinConnectionError} from './pins';
+
+export type PatchOperationKind =
+  | 'addNode'
+  | 'removeNode'
+  | 'updateNode'
+  | 'connect'
+  | 'disconnect'
+  | 'movePins';
+
+export const PATCH_OPERATIONS: PatchOperationKind[] = [
+  'addNode',
+  'removeNode',
+  'updateNode',
+  'connect',
+  'disconnect',
+  'movePins',
+];
+
+/**
+ * One edit to a graph. Which fields are used depends on `op`:
+ * - addNode: `node`, the whole new node.
+ * - removeNode: `nodeId`. The node's wires are removed with it.
+ * - updateNode: `nodeId` and any of `label`, `type`, `x` and `y`.
+ * - connect, disconnect: `connection`.
+ * - movePins: `nodeId` and the new `inputs` and/or `outputs`, to add,
+ *   remove, reorder or retype pins. Wired pins can't be removed.
+ */
+export interface PatchOperation {
+  op: PatchOperationKind;
+  nodeId?: string;
+  node?: BlueprintNode;
+  label?: string;
+  type?: string;
+  x?: number;
+  y?: number;
+  connection?: BlueprintConnection;
+  inputs?: BlueprintPin[];
+  outputs?: BlueprintPin[];
+}
+
+/** Nodes and wires that differ between two versions of a graph. */
+export interface GraphDiff {
+  added: string[];
+  removed: string[];
+  /** Nodes in both versions whose label, type or pins changed. */
+  changed: string[];
+  /** Nodes in both versions that changed position. */
+  moved: string[];
+  addedConnections: BlueprintConnection[];
+  removedConnections: BlueprintConnection[];
+}
+
+/** Identifies a wire by its two pins. */
+export function connectionKey(conn: BlueprintConnection) {
+  return [conn.from, conn.fromPort, conn.to, conn.toPort].join('\u0000');
+}
+
+export function diffGraphs(
+  before: BlueprintData,
+  after: BlueprintData,
+): GraphDiff {
+  const oldNodes = new Map(before.nodes.map((n) => [n.id, n]));
+  const newIds = new Set(after.nodes.map((n) => n.id));
+  const oldWires = new Set(before.connections.map(connectionKey));
+  const newWires = new Set(after.connections.map(connectionKey));
+  const kept = after.nodes.filter((n) => oldNodes.has(n.id));
+  const content = ({x, y, ...rest}: BlueprintNode) => JSON.stringify(rest);
+  return {
+    added: after.nodes.filter((n) => !oldNodes.has(n.id)).map((n) => n.id),
+    removed: before.nodes.filter((n) => !newIds.has(n.id)).map((n) => n.id),
+    changed: kept
+      .filter((n) => content(n) !== content(oldNodes.get(n.id)))
+      .map((n) => n.id),
+    moved: kept
+      .filter((n) => {
+        const old = oldNodes.get(n.id);
+        return n.x !== old.x || n.y !== old.y;
+      })
+      .map((n) => n.id),
+    addedConnections: after.connections.filter(
+      (c) => !oldWires.has(connectionKey(c)),
+    ),
+    removedConnections: before.connections.filter(
+      (c) => !newWires.has(connectionKey(c)),
+    ),
+  };
+}
+
+/** Applies one operation to `graph` in place, or returns why it can't. */
+function applyOperation(
+  graph: BlueprintGraph,
+  operation: PatchOperation,
+): string | null {
+  const node = graph.nodes.find((n) => n.id === operation.nodeId);
+  const needsNode = ['removeNode', 'updateNode', 'movePins'];
+  if (needsNode.includes(operation.op) && !node) {
+    return `there is no node with id "${operation.nodeId}".`;
+  }
+
+  switch (operation.op) {
+    case 'addNode': {
+      const added = operation.node;
+      if (!added?.id) return 'it needs a "node" with an id.';
+      if (graph.nodes.some((n) => n.id === added.id)) {
+        return `node id "${added.id}" is already used.`;
+      }
+      graph.nodes.push({
+        ...added,
+        x: Number(added.x) || 0,
+        y: Number(added.y) || 0,
+        inputs: (added.inputs ?? []).map((p) =>
+          normalizePin(graph, added.id, p, 'input'),
+        ),
+        outputs: (added.outputs ?? []).map((p) =>
+          normalizePin(graph, added.id, p, 'output'),
+        ),
+      });
+      return null;
+    }
+    case 'removeNode':
+      graph.nodes = graph.nodes.filter((n) => n !== node);
+      graph.connections = graph.connections.filter(
+        (c) => c.from !== node.id && c.to !== node.id,
+      );
+      return null;
+    case 'updateNode':
+      for (const key of ['label', 'type'] as const) {
+        if (operation[key] !== undefined) node[key] = operation[key];
+      }
+      for (const key of ['x', 'y'] as const) {
+        if (operation[key] !== undefined) node[key] = Number(operation[key]);
+      }
+      return null;
+    case 'movePins': {
+      const inputs = operation.inputs?.map((p) =>
+        normalizePin(graph, node.id, p, 'input'),
+      );
+      const outputs = operation.outputs?.map((p) =>
+        normalizePin(graph, node.id, p, 'output'),
+      );
+      // Dropping a wired pin would silently remove its wires.
+      const orphan = graph.connections.find(
+        (c) =>
+          (inputs &&
+            c.to === node.id &&
+            !inputs.some((p) => p.name === c.toPort)) ||
+          (outputs &&
+            c.from === node.id &&
+            !outputs.some((p) => p.name === c.fromPort)),
+      );
+      if (orphan) {
+        const pin = orphan.to === node.id ? orphan.toPort : orphan.fromPort;
+        return `pin "${pin}" of "${node.label}" is still wired; disconnect it first.`;
+      }
+      if (inputs) node.inputs = inputs;
+      if (outputs) node.outputs = outputs;
+      return null;
+    }
+    case 'connect':
+    case 'disconnect': {
+      const conn = operation.connection;
+      if (!conn?.from || !conn.to) return 'it needs a "connection".';
+      const key = connectionKey(conn);
+      const existing = graph.connections.find((c) => connectionKey(c) === key);
+      if (operation.op === 'disconnect') {
+        if (!existing) {
+          return `there is no wire from ${conn.from}.${conn.fromPort} to ${conn.to}.${conn.toPort}.`;
+        }
+        graph.connections = graph.connections.filter((c) => c !== existing);
+        return null;
+      }
+      if (existing) return 'the two pins are already connected.';
+      const from = graph.nodes.find((n) => n.id === conn.from);
+      const to = graph.nodes.find((n) => n.id === conn.to);
+      if (!from || !to) {
+        return `there is no node with id "${!from ? conn.from : conn.to}".`;
+      }
+      const fromPin = findPin(from, conn.fromPort, false);
+      const toPin = findPin(to, conn.toPort, true);
+      if (!fromPin) return `"${from.label}" has no output named "${conn.fromPort}".`;
+      if (!toPin) return `"${to.label}" has no input named "${conn.toPort}".`;
+      const typeError = pinConnectionError(fromPin, toPin);
+      if (typeError) return typeError;
+      graph.connections.push({
+        ...conn,
+        type: fromPin.category === 'exec' ? 'exec' : 'data',
+      });
+      return null;
+    }
+    default:
+      return `unknown operation "${operation.op}".`;
+  }
+}
+
+/**
+ * Applies a list of operations to a copy of `graph`, in order. Either all of
+ * them apply, or none do and every failing operation is reported.
+ */
+export function applyPatch(
+  graph: BlueprintGraph,
+  operations: PatchOperation[],
+): {graph: BlueprintGraph | null; errors: string[]} {
+  const patched: BlueprintGraph = JSON.parse(JSON.stringify(graph));
+  const errors: string[] = [];
+  operations.forEach((operation, index) => {
+    const error = applyOperation(patched, operation);
+    if (error) errors.push(`Operation ${index + 1} (${operation.op}): ${error}`);
+  });
+  if (errors.length) return {graph: null, errors};
+  // Edited entry and return nodes change the function's signature.
+  return {graph: signatureFromNodes(patched), errors};
+}
@@ -0,0 +1,315 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import {
+  BlueprintData,
+  BlueprintNode,
+  BlueprintPin,
+  PinCategory,
+  PinContainer,
+} from './playground';
+
+export const PIN_CATEGORIES: PinCategory[] = [
+  'exec',
+  'bool',
+  'byte',
+  'int',
+  'int64',
+  'real',
+  'name',
+  'string',
+  'text',
+  'vector',
+  'rotator',
+  'transform',
+  'object',
+  'struct',
+  'enum',
+  'wildcard',
+];
+
+export const PIN_CONTAINERS: PinContainer[] = ['single', 'array', 'set', 'map'];
+
+/** Alternative spellings accepted when reading pins. */
+const CATEGORY_ALIASES: Record<string, PinCategory> = {
+  float: 'real',
+  double: 'real',
+  boolean: 'bool',
+  integer: 'int',
+  integer64: 'int64',
+  str: 'string',
+  class: 'object',
+  actor: 'object',
+};
+
+/** Conversions Unreal performs by inserting a conversion node. */
+const IMPLICIT_CONVERSIONS: Partial<Record<PinCategory, PinCategory[]>> = {
+  bool: ['string', 'text'],
+  byte: ['int', 'int64', 'real', 'string'],
+  int: ['byte', 'int64', 'real', 'string', 'text'],
+  int64: ['int', 'real', 'string'],
+  real: ['int', 'string', 'text'],
+  name: ['string', 'text'],
+  string: ['name', 'text'],
+  text: ['string'],
+  vector: ['string', 'text'],
+  rotator: ['string', 'text'],
+  transform: ['string'],
+  object: ['string'],
+  enum: ['byte', 'string'],
+};
+
+/** Names Unreal and older files use for exec pins. */
+export const EXEC_PIN_PATTERN = /\bexec\b|^execute$|^then(\s*\d+)?$/i;
+
+export function toPinCategory(value: string | undefined): PinCategory | null {
+  const key = (value ?? '').trim().toLowerCase();
+  if (PIN_CATEGORIES.includes(key as PinCategory)) return key as PinCategory;
+  return CATEGORY_ALIASES[key] ?? null;
+}
+
+export function containerOf(pin: BlueprintPin): PinContainer {
+  return pin.container ?? 'single';
+}
+
+export function findPin(node: BlueprintNode, name: string, isInput: boolean) {
+  return (isInput ? node.inputs : node.outputs).find((p) => p.name === name);
+}
+
+export function pinIndex(node: BlueprintNode, name: string, isInput: boolean) {
+  return (isInput ? node.inputs : node.outputs).findIndex(
+    (p) => p.name === name,
+  );
+}
+
+/** Human readable type, e.g. "int", "object<Actor>[]" or "set<name>". */
+export function formatPinType(pin: Omit<BlueprintPin, 'name' | 'direction'>) {
+  const base = pin.subtype ? `${pin.category}<${pin.subtype}>` : pin.category;
+  switch (pin.container ?? 'single') {
+    case 'array':
+      return `${base}[]`;
+    case 'set':
+      return `set<${base}>`;
+    case 'map':
+      return `map<${base}>`;
+    default:
+      return base;
+  }
+}
+
+/**
+ * Parses the type notation produced by formatPinType. Returns null if the
+ * category isn't known.
+ */
+export function parsePinType(
+  text: string,
+): Omit<BlueprintPin, 'name' | 'direction'> | null {
+  let type = text.trim();
+  let container: PinContainer = 'single';
+  const wrapped = type.match(/^(set|map)\s*<(.+)>$/i);
+  if (wrapped) {
+    container = wrapped[1].toLowerCase() as PinContainer;
+    type = wrapped[2].trim();
+  } else if (type.endsWith('[]')) {
+    container = 'array';
+    type = type.slice(0, -2).trim();
+  }
+  const match = type.match(/^([a-z0-9]+)\s*(?:<\s*(.+?)\s*>)?$/i);
+  const category = toPinCategory(match?.[1]);
+  if (!category) return null;
+  const pin: Omit<BlueprintPin, 'name' | 'direction'> = {category};
+  if (match[2]) pin.subtype = match[2];
+  if (container !== 'single') pin.container = container;
+  return pin;
+}
+
+/** Pin as written in the node editor, e.g. "Min: int = 0". */
+export function pinSpec(pin: BlueprintPin) {
+  const spec = `${pin.name}: ${formatPinType(pin)}`;
+  return pin.defaultValue === undefined ? spec : `${spec} = ${pin.defaultValue}`;
+}
+
+/**
+ * Reads one pin written by pinSpec. A pin without a type becomes an exec
+ * pin if it's named like one, or a wildcard otherwise. Anything after "="
+ * is the pin's default value.
+ */
+export function parsePinSpec(
+  text: string,
+  direction: 'input' | 'output',
+): BlueprintPin {
+  const line = text.trim();
+  const eq = line.indexOf('=');
+  const head = eq < 0 ? line : line.slice(0, eq).trim();
+  const pin: BlueprintPin = {name: head, direction, category: 'wildcard'};
+  const colon = head.lastIndexOf(':');
+  if (colon < 0) {
+    if (EXEC_PIN_PATTERN.test(head)) pin.category = 'exec';
+  } else {
+    const type = parsePinType(head.slice(colon + 1));
+    if (!type) throw new Error(`Unknown pin type in "${line}".`);
+    Object.assign(pin, {name: head.slice(0, colon).trim(), ...type});
+  }
+  if (eq >= 0) pin.defaultValue = line.slice(eq + 1).trim();
+  return pin;
+}
+
+/** Reads the node editor's pin list, one pin per line. */
+export function parsePinSpecs(
+  text: string,
+  direction: 'input' | 'output',
+): BlueprintPin[] {
+  return text
+    .split('\n')
+    .filter((line) => line.trim())
+    .map((line) => parsePinSpec(line, direction));
+}
+
+/**
+ * Checks whether a wire from `from` (an output) to `to` (an input) is allowed.
+ * Returns the reason when it isn't, or null when it is.
+ */
+export function pinConnectionError(
+  from: BlueprintPin,
+  to: BlueprintPin,
+): string | null {
+  if (from.direction !== 'output' || to.direction !== 'input') {
+    return 'Wires must run from an output pin to an input pin.';
+  }
+  const fromExec = from.category === 'exec';
+  const toExec = to.category === 'exec';
+  if (fromExec !== toExec) {
+    return `Can't connect ${fromExec ? 'an exec' : 'a data'} pin to ${
+      toExec ? 'an exec' : 'a data'
+    } pin.`;
+  }
+  if (fromExec) return null;
+  if (from.category === 'wildcard' || to.category === 'wildcard') return null;
+
+  const mismatch = `${formatPinType(from)} is not compatible with ${formatPinType(to)}.`;
+  if (containerOf(from) !== containerOf(to)) return mismatch;
+  if (from.category === to.category) {
+    if (!from.subtype || !to.subtype || from.subtype === to.subtype) return null;
+    // Any object reference fits an input that takes a plain Object.
+    if (from.category === 'object' && to.subtype === 'Object') return null;
+    return mismatch;
+  }
+  // Unreal only converts single values automatically.
+  if (
+    containerOf(from) === 'single' &&
+    IMPLICIT_CONVERSIONS[from.category]?.includes(to.category)
+  ) {
+    return null;
+  }
+  return mismatch;
+}
+
+const NUMBER = String.raw`[-+]?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?`;
+const VECTOR = String.raw`${NUMBER}\s*,\s*${NUMBER}\s*,\s*${NUMBER}`;
+
+/** How each kind of literal must be written, with a hint for error messages. */
+const DEFAULT_VALUE_FORMATS: Partial<
+  Record<PinCategory, {pattern: RegExp; hint: string}>
+> = {
+  bool: {pattern: /^(true|false)$/i, hint: 'true or false'},
+  byte: {pattern: /^\d+$/, hint: 'a whole number from 0 to 255'},
+  int: {pattern: /^[-+]?\d+$/, hint: 'a whole number'},
+  int64: {pattern: /^[-+]?\d+$/, hint: 'a whole number'},
+  real: {pattern: new RegExp(`^${NUMBER}$`, 'i'), hint: 'a number'},
+  vector: {pattern: new RegExp(`^${VECTOR}$`, 'i'), hint: 'X,Y,Z'},
+  rotator: {pattern: new RegExp(`^${VECTOR}$`, 'i'), hint: 'Pitch,Yaw,Roll'},
+  transform: {
+    pattern: new RegExp(`^${VECTOR}\\|${VECTOR}\\|${VECTOR}$`, 'i'),
+    hint: 'location|rotation|scale, each X,Y,Z',
+  },
+  enum: {pattern: /^\w+$/, hint: 'an enumerator name'},
+};
+
+/**
+ * Checks that a pin's default value can be used for its type. Returns the
+ * reason when it can't, or null when the value is fine or there is none.
+ */
+export function defaultValueError(pin: BlueprintPin): string | null {
+  if (pin.defaultValue === undefined) return null;
+  if (pin.direction !== 'input') {
+    return 'Only input pins can have a default value.';
+  }
+  if (pin.category === 'exec' || containerOf(pin) !== 'single') {
+    return `${formatPinType(pin)} pins can't have a default value.`;
+  }
+  const format = DEFAULT_VALUE_FORMATS[pin.category];
+  const value = pin.defaultValue.trim();
+  if (format && !format.pattern.test(value)) {
+    return `"${pin.defaultValue}" is not a valid ${pin.category}; expected ${format.hint}.`;
+  }
+  if (pin.category === 'byte' && Number(value) > 255) {
+    return `"${pin.defaultValue}" is out of range for a byte.`;
+  }
+  return null;
+}
+
+/** Guesses a type for a pin stored as a bare name in older files. */
+function legacyPin(
+  data: any,
+  nodeId: string,
+  name: string,
+  direction: 'input' | 'output',
+): BlueprintPin {
+  const isInput = direction === 'input';
+  const conn = (data.connections ?? []).find((c: any) =>
+    isInput
+      ? c.to === nodeId && c.toPort === name
+      : c.from === nodeId && c.fromPort === name,
+  );
+  const isExec = conn ? conn.type === 'exec' : EXEC_PIN_PATTERN.test(name);
+  return {name, direction, category: isExec ? 'exec' : 'wildcard'};
+}
+
+/** Brings one pin, or a bare pin name from an older file, up to date. */
+export function normalizePin(
+  data: any,
+  nodeId: string,
+  pin: any,
+  direction: 'input' | 'output',
+): BlueprintPin {
+  if (typeof pin === 'string') return legacyPin(data, nodeId, pin, direction);
+  const normalized: BlueprintPin = {
+    ...pin,
+    name: String(pin?.name ?? ''),
+    direction,
+    category: toPinCategory(pin?.category) ?? 'wildcard',
+  };
+  if (!normalized.subtype) delete normalized.subtype;
+  // Models sometimes write numbers and booleans as JSON literals.
+  if (pin?.defaultValue === undefined || pin.defaultValue === null) {
+    delete normalized.defaultValue;
+  } else {
+    normalized.defaultValue = String(pin.defaultValue);
+  }
+  if (!pin?.container || pin.container === 'single') {
+    delete normalized.container;
+  }
+  return normalized;
+}
+
+/**
+ * Brings a graph from any supported file version up to the current model.
+ * Files written before pins were typed store pin names as plain strings;
+ * those are converted to exec or wildcard pins based on their wires.
+ */
+export function migrateBlueprint(raw: any): BlueprintData {
+  return {
+    ...raw,
+    nodes: (raw.nodes ?? []).map((node: any) => ({
+      ...node,
+      inputs: (node.inputs ?? []).map((p: any) =>
+        normalizePin(raw, node.id, p, 'input'),
+      ),
+      outputs: (node.outputs ?? []).map((p: any) =>
+        normalizePin(raw, node.id, p, 'output'),
+      ),
+    })),
+    connections: raw.connections ?? [],
+  };
+}
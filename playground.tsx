@@ -3,13 +3,107 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 /* tslint:disable */
-import {html, LitElement, svg, SVGTemplateResult} from 'lit';
+import {html, LitElement, PropertyValues, svg, SVGTemplateResult} from 'lit';
 import {customElement, query, state} from 'lit/decorators.js';
 import {classMap} from 'lit/directives/class-map.js';
+import {unsafeHTML} from 'lit/directives/unsafe-html.js';
 import {Marked} from 'marked';
 import {markedHighlight} from 'marked-highlight';
 // tslint:disable-next-line:ban-malformed-import-paths
 import hljs from 'highlight.js';
+import {
+  Bounds,
+  COLLAPSED_GROUP_HEIGHT,
+  COMMENT_HEADER_HEIGHT,
+  COMMENT_MIN_SIZE,
+  commentBox,
+  commentedNodes,
+  graphBounds,
+  NODE_HEADER_HEIGHT,
+  NODE_WIDTH,
+  nodeBounds,
+  nodeHeight,
+  nodeWidth,
+  portOffset,
+  PORT_RADIUS,
+  PORT_SPACING,
+  REROUTE_SIZE,
+} from './geometry';
+import {
+  createAsset,
+  createGraph,
+  EVENT_GRAPH,
+  findGraph,
+  migrateAsset,
+  REPLICATION_MODES,
+  rerouteNode,
+  signatureFromNodes,
+  syncGraphSignature,
+  updateVariable,
+  variableNode,
+} from './asset';
+import {
+  CatalogEntry,
+  catalogNode,
+  extendCatalog,
+  isCatalogFile,
+  loadCatalog,
+  NodeCatalog,
+  parseCatalogEntries,
+  unknownNodes,
+} from './catalog';
+import {CppFiles, generateCpp} from './cpp';
+import {designDocument} from './designdoc';
+import {
+  apiEntries,
+  HeaderFile,
+  isHeaderFile,
+  parseHeaders,
+  ProjectApi,
+} from './headers';
+import {HistoryStack} from './history';
+import {blobToDataUrl, canvasSvg, svgToPng} from './image';
+import {layoutBlueprint} from './layout';
+import {exportToT3D, importFromT3D, isT3DText} from './t3d';
+import {
+  defaultValueError,
+  findPin,
+  formatPinType,
+  PIN_CATEGORIES,
+  PIN_CONTAINERS,
+  parsePinSpecs,
+  pinConnectionError,
+  pinIndex,
+  pinSpec,
+} from './pins';
+import {connectionKey, diffGraphs, GraphDiff} from './patch';
+import {formatValue, Simulator} from './simulator';
+import {
+  DEFAULT_SETTINGS,
+  loadRecordings,
+  PROVIDER_KINDS,
+  ProviderKind,
+  ProviderSettings,
+} from './providers';
+import {
+  ChatEntry,
+  createProject,
+  exportProject,
+  importProject,
+  isProjectFile,
+  Project,
+  ProjectStore,
+  ProjectSummary,
+} from './storage';
+import {diffAssets, GraphChange, Snapshot, Timeline} from './timeline';
+import {ValidationIssue, validateAsset} from './validator';
+import {
+  centerView,
+  fitView,
+  ViewState,
+  visibleBounds,
+  zoomAt,
+} from './viewport';
 
 /** Markdown formatting function with syntax hilighting */
 export const marked = new Marked(
@@ -54,6 +148,10 @@ export enum ChatState {
 enum ChatTab {
   GEMINI,
   JSON,
+  LINT,
+  HISTORY,
+  DEBUG,
+  CPP,
 }
 
 export enum ChatRole {
@@ -62,14 +160,50 @@ export enum ChatRole {
   SYSTEM,
 }
 
+/** Unreal pin categories, as in FEdGraphPinType::PinCategory. */
+export type PinCategory =
+  | 'exec'
+  | 'bool'
+  | 'byte'
+  | 'int'
+  | 'int64'
+  | 'real'
+  | 'name'
+  | 'string'
+  | 'text'
+  | 'vector'
+  | 'rotator'
+  | 'transform'
+  | 'object'
+  | 'struct'
+  | 'enum'
+  | 'wildcard';
+
+export type PinContainer = 'single' | 'array' | 'set' | 'map';
+
+export interface BlueprintPin {
+  name: string;
+  direction: 'input' | 'output';
+  category: PinCategory;
+  /** Class, struct or enum name for object, struct and enum pins. */
+  subtype?: string;
+  /** Defaults to 'single'. */
+  container?: PinContainer;
+  /**
+   * Literal used while an input is unconnected, written the way Unreal
+   * stores it, e.g. "Hello", "3", "true" or "0,0,100" for a vector.
+   */
+  defaultValue?: string;
+}
+
 export interface BlueprintNode {
   id: string;
   label: string;
   type: string;
   x: number;
   y: number;
-  inputs: string[];
-  outputs: string[];
+  inputs: BlueprintPin[];
+  outputs: BlueprintPin[];
 }
 
 export interface BlueprintConnection {
@@ -80,63 +214,481 @@ export interface BlueprintConnection {
   type: 'exec' | 'data';
 }
 
+/**
+ * A titled box drawn behind a region of the graph, like Unreal's comment
+ * nodes. Moving it moves the nodes that lie inside it.
+ */
+export interface BlueprintComment {
+  id: string;
+  title: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  /** CSS color of the box, e.g. "#3b6ea5". */
+  color?: string;
+}
+
+/** Nodes that can be collapsed into a single box on the canvas. */
+export interface BlueprintGroup {
+  id: string;
+  title: string;
+  nodeIds: string[];
+  collapsed?: boolean;
+}
+
 export interface BlueprintData {
   nodes: BlueprintNode[];
   connections: BlueprintConnection[];
+  comments?: BlueprintComment[];
+  groups?: BlueprintGroup[];
+}
+
+/** The type part of a pin, shared by pins, parameters and variables. */
+export type PinType = Pick<BlueprintPin, 'category' | 'subtype' | 'container'>;
+
+export type GraphKind = 'event' | 'function' | 'macro';
+
+export interface BlueprintGraph extends BlueprintData {
+  name: string;
+  kind: GraphKind;
+  /**
+   * Parameters of a function or macro. They are mirrored by the outputs of
+   * the graph's entry node and the inputs of its return node.
+   */
+  inputs?: BlueprintPin[];
+  outputs?: BlueprintPin[];
+}
+
+export type VariableReplication = 'none' | 'replicated' | 'rep_notify';
+
+export interface BlueprintVariable {
+  name: string;
+  type: PinType;
+  defaultValue?: string;
+  /** Group shown in My Blueprint, e.g. "Combat". */
+  category?: string;
+  /** Defaults to 'none'. */
+  replication?: VariableReplication;
+  tooltip?: string;
+}
+
+/** A whole Blueprint class: its graphs and member variables. */
+export interface BlueprintAsset {
+  name: string;
+  parentClass?: string;
+  variables: BlueprintVariable[];
+  /** The EventGraph comes first, followed by functions and macros. */
+  graphs: BlueprintGraph[];
+}
+
+const NODE_TYPES = ['event', 'function', 'variable', 'flow_control', 'macro'];
+
+const EMPTY_ASSET_JSON = JSON.stringify(createAsset());
+
+const NEW_PROJECT_NAME = 'Untitled project';
+/** Delay between the last change and saving the project. */
+const AUTOSAVE_DELAY_MS = 1000;
+
+/** Drag data type used when a variable is dragged onto the canvas. */
+const VARIABLE_DRAG_TYPE = 'application/x-blueprint-variable';
+
+/** Types a member variable can have; exec and wildcard are pin-only. */
+const VARIABLE_CATEGORIES = PIN_CATEGORIES.filter(
+  (c) => c !== 'exec' && c !== 'wildcard',
+);
+
+const REPLICATION_LABELS: Record<VariableReplication, string> = {
+  none: 'None',
+  replicated: 'Replicated',
+  rep_notify: 'RepNotify',
+};
+
+const PROVIDER_LABELS: Record<ProviderKind, string> = {
+  gemini: 'Gemini',
+  openai: 'OpenAI-compatible (llama.cpp, Ollama...)',
+  mock: 'Mock (replays recorded responses)',
+};
+
+/** Section headings of the My Blueprint panel, one per graph kind. */
+const GRAPH_SECTIONS: Array<{kind: GraphKind; title: string}> = [
+  {kind: 'event', title: 'Graphs'},
+  {kind: 'function', title: 'Functions'},
+  {kind: 'macro', title: 'Macros'},
+];
+
+function downloadFile(name: string, data: string | Blob, type: string) {
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(new Blob([data], {type}));
+  link.download = name;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(link.href);
+}
+
+/** Text to put in a chat message, which is shown as HTML. */
+export function escapeHtml(text: string) {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/** A wire being dragged out of a port. */
+interface PendingWire {
+  nodeId: string;
+  port: string;
+  isInput: boolean;
+  pointer: {x: number; y: number};
+}
+
+interface ContextMenu {
+  /** Position relative to the canvas container, in pixels. */
+  x: number;
+  y: number;
+  /** Position in graph coordinates, where new nodes are placed. */
+  graphX: number;
+  graphY: number;
+  nodeId?: string;
+  commentId?: string;
+  groupId?: string;
+  /** Set when a variable was dropped on the canvas: offers Get and Set. */
+  variable?: string;
+}
+
+/** A comment box or collapsed group being dragged on the canvas. */
+interface BoxDrag {
+  /** Pointer position where the drag started, in graph coordinates. */
+  start: {x: number; y: number};
+  /** Everything the drag moves, with the positions they started at. */
+  items: Array<{item: {x: number; y: number}; x: number; y: number}>;
+  /** Set when a comment's corner is dragged to resize it. */
+  resize?: {comment: BlueprintComment; width: number; height: number};
+  label: string;
+  moved: boolean;
+}
+
+interface NodeEditor {
+  nodeId?: string;
+  type: string;
+  label: string;
+  /** One "Name: type" line per pin. */
+  inputs: string;
+  outputs: string;
+  /** Set when a pin line can't be parsed. */
+  error?: string;
+  x: number;
+  y: number;
+}
+
+/** Edits from the model, shown on the canvas until accepted or rejected. */
+interface PatchPreview {
+  /** The asset with the edits applied. */
+  asset: BlueprintAsset;
+  graph: string;
+  diff: GraphDiff;
+  /** History label used once the edits are accepted. */
+  label: string;
+}
+
+type ExportFormat = 'svg' | 'png' | 'markdown';
+
+const EXPORT_FORMATS: Array<{format: ExportFormat; label: string}> = [
+  {format: 'svg', label: 'SVG image'},
+  {format: 'png', label: 'PNG image'},
+  {format: 'markdown', label: 'Markdown design document'},
+];
+
+interface ExportOptions {
+  format: ExportFormat;
+  /** Pixels per graph unit of the PNG, also used by the Markdown image. */
+  scale: number;
+  selectionOnly: boolean;
+}
+
+/** A simulator run shown in the Debug tab. */
+interface Simulation {
+  simulator: Simulator;
+  graph: string;
+  startNodeId: string;
+  /** Asset as of the start, to tell when the run no longer matches it. */
+  revision: string;
+}
+
+/** Identifies a breakpoint by graph and node, as node ids repeat across graphs. */
+/** Colors offered for comment boxes, the first one being the default. */
+const COMMENT_COLORS = ['#3b6ea5', '#4f8a4b', '#a86b2d', '#8a4b7d', '#6b6b6b'];
+
+/** First id of the form prefix_N that isn't taken. */
+function nextId(prefix: string, taken: Array<{id: string}>) {
+  const ids = new Set(taken.map((t) => t.id));
+  let index = taken.length + 1;
+  while (ids.has(`${prefix}_${index}`)) index++;
+  return `${prefix}_${index}`;
+}
+
+/** Maps each node folded into a collapsed group to that group. */
+function collapsedNodes(graph: BlueprintData) {
+  const hidden = new Map<string, BlueprintGroup>();
+  for (const group of graph.groups ?? []) {
+    if (group.collapsed) group.nodeIds.forEach((id) => hidden.set(id, group));
+  }
+  return hidden;
+}
+
+/** Where a collapsed group is drawn: at the top left of its nodes. */
+function collapsedGroupBox(
+  group: BlueprintGroup,
+  graph: BlueprintData,
+): Bounds | null {
+  const bounds = nodeBounds(
+    graph.nodes.filter((n) => group.nodeIds.includes(n.id)),
+  );
+  if (!bounds) return null;
+  return {
+    x: bounds.x,
+    y: bounds.y,
+    width: NODE_WIDTH,
+    height: COLLAPSED_GROUP_HEIGHT,
+  };
 }
 
-const NODE_WIDTH = 200;
-const NODE_HEADER_HEIGHT = 30;
-const PORT_RADIUS = 6;
-const PORT_SPACING = 25;
+function breakpointKey(graph: string, nodeId: string) {
+  return `${graph}\u0000${nodeId}`;
+}
+
+/** Two snapshots shown side by side. */
+interface Comparison {
+  before: Snapshot;
+  after: Snapshot;
+  changes: GraphChange[];
+  /** Graph shown in the side-by-side view. */
+  graph: string;
+}
 
 @customElement('gdm-playground')
 export class Playground extends LitElement {
   @query('#anchor') anchor;
   @query('#blueprint-canvas') blueprintCanvas: SVGSVGElement;
+  @query('#viewport') viewport: SVGGElement;
+  @query('#minimap') minimap: SVGSVGElement;
   @query('#file-input') fileInput: HTMLInputElement;
 
   @state() chatState = ChatState.IDLE;
   @state() selectedChatTab = ChatTab.GEMINI;
   @state() inputMessage = '';
   @state() blueprintJsonString = '';
-  @state() blueprintData: BlueprintData | null = null;
+  @state() asset: BlueprintAsset | null = null;
+  /** Name of the graph shown on the canvas. */
+  @state() activeGraphName = EVENT_GRAPH;
   @state() messages: HTMLElement[] = [];
   @state() dataHasChanged = true;
+  @state() highlightedIssue: ValidationIssue | null = null;
+  /** When set, graphs from AI responses are laid out before display. */
+  @state() autoLayoutResponses = false;
+  /** Ask the model for edit operations instead of the whole blueprint. */
+  @state() patchResponses = false;
+  @state() patchPreview: PatchPreview | null = null;
+  /** Snapshot ids picked in the timeline for comparison, at most two. */
+  @state() compareIds: number[] = [];
+  @state() comparison: Comparison | null = null;
+  @state() projects: ProjectSummary[] = [];
+  /** The project on screen; null until it is first saved. */
+  @state() project: ProjectSummary | null = null;
+  @state() renamingProject = false;
+  @state() providerSettings: ProviderSettings = DEFAULT_SETTINGS;
+  /** Settings being edited in the dialog, applied on save. */
+  @state() settingsDraft: ProviderSettings | null = null;
+  @state() simulation: Simulation | null = null;
+  /** Options of the open export dialog. */
+  @state() exportOptions: ExportOptions | null = null;
+  /** Keys from `breakpointKey`. */
+  @state() breakpoints: string[] = [];
+  @state() view: ViewState = {x: 0, y: 0, zoom: 1};
+  @state() canvasSize = {width: 800, height: 600};
+  @state() selectedNodeIds: string[] = [];
+  @state() pendingWire: PendingWire | null = null;
+  @state() contextMenu: ContextMenu | null = null;
+  @state() nodeEditor: NodeEditor | null = null;
+  /** Variable whose details are open in My Blueprint. */
+  @state() selectedVariable: string | null = null;
+  /** Why the last attempted wire was refused, shown over the canvas. */
+  @state() wireError: string | null = null;
+  /** Comment box or group whose title is being edited on the canvas. */
+  @state() renaming: {kind: 'comment' | 'group'; id: string} | null = null;
+  /** Nodes offered by the add node palette and checked in model answers. */
+  @state() catalog: NodeCatalog = loadCatalog();
+  /** Search text of the add node palette in the canvas menu. */
+  @state() paletteQuery = '';
+  /** Nodes and connections drawn so far from an answer still arriving. */
+  @state() streamProgress: {nodes: number; connections: number} | null =
+    null;
+  /** C++ headers attached to the project, and what they expose. */
+  @state() headers: HeaderFile[] = [];
+  projectApi: ProjectApi = parseHeaders([]);
 
-  private defaultBlueprint: BlueprintData | null = null;
+  private defaultBlueprint: BlueprintAsset | BlueprintData | null = null;
+  /** The asset on screen before a streamed answer began to replace it. */
+  private streamBase: {asset: BlueprintAsset | null} | null = null;
   private dragging = false;
   private selectedNode: BlueprintNode | null = null;
   private dragOffset = {x: 0, y: 0};
+  private boxDrag: BoxDrag | null = null;
+  private panning = false;
+  private panMoved = false;
+  private panStart = {x: 0, y: 0};
+  private minimapDragging = false;
+  private history = new HistoryStack();
+  private timeline = new Timeline();
+  /** Serialized graph as of the last history entry. */
+  private committedGraph = EMPTY_ASSET_JSON;
+  /** Pan and zoom of graphs that aren't on screen, restored on switching. */
+  private graphViews = new Map<string, ViewState>();
+  /** Notes for the model about changes it didn't make, e.g. undo. */
+  private contextNotes: string[] = [];
+  /** Null when IndexedDB isn't available, e.g. in some private windows. */
+  private store: ProjectStore | null = new ProjectStore();
+  private saveTimer = 0;
+  /** Generated C++ of the committed asset, kept until the asset changes. */
+  private cpp: {json: string; files: CppFiles} | null = null;
+  private resizeObserver = new ResizeObserver(([entry]) => {
+    this.canvasSize = {
+      width: entry.contentRect.width,
+      height: entry.contentRect.height,
+    };
+  });
 
   sendMessageHandler?: CallableFunction;
+  /** Starts a new model session, resuming the given history if any. */
   resetHandler?: CallableFunction;
+  /** Returns the model session's history so it can be saved. */
+  chatHistoryHandler?: CallableFunction;
+  /** Applies new provider settings to the model session. */
+  settingsHandler?: CallableFunction;
+  /** Stops the answer being generated. */
+  stopHandler?: CallableFunction;
 
   constructor() {
     super();
     // Add document-level listeners for mouse move and up to handle dragging
     document.addEventListener('mousemove', this.handleDragMove.bind(this));
     document.addEventListener('mouseup', this.handleDragEnd.bind(this));
+    document.addEventListener('keydown', this.handleCanvasKeyDown.bind(this));
   }
 
   createRenderRoot() {
     return this;
   }
 
-  setDefaultBlueprint(data: BlueprintData) {
+  firstUpdated() {
+    this.resizeObserver.observe(this.blueprintCanvas);
+  }
+
+  updated(changed: PropertyValues) {
+    // A comment or group that was just added starts with its title selected.
+    const editor = this.querySelector<HTMLInputElement>('.title-editor input');
+    if (editor && document.activeElement !== editor) {
+      editor.focus();
+      editor.select();
+    }
+    // The canvas menu opens ready to search for a node to add.
+    if (changed.has('contextMenu')) {
+      this.querySelector<HTMLInputElement>('.palette-search input')?.focus();
+    }
+  }
+
+  /** The graph shown on the canvas. */
+  get blueprintData(): BlueprintGraph | null {
+    if (!this.asset) return null;
+    return findGraph(this.asset, this.activeGraphName) ?? this.asset.graphs[0];
+  }
+
+  /**
+   * The graph drawn on the canvas: the active graph, or while edits are
+   * previewed, the edited graph plus the nodes and wires they remove.
+   */
+  private get displayedGraph(): BlueprintGraph | null {
+    const preview = this.patchPreview;
+    if (!preview || preview.graph !== this.activeGraphName) {
+      return this.blueprintData;
+    }
+    const graph = findGraph(preview.asset, preview.graph);
+    const removed = this.blueprintData.nodes.filter((n) =>
+      preview.diff.removed.includes(n.id),
+    );
+    return {
+      ...graph,
+      nodes: [...graph.nodes, ...removed],
+      connections: [
+        ...graph.connections,
+        ...preview.diff.removedConnections,
+      ],
+    };
+  }
+
+  /** Highlights for the canvas while edits are previewed on it. */
+  private get displayedDiff(): GraphDiff | null {
+    const preview = this.patchPreview;
+    return preview?.graph === this.activeGraphName ? preview.diff : null;
+  }
+
+  setDefaultBlueprint(data: BlueprintAsset | BlueprintData) {
     this.defaultBlueprint = data;
   }
 
-  setBlueprintData(data: BlueprintData) {
-    this.blueprintData = data;
-    this.blueprintJsonString = JSON.stringify(data, null, 2);
+  /** Shows a new asset. Graph-only data from older files becomes its EventGraph. */
+  setBlueprintAsset(
+    data: BlueprintAsset | BlueprintData,
+    label = 'AI response',
+  ) {
+    this.asset = migrateAsset(data);
+    if (!findGraph(this.asset, this.activeGraphName)) {
+      this.openGraphAction(this.asset.graphs[0].name);
+    }
+    this.highlightedIssue = null;
+    this.blueprintJsonString = JSON.stringify(this.asset, null, 2);
     this.dataHasChanged = false;
+    this.recordHistory(label);
+  }
+
+  /** Shows edits to one graph on the canvas, waiting for them to be accepted. */
+  previewPatch(asset: BlueprintAsset, graph: string, label = 'AI edits') {
+    const before = findGraph(this.asset, graph) ?? {nodes: [], connections: []};
+    const diff = diffGraphs(before, findGraph(asset, graph));
+    this.patchPreview = {asset, graph, diff, label};
+    this.openGraphAction(graph);
+    this.contextMenu = null;
+    this.nodeEditor = null;
   }
 
   setChatState(state: ChatState) {
     this.chatState = state;
   }
 
+  /**
+   * Draws the part of an answer received so far, without recording it in
+   * the history. `endStreaming` puts the previous asset back.
+   */
+  showStreamingAsset(asset: BlueprintAsset) {
+    this.streamBase ??= {asset: this.asset};
+    this.asset = asset;
+    this.highlightedIssue = null;
+    const graph = this.blueprintData;
+    this.streamProgress = {
+      nodes: graph.nodes.length,
+      connections: graph.connections.length,
+    };
+  }
+
+  endStreaming() {
+    this.streamProgress = null;
+    if (!this.streamBase) return;
+    this.asset = this.streamBase.asset;
+    this.streamBase = null;
+  }
+
   setInputField(message: string) {
     this.inputMessage = message.trim();
   }
@@ -181,22 +733,26 @@ export class Playground extends LitElement {
 
     const msgRole = role ? role.toLowerCase() : 'user';
     if (msgRole === 'user') this.addMessage(msgRole, msg);
+    // Moving on in the chat discards edits that were never accepted.
+    if (msgRole === 'user' && this.patchPreview) this.rejectPatchAction();
 
     if (this.sendMessageHandler) {
+      const notes = this.contextNotes;
+      this.contextNotes = [];
       await this.sendMessageHandler(
         msg,
         msgRole,
         this.blueprintJsonString,
         this.dataHasChanged,
+        notes,
       );
     }
     this.chatState = ChatState.IDLE;
+    this.scheduleSave();
   }
 
   private async clearAction() {
-    this.setBlueprintData(
-      this.defaultBlueprint || {nodes: [], connections: []},
-    );
+    this.setBlueprintAsset(this.defaultBlueprint || createAsset(), 'Reset');
     this.messages = [];
     this.dataHasChanged = true;
     if (this.resetHandler) this.resetHandler();
@@ -204,16 +760,29 @@ export class Playground extends LitElement {
     this.requestUpdate();
   }
 
-  private async blueprintEditedAction(jsonString: string) {
-    if (this.chatState !== ChatState.IDLE) return;
+  private async blueprintEditedAction(jsonString: string, label?: string) {
+    if (!this.canEdit) return;
 
     this.blueprintJsonString = jsonString;
     this.dataHasChanged = true;
     try {
       const parsedData = JSON.parse(jsonString);
       // Basic validation
-      if (parsedData.nodes && parsedData.connections) {
-        this.blueprintData = parsedData;
+      if (
+        Array.isArray(parsedData.graphs) ||
+        (parsedData.nodes && parsedData.connections)
+      ) {
+        this.asset = migrateAsset(parsedData);
+        if (!findGraph(this.asset, this.activeGraphName)) {
+          this.openGraphAction(this.asset.graphs[0].name);
+        }
+        this.highlightedIssue = null;
+        // Typing in the editor is grouped into one step per pause.
+        if (label) {
+          this.recordHistory(label);
+        } else {
+          this.recordHistory('Edit JSON', 'json-editor');
+        }
       }
     } catch (e) {
       // Invalid JSON, don't update the visual graph
@@ -234,16 +803,80 @@ export class Playground extends LitElement {
   private saveAction() {
     if (!this.blueprintJsonString) return;
 
-    const blob = new Blob([this.blueprintJsonString], {
-      type: 'application/json',
-    });
-    const link = document.createElement('a');
-    link.href = URL.createObjectURL(blob);
-    link.download = 'unreal-blueprint.json';
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(link.href);
+    downloadFile(
+      'unreal-blueprint.json',
+      this.blueprintJsonString,
+      'application/json',
+    );
+  }
+
+  /** The model's latest explanation of the blueprint. */
+  private get description() {
+    const answer = [...this.messages]
+      .reverse()
+      .find((div) => div.classList.contains('role-assistant'));
+    return answer?.querySelector('.text')?.textContent ?? '';
+  }
+
+  private openExportAction() {
+    if (!this.blueprintData?.nodes.length) return;
+    this.exportOptions = {
+      format: 'png',
+      scale: 2,
+      selectionOnly: false,
+    };
+  }
+
+  /** Exports the graph on screen, or the selected part of it. */
+  private async exportAction() {
+    const options = this.exportOptions;
+    if (!options || !this.blueprintData) return;
+    this.exportOptions = null;
+    const bounds = options.selectionOnly
+      ? nodeBounds(
+          this.blueprintData.nodes.filter((n) =>
+            this.selectedNodeIds.includes(n.id),
+          ),
+        )
+      : graphBounds(this.blueprintData);
+    if (!bounds) return;
+    const name = `${this.asset.name}-${this.activeGraphName}`;
+
+    try {
+      const image = canvasSvg(this.blueprintCanvas, bounds);
+      if (options.format === 'svg') {
+        downloadFile(`${name}.svg`, image, 'image/svg+xml');
+        return;
+      }
+      const png = await svgToPng(image, options.scale);
+      if (options.format === 'png') {
+        downloadFile(`${name}.png`, png, 'image/png');
+        return;
+      }
+      const markdown = designDocument(this.asset, {
+        description: this.description,
+        image: await blobToDataUrl(png),
+      });
+      downloadFile(`${this.asset.name}.md`, markdown, 'text/markdown');
+    } catch (err) {
+      console.error('Error exporting the blueprint:', err);
+      this.addMessage('ERROR', 'Failed to export the blueprint.');
+    }
+  }
+
+  private async copyForUnrealAction() {
+    if (!this.blueprintData) return;
+
+    try {
+      await navigator.clipboard.writeText(exportToT3D(this.blueprintData));
+      this.addMessage(
+        'SYSTEM',
+        'Blueprint copied. Paste it into an Unreal graph with <strong>Ctrl+V</strong>.',
+      );
+    } catch (err) {
+      console.error('Error copying blueprint to clipboard:', err);
+      this.addMessage('ERROR', 'Failed to copy the blueprint to the clipboard.');
+    }
   }
 
   private async handleFileLoad(e: Event) {
@@ -255,9 +888,31 @@ export class Playground extends LitElement {
     const file = input.files[0];
     const fileContent = await file.text();
 
+    if (await this.importProjectFile(fileContent, file.name)) {
+      input.value = '';
+      return;
+    }
+
+    if (this.importCatalogFile(fileContent, file.name)) {
+      input.value = '';
+      return;
+    }
+
+    if (isHeaderFile(file.name, fileContent)) {
+      this.importHeaderFile(fileContent, file.name);
+      input.value = '';
+      return;
+    }
+
+    if (isT3DText(fileContent)) {
+      this.importUnrealText(fileContent, file.name);
+      input.value = '';
+      return;
+    }
+
     try {
       // This will trigger a re-render and update the graph
-      this.blueprintEditedAction(fileContent);
+      this.blueprintEditedAction(fileContent, `Load ${file.name}`);
       this.addMessage('SYSTEM', `Blueprint loaded from <strong>${file.name}</strong>.`);
     } catch (err) {
       console.error('Error loading or parsing file:', err);
@@ -269,158 +924,2873 @@ export class Playground extends LitElement {
     input.value = ''; // Reset input to allow loading same file again
   }
 
-  // --- Drag and Drop Logic ---
-  private handleDragStart(e: MouseEvent, node: BlueprintNode) {
-    e.preventDefault();
-    this.selectedNode = node;
-    const CTM = this.blueprintCanvas.getScreenCTM();
-    this.dragOffset = {
-      x: (e.clientX - CTM.e) / CTM.a - node.x,
-      y: (e.clientY - CTM.f) / CTM.d - node.y,
-    };
-    this.dragging = true;
+  /** Adds the nodes of a catalog file. Returns false for other files. */
+  private importCatalogFile(text: string, fileName: string) {
+    let json: any;
+    try {
+      json = JSON.parse(text);
+    } catch (e) {
+      return false;
+    }
+    if (!isCatalogFile(json)) return false;
+    try {
+      const entries = parseCatalogEntries(json.nodeCatalog);
+      extendCatalog(entries);
+      this.refreshCatalog();
+      this.addMessage(
+        'SYSTEM',
+        `Added ${entries.length} nodes to the node catalog from <strong>${escapeHtml(
+          fileName,
+        )}</strong>.`,
+      );
+    } catch (err) {
+      console.error('Error loading the node catalog:', err);
+      this.addMessage(
+        'ERROR',
+        `Failed to load the node catalog from <strong>${escapeHtml(
+          fileName,
+        )}</strong>. ${err instanceof Error ? escapeHtml(err.message) : ''}`,
+      );
+    }
+    return true;
   }
 
-  private handleDragMove(e: MouseEvent) {
-    if (this.dragging && this.selectedNode) {
-      e.preventDefault();
-      const CTM = this.blueprintCanvas.getScreenCTM();
-      const newX = (e.clientX - CTM.e) / CTM.a - this.dragOffset.x;
-      const newY = (e.clientY - CTM.f) / CTM.d - this.dragOffset.y;
-      this.selectedNode.x = Math.round(newX);
-      this.selectedNode.y = Math.round(newY);
-      this.requestUpdate();
+  /** Attaches a C++ header, replacing an earlier version of the same file. */
+  private importHeaderFile(text: string, fileName: string) {
+    const parsed = parseHeaders([{fileName, text}]);
+    const functions = parsed.classes.reduce(
+      (count, c) => count + c.functions.length,
+      0,
+    );
+    const properties = parsed.classes.reduce(
+      (count, c) => count + c.properties.length,
+      0,
+    );
+    if (!functions && !properties && !parsed.structs.length) {
+      this.addMessage(
+        'ERROR',
+        `No UFUNCTIONs, UPROPERTYs or USTRUCTs were found in <strong>${escapeHtml(
+          fileName,
+        )}</strong>.`,
+      );
+      return;
     }
+    this.setHeaders([
+      ...this.headers.filter((h) => h.fileName !== fileName),
+      {fileName, text},
+    ]);
+    const names = [...parsed.classes, ...parsed.structs]
+      .map((c) => `<strong>${escapeHtml(c.name)}</strong>`)
+      .join(', ');
+    const warnings = parsed.warnings.length
+      ? `<br>Skipped:<ul>${parsed.warnings
+          .map((w) => `<li>${escapeHtml(w)}</li>`)
+          .join('')}</ul>`
+      : '';
+    this.addMessage(
+      'SYSTEM',
+      `Loaded ${names} from <strong>${escapeHtml(
+        fileName,
+      )}</strong>: ${functions} function${
+        functions === 1 ? '' : 's'
+      } and ${properties} propert${properties === 1 ? 'y' : 'ies'}.${warnings}`,
+    );
+    this.scheduleSave();
   }
 
-  private handleDragEnd(e: MouseEvent) {
-    if (this.dragging) {
-      e.preventDefault();
-      this.dragging = false;
-      this.selectedNode = null;
-      // Update the JSON string after dragging is finished
-      this.blueprintJsonString = JSON.stringify(this.blueprintData, null, 2);
-      this.dataHasChanged = true;
-      this.requestUpdate();
+  private removeHeaderAction(fileName: string) {
+    this.setHeaders(this.headers.filter((h) => h.fileName !== fileName));
+    this.addMessage('SYSTEM', `Removed <strong>${escapeHtml(fileName)}</strong>.`);
+    this.scheduleSave();
+  }
+
+  private setHeaders(headers: HeaderFile[]) {
+    this.headers = headers;
+    this.projectApi = parseHeaders(headers);
+    this.refreshCatalog();
+  }
+
+  /** The saved catalog plus the nodes of the attached headers. */
+  private refreshCatalog() {
+    this.catalog = new NodeCatalog([
+      ...loadCatalog().entries,
+      ...apiEntries(this.projectApi),
+    ]);
+  }
+
+  private async pasteFromUnrealAction() {
+    if (this.chatState !== ChatState.IDLE) return;
+
+    let text = '';
+    try {
+      text = await navigator.clipboard.readText();
+    } catch (err) {
+      console.error('Error reading clipboard:', err);
+      this.addMessage('ERROR', 'Failed to read the clipboard.');
+      return;
     }
+    this.importUnrealText(text, 'the clipboard');
   }
 
-  // --- Rendering Logic ---
-  private getPortPosition(
-    node: BlueprintNode,
-    portName: string,
-    isInput: boolean,
-  ) {
-    const portIndex = isInput
-      ? node.inputs.indexOf(portName)
-      : node.outputs.indexOf(portName);
-    const x = isInput ? node.x : node.x + NODE_WIDTH;
-    const y = node.y + NODE_HEADER_HEIGHT + PORT_SPACING * (portIndex + 1);
-    return {x, y};
+  private importUnrealText(text: string, source: string) {
+    try {
+      const {data, warnings} = importFromT3D(text);
+      if (!this.asset) this.asset = createAsset();
+      // Pasted nodes replace the graph on screen, the other graphs are kept.
+      const {comments, groups, ...graph} = this.blueprintData;
+      this.replaceActiveGraph(syncGraphSignature({...graph, ...data}));
+      this.commitGraphEdit('Import from Unreal');
+      let report = `Imported ${data.nodes.length} Unreal nodes into <strong>${escapeHtml(
+        this.activeGraphName,
+      )}</strong> from <strong>${escapeHtml(source)}</strong>.`;
+      if (warnings.length) {
+        report += `<ul>${warnings
+          .map((w) => `<li>${escapeHtml(w)}</li>`)
+          .join('')}</ul>`;
+      }
+      this.addMessage('SYSTEM', report);
+    } catch (err) {
+      console.error('Error importing Unreal nodes:', err);
+      this.addMessage(
+        'ERROR',
+        `Failed to import Unreal nodes from <strong>${escapeHtml(
+          source,
+        )}</strong>. ${err instanceof Error ? escapeHtml(err.message) : ''}`,
+      );
+    }
   }
 
-  private renderConnections(): SVGTemplateResult[] {
-    if (!this.blueprintData) return [];
-    return this.blueprintData.connections.map((conn) => {
-      const fromNode = this.blueprintData.nodes.find((n) => n.id === conn.from);
-      const toNode = this.blueprintData.nodes.find((n) => n.id === conn.to);
-      if (!fromNode || !toNode) return svg``;
+  private autoLayoutAction() {
+    if (!this.blueprintData || this.chatState !== ChatState.IDLE) return;
 
-      const start = this.getPortPosition(fromNode, conn.fromPort, false);
-      const end = this.getPortPosition(toNode, conn.toPort, true);
-      const c1x = start.x + Math.abs(end.x - start.x) * 0.7;
-      const c2x = end.x - Math.abs(end.x - start.x) * 0.7;
-      const pathData = `M ${start.x} ${start.y} C ${c1x} ${start.y}, ${c2x} ${end.y}, ${end.x} ${end.y}`;
+    this.replaceActiveGraph(layoutBlueprint(this.blueprintData));
+    this.commitGraphEdit('Auto layout');
+  }
 
-      return svg`<path d=${pathData} class="connection-path connection-path-${conn.type}" />`;
-    });
+  /** C++ for the asset as of the last history entry. */
+  private get cppFiles() {
+    if (!this.asset) return null;
+    if (this.cpp?.json !== this.committedGraph) {
+      const files = generateCpp(JSON.parse(this.committedGraph));
+      this.cpp = {json: this.committedGraph, files};
+    }
+    return this.cpp.files;
   }
 
-  private renderNodes(): SVGTemplateResult[] {
-    if (!this.blueprintData) return [];
-    return this.blueprintData.nodes.map((node) => {
-      const nodeHeight =
-        NODE_HEADER_HEIGHT +
-        Math.max(node.inputs.length, node.outputs.length) * PORT_SPACING +
-        10;
-      const headerClasses = {
-        'node-header': true,
-        [`node-header-${node.type}`]: true,
-      };
+  private downloadCppAction() {
+    const files = this.cppFiles;
+    if (!files) return;
+    downloadFile(`${files.fileName}.h`, files.header, 'text/x-c');
+    downloadFile(`${files.fileName}.cpp`, files.source, 'text/x-c');
+  }
 
-      return svg`
-        <g class="blueprint-node-group" transform="translate(${
-          node.x
-        }, ${node.y})" @mousedown=${(e: MouseEvent) =>
-          this.handleDragStart(e, node)}>
-          <rect class="node-body" width=${NODE_WIDTH} height=${nodeHeight} rx="8" />
-          <rect class=${classMap(
-            headerClasses,
-          )} width=${NODE_WIDTH} height=${NODE_HEADER_HEIGHT} />
-          <text class="node-label" x="10" y="20">${node.label}</text>
-          
-          ${node.inputs.map(
-            (port, i) => svg`
-            <circle class="port port-${
-              port.toLowerCase().includes('exec') ? 'exec' : 'data'
-            }" cx="0" cy=${
-              NODE_HEADER_HEIGHT + PORT_SPACING * (i + 1)
-            } r=${PORT_RADIUS} />
-            <text class="node-port-label" x="12" y=${
-              NODE_HEADER_HEIGHT + PORT_SPACING * (i + 1) + 4
-            }>${port}</text>
-          `,
-          )}
-          
-          ${node.outputs.map(
-            (port, i) => svg`
-            <circle class="port port-${
-              port.toLowerCase().includes('exec') ? 'exec' : 'data'
-            }" cx=${NODE_WIDTH} cy=${
-              NODE_HEADER_HEIGHT + PORT_SPACING * (i + 1)
-            } r=${PORT_RADIUS} />
-            <text class="node-port-label" text-anchor="end" x=${
-              NODE_WIDTH - 12
-            } y=${
-              NODE_HEADER_HEIGHT + PORT_SPACING * (i + 1) + 4
-            }>${port}</text>
-          `,
-          )}
-        </g>
-      `;
-    });
+  // --- Settings Logic ---
+  private openSettingsAction() {
+    if (this.chatState !== ChatState.IDLE) return;
+    this.settingsDraft = {...this.providerSettings};
   }
 
-  render() {
-    const maxCoords =
-      this.blueprintData?.nodes.reduce(
-        (acc, node) => ({
-          x: Math.max(acc.x, node.x + NODE_WIDTH + 50),
-          y: Math.max(acc.y, node.y + 200),
-        }),
-        {x: 800, y: 600},
-      ) || {x: 800, y: 600};
+  private saveSettingsAction() {
+    const draft = this.settingsDraft;
+    if (!draft || !draft.model.trim()) return;
+    const temperature = Number(draft.temperature);
+    this.providerSettings = {
+      ...draft,
+      model: draft.model.trim(),
+      endpoint: draft.endpoint.trim(),
+      temperature: Number.isFinite(temperature) ? temperature : 1,
+    };
+    this.settingsDraft = null;
+    if (this.settingsHandler) this.settingsHandler(this.providerSettings);
+    this.addMessage(
+      'SYSTEM',
+      `Now using <strong>${PROVIDER_LABELS[this.providerSettings.provider]}</strong> with model <strong>${this.providerSettings.model}</strong>.`,
+    );
+  }
 
-    return html`<div class="playground">
-      <div class="sidebar">
-        <div class="selector">
-          <button
-            id="geminiTab"
-            class=${classMap({active: this.selectedChatTab === ChatTab.GEMINI})}
-            @click=${() => (this.selectedChatTab = ChatTab.GEMINI)}>
-            Gemini
-          </button>
-          <button
-            id="jsonTab"
-            class=${classMap({active: this.selectedChatTab === ChatTab.JSON})}
-            @click=${() => (this.selectedChatTab = ChatTab.JSON)}>
-            JSON ${this.dataHasChanged ? ICON_EDIT : ''}
-          </button>
-        </div>
-        <div
-          id="chat"
-          class=${classMap({
-            tabcontent: true,
+  // --- Project Logic ---
+  /**
+   * Lists the saved projects and opens the last one. Returns false when
+   * there is nothing to open, so the caller can show a starting point.
+   */
+  async loadProjects() {
+    if (!this.store) return false;
+    try {
+      this.projects = await this.store.list();
+    } catch (err) {
+      console.warn('Projects are not available:', err);
+      this.store = null;
+      return false;
+    }
+    if (!this.projects.length) return false;
+    await this.openProject(this.projects[0].id);
+    return true;
+  }
+
+  /** The chat panel as plain data, newest message last. */
+  private get transcript(): ChatEntry[] {
+    return this.messages.map((div) => ({
+      role:
+        [...div.classList]
+          .find((c) => c.startsWith('role-'))
+          ?.slice('role-'.length) ?? 'system',
+      html: div.querySelector('.text')?.innerHTML ?? '',
+    }));
+  }
+
+  /** Everything on screen, as it would be saved. */
+  private async currentProject(): Promise<Project> {
+    const {id, name} = this.project ?? {
+      id: crypto.randomUUID(),
+      name: this.asset?.name ?? NEW_PROJECT_NAME,
+    };
+    return {
+      id,
+      name,
+      updated: Date.now(),
+      asset: this.asset ?? createAsset(),
+      transcript: this.transcript,
+      chatHistory: (await this.chatHistoryHandler?.()) ?? [],
+      headers: this.headers,
+    };
+  }
+
+  private scheduleSave() {
+    if (!this.store) return;
+    clearTimeout(this.saveTimer);
+    this.saveTimer = window.setTimeout(() => this.saveProject(), AUTOSAVE_DELAY_MS);
+  }
+
+  private async saveProject() {
+    clearTimeout(this.saveTimer);
+    if (!this.store || !this.asset) return;
+    const project = await this.currentProject();
+    this.project = {id: project.id, name: project.name, updated: project.updated};
+    try {
+      await this.store.put(project);
+      this.projects = await this.store.list();
+    } catch (err) {
+      console.error('Error saving the project:', err);
+    }
+  }
+
+  /** Replaces everything on screen, including the model session. */
+  private loadProject(project: Project) {
+    clearTimeout(this.saveTimer);
+    this.project = {id: project.id, name: project.name, updated: project.updated};
+    if (this.resetHandler) this.resetHandler(project.chatHistory);
+    this.messages = [];
+    for (const entry of project.transcript) this.addMessage(entry.role, entry.html);
+    this.history = new HistoryStack();
+    this.timeline = new Timeline();
+    this.committedGraph = EMPTY_ASSET_JSON;
+    this.graphViews.clear();
+    this.contextNotes = [];
+    this.patchPreview = null;
+    this.comparison = null;
+    this.compareIds = [];
+    this.renamingProject = false;
+    this.simulation = null;
+    this.breakpoints = [];
+    this.setHeaders(project.headers);
+    this.setBlueprintAsset(project.asset, `Open ${project.name}`);
+    // The model may not have seen the last manual edits.
+    this.dataHasChanged = true;
+    this.zoomToFitAction();
+  }
+
+  private async openProject(id: string) {
+    try {
+      const project = await this.store.get(id);
+      if (project) this.loadProject(project);
+    } catch (err) {
+      console.error('Error opening the project:', err);
+      this.addMessage('ERROR', 'Failed to open the project.');
+    }
+  }
+
+  private async switchProjectAction(id: string) {
+    if (!this.canEdit || id === this.project?.id) return;
+    await this.saveProject();
+    await this.openProject(id);
+  }
+
+  private async startNewProject() {
+    const asset = migrateAsset(this.defaultBlueprint ?? createAsset());
+    this.loadProject(createProject(NEW_PROJECT_NAME, asset));
+    await this.saveProject();
+  }
+
+  private async newProjectAction() {
+    if (!this.canEdit) return;
+    await this.saveProject();
+    await this.startNewProject();
+  }
+
+  private async renameProjectAction(name: string) {
+    this.renamingProject = false;
+    name = name.trim();
+    if (!name || !this.project || name === this.project.name) return;
+    this.project = {...this.project, name};
+    await this.saveProject();
+  }
+
+  private async duplicateProjectAction() {
+    if (!this.canEdit || !this.store) return;
+    await this.saveProject();
+    // Saving what's on screen under a new id makes the copy.
+    const name = `${this.project.name} copy`;
+    this.project = {id: crypto.randomUUID(), name, updated: Date.now()};
+    await this.saveProject();
+    this.addMessage(
+      'SYSTEM',
+      `Duplicated the project as <strong>${escapeHtml(name)}</strong>.`,
+    );
+  }
+
+  private async deleteProjectAction() {
+    const project = this.project;
+    if (!this.canEdit || !this.store || !project) return;
+    if (!confirm(`Delete the project "${project.name}"? This can't be undone.`)) {
+      return;
+    }
+    clearTimeout(this.saveTimer);
+    try {
+      await this.store.delete(project.id);
+      this.projects = await this.store.list();
+    } catch (err) {
+      console.error('Error deleting the project:', err);
+      this.addMessage('ERROR', 'Failed to delete the project.');
+      return;
+    }
+    if (this.projects.length) {
+      await this.openProject(this.projects[0].id);
+    } else {
+      await this.startNewProject();
+    }
+  }
+
+  private async exportProjectAction() {
+    const project = await this.currentProject();
+    downloadFile(
+      `${project.name}.project.json`,
+      exportProject(project),
+      'application/json',
+    );
+  }
+
+  /** Opens a file written by the project export. Returns false for other files. */
+  private async importProjectFile(text: string, fileName: string) {
+    let json: any;
+    try {
+      json = JSON.parse(text);
+    } catch (e) {
+      return false;
+    }
+    if (!isProjectFile(json)) return false;
+    if (!this.canEdit) return true;
+    try {
+      const project = importProject(json);
+      await this.saveProject();
+      this.loadProject(project);
+      await this.saveProject();
+      this.addMessage(
+        'SYSTEM',
+        `Project <strong>${escapeHtml(
+          project.name,
+        )}</strong> imported from <strong>${escapeHtml(fileName)}</strong>.`,
+      );
+    } catch (err) {
+      console.error('Error importing the project:', err);
+      this.addMessage(
+        'ERROR',
+        `Failed to import the project from <strong>${escapeHtml(
+          fileName,
+        )}</strong>. ${err instanceof Error ? escapeHtml(err.message) : ''}`,
+      );
+    }
+    return true;
+  }
+
+  // --- Graph Logic ---
+  private replaceActiveGraph(graph: BlueprintGraph) {
+    const active = this.blueprintData;
+    this.asset = {
+      ...this.asset,
+      graphs: this.asset.graphs.map((g) => (g === active ? graph : g)),
+    };
+  }
+
+  private openGraphAction(name: string) {
+    if (name === this.activeGraphName) return;
+    this.graphViews.set(this.activeGraphName, this.view);
+    this.activeGraphName = name;
+    this.selectedNodeIds = [];
+    this.highlightedIssue = null;
+    this.pendingWire = null;
+    this.contextMenu = null;
+    this.nodeEditor = null;
+    if (this.graphViews.has(name)) {
+      this.view = this.graphViews.get(name);
+    } else {
+      this.zoomToFitAction();
+    }
+  }
+
+  private addGraphAction(kind: GraphKind) {
+    if (!this.canEdit) return;
+    if (!this.asset) this.asset = createAsset();
+    const graph = createGraph(this.asset, kind);
+    this.asset = {...this.asset, graphs: [...this.asset.graphs, graph]};
+    this.openGraphAction(graph.name);
+    this.commitGraphEdit(`Add ${kind} ${graph.name}`);
+  }
+
+  private deleteGraphAction(name: string) {
+    if (!this.canEdit || !this.asset || name === EVENT_GRAPH) return;
+    this.asset = {
+      ...this.asset,
+      graphs: this.asset.graphs.filter((g) => g.name !== name),
+    };
+    if (name === this.activeGraphName) {
+      this.openGraphAction(this.asset.graphs[0].name);
+    }
+    this.commitGraphEdit(`Delete ${name}`);
+  }
+
+  // --- Patch Logic ---
+  private acceptPatchAction() {
+    const preview = this.patchPreview;
+    if (!preview) return;
+    this.patchPreview = null;
+    this.setBlueprintAsset(preview.asset, preview.label);
+  }
+
+  private rejectPatchAction() {
+    if (!this.patchPreview) return;
+    this.patchPreview = null;
+    this.contextNotes.push(
+      'I rejected the edits from your last answer, so the blueprint is unchanged.',
+    );
+  }
+
+  // --- Timeline Logic ---
+  private checkoutSnapshotAction(snapshot: Snapshot) {
+    if (!this.canEdit) return;
+    this.asset = JSON.parse(snapshot.json);
+    if (!findGraph(this.asset, this.activeGraphName)) {
+      this.openGraphAction(this.asset.graphs[0].name);
+    }
+    this.selectedNodeIds = [];
+    this.highlightedIssue = null;
+    this.commitGraphEdit(`Check out #${snapshot.id} ${snapshot.label}`);
+  }
+
+  private toggleCompareAction(id: number) {
+    this.compareIds = this.compareIds.includes(id)
+      ? this.compareIds.filter((i) => i !== id)
+      : [...this.compareIds, id].slice(-2);
+  }
+
+  private compareAction() {
+    const [before, after] = this.compareIds
+      .slice()
+      .sort((a, b) => a - b)
+      .map((id) => this.timeline.find(id));
+    if (!before || !after) return;
+    const changes = diffAssets(JSON.parse(before.json), JSON.parse(after.json));
+    const active = changes.find((c) => c.graph === this.activeGraphName);
+    this.comparison = {
+      before,
+      after,
+      changes,
+      graph: (active ?? changes[0])?.graph ?? this.activeGraphName,
+    };
+    this.contextMenu = null;
+    this.nodeEditor = null;
+  }
+
+  // --- Simulation Logic ---
+  /**
+   * Starts a run at an event or entry node of the graph on screen. Variables
+   * keep the values of the previous run, so BeginPlay can set things up for
+   * the event simulated next.
+   */
+  private simulateAction(nodeId: string) {
+    this.contextMenu = null;
+    if (!this.asset) return;
+    this.simulation = {
+      simulator: new Simulator(this.asset, this.activeGraphName, nodeId, {
+        variables: this.simulation?.simulator.variables,
+      }),
+      graph: this.activeGraphName,
+      startNodeId: nodeId,
+      revision: this.committedGraph,
+    };
+    this.selectedChatTab = ChatTab.DEBUG;
+  }
+
+  /** Runs the same event again with the variables' default values. */
+  private restartSimulationAction() {
+    const run = this.simulation;
+    if (!run || !this.asset) return;
+    if (!findGraph(this.asset, run.graph)) {
+      this.simulation = null;
+      return;
+    }
+    this.simulation = {
+      ...run,
+      simulator: new Simulator(this.asset, run.graph, run.startNodeId),
+      revision: this.committedGraph,
+    };
+  }
+
+  private stepSimulationAction() {
+    this.simulation?.simulator.step();
+    this.requestUpdate();
+  }
+
+  private continueSimulationAction() {
+    const run = this.simulation;
+    if (!run) return;
+    run.simulator.run((id) =>
+      this.breakpoints.includes(breakpointKey(run.graph, id)),
+    );
+    this.requestUpdate();
+  }
+
+  private toggleBreakpointAction(nodeId: string) {
+    this.contextMenu = null;
+    const key = breakpointKey(this.activeGraphName, nodeId);
+    this.breakpoints = this.breakpoints.includes(key)
+      ? this.breakpoints.filter((k) => k !== key)
+      : [...this.breakpoints, key];
+  }
+
+  /** Opens the simulated graph and focuses the node that runs next. */
+  private showSimulationNodeAction() {
+    const run = this.simulation;
+    if (!run?.simulator.currentNodeId) return;
+    this.openGraphAction(run.graph);
+    this.selectedNodeIds = [run.simulator.currentNodeId];
+    this.focusSelectionAction();
+  }
+
+  // --- History Logic ---
+  private recordHistory(label: string, group?: string) {
+    const graph = JSON.stringify(this.asset ?? createAsset());
+    this.history.push(label, this.committedGraph, graph, group);
+    this.timeline.record(label, graph, group);
+    this.committedGraph = graph;
+    this.scheduleSave();
+    this.requestUpdate();
+  }
+
+  private restoreGraph(json: string, label: string, note: string) {
+    this.timeline.record(label, json);
+    this.asset = JSON.parse(json);
+    if (!findGraph(this.asset, this.activeGraphName)) {
+      this.openGraphAction(this.asset.graphs[0].name);
+    }
+    this.blueprintJsonString = JSON.stringify(this.asset, null, 2);
+    this.committedGraph = json;
+    this.highlightedIssue = null;
+    this.selectedNodeIds = [];
+    // The model still assumes its last answer is on screen.
+    this.dataHasChanged = true;
+    this.contextNotes.push(note);
+    this.scheduleSave();
+  }
+
+  private undoAction() {
+    if (!this.canEdit) return;
+    const command = this.history.undo();
+    if (!command) return;
+    this.restoreGraph(
+      command.before,
+      `Undo ${command.label}`,
+      `I undid "${command.label}", so the blueprint is back to an earlier version.`,
+    );
+  }
+
+  private redoAction() {
+    if (!this.canEdit) return;
+    const command = this.history.redo();
+    if (!command) return;
+    this.restoreGraph(
+      command.after,
+      `Redo ${command.label}`,
+      `I redid "${command.label}", so the blueprint changed again.`,
+    );
+  }
+
+  // --- Drag and Drop Logic ---
+  private handleDragStart(e: MouseEvent, node: BlueprintNode) {
+    if (e.button !== 0 || this.reviewing) return;
+    e.preventDefault();
+    e.stopPropagation();
+    if (e.shiftKey) {
+      this.selectedNodeIds = this.selectedNodeIds.includes(node.id)
+        ? this.selectedNodeIds.filter((id) => id !== node.id)
+        : [...this.selectedNodeIds, node.id];
+    } else if (!this.selectedNodeIds.includes(node.id)) {
+      this.selectedNodeIds = [node.id];
+    }
+    this.selectedNode = node;
+    // The viewport group's CTM includes pan and zoom, so this maps the pointer
+    // to graph coordinates at every zoom level.
+    const CTM = this.viewport.getScreenCTM();
+    this.dragOffset = {
+      x: (e.clientX - CTM.e) / CTM.a - node.x,
+      y: (e.clientY - CTM.f) / CTM.d - node.y,
+    };
+    this.dragging = true;
+  }
+
+  /**
+   * Starts moving a comment box, along with the nodes inside it, or
+   * resizing it when `resize` is set.
+   */
+  private handleCommentDragStart(
+    e: MouseEvent,
+    comment: BlueprintComment,
+    resize = false,
+  ) {
+    if (e.button !== 0 || !this.canEdit) return;
+    e.preventDefault();
+    e.stopPropagation();
+    this.contextMenu = null;
+    const items = resize
+      ? []
+      : [comment, ...commentedNodes(comment, this.blueprintData.nodes)];
+    this.startBoxDrag(e, items, {
+      label: resize ? 'Resize comment' : 'Move comment',
+      resize: resize
+        ? {comment, width: comment.width, height: comment.height}
+        : undefined,
+    });
+  }
+
+  private handleGroupDragStart(e: MouseEvent, group: BlueprintGroup) {
+    if (e.button !== 0 || !this.canEdit) return;
+    e.preventDefault();
+    e.stopPropagation();
+    this.contextMenu = null;
+    const nodes = this.blueprintData.nodes.filter((n) =>
+      group.nodeIds.includes(n.id),
+    );
+    this.selectedNodeIds = nodes.map((n) => n.id);
+    this.startBoxDrag(e, nodes, {label: 'Move group'});
+  }
+
+  private startBoxDrag(
+    e: MouseEvent,
+    items: Array<{x: number; y: number}>,
+    options: Pick<BoxDrag, 'label' | 'resize'>,
+  ) {
+    this.boxDrag = {
+      ...options,
+      start: this.toGraphPoint(e),
+      items: items.map((item) => ({item, x: item.x, y: item.y})),
+      moved: false,
+    };
+  }
+
+  private handleDragMove(e: MouseEvent) {
+    if (this.boxDrag) {
+      e.preventDefault();
+      const drag = this.boxDrag;
+      const point = this.toGraphPoint(e);
+      const dx = Math.round(point.x - drag.start.x);
+      const dy = Math.round(point.y - drag.start.y);
+      if (dx || dy) drag.moved = true;
+      for (const {item, x, y} of drag.items) {
+        item.x = x + dx;
+        item.y = y + dy;
+      }
+      if (drag.resize) {
+        const {comment, width, height} = drag.resize;
+        comment.width = Math.max(COMMENT_MIN_SIZE, width + dx);
+        comment.height = Math.max(COMMENT_MIN_SIZE, height + dy);
+      }
+      this.requestUpdate();
+    } else if (this.dragging && this.selectedNode) {
+      e.preventDefault();
+      const CTM = this.viewport.getScreenCTM();
+      const newX = (e.clientX - CTM.e) / CTM.a - this.dragOffset.x;
+      const newY = (e.clientY - CTM.f) / CTM.d - this.dragOffset.y;
+      this.selectedNode.x = Math.round(newX);
+      this.selectedNode.y = Math.round(newY);
+      this.requestUpdate();
+    } else if (this.panning) {
+      e.preventDefault();
+      const dx = e.clientX - this.panStart.x;
+      const dy = e.clientY - this.panStart.y;
+      if (Math.abs(dx) + Math.abs(dy) > 2) this.panMoved = true;
+      this.panStart = {x: e.clientX, y: e.clientY};
+      this.view = {...this.view, x: this.view.x + dx, y: this.view.y + dy};
+    } else if (this.minimapDragging) {
+      e.preventDefault();
+      this.minimapNavigate(e);
+    } else if (this.pendingWire) {
+      this.pendingWire = {...this.pendingWire, pointer: this.toGraphPoint(e)};
+    }
+  }
+
+  private handleDragEnd(e: MouseEvent) {
+    if (this.boxDrag) {
+      e.preventDefault();
+      if (this.boxDrag.moved) this.commitGraphEdit(this.boxDrag.label);
+      this.boxDrag = null;
+    }
+    if (this.dragging) {
+      e.preventDefault();
+      this.dragging = false;
+      this.selectedNode = null;
+      // Update the JSON string after dragging is finished
+      this.commitGraphEdit('Move node');
+    }
+    this.panning = false;
+    this.minimapDragging = false;
+    this.pendingWire = null;
+  }
+
+  /**
+   * Syncs the JSON editor after a change made directly on the canvas and
+   * records it in the undo history.
+   */
+  private commitGraphEdit(label: string) {
+    this.blueprintJsonString = JSON.stringify(this.asset, null, 2);
+    this.dataHasChanged = true;
+    this.recordHistory(label);
+  }
+
+  private toGraphPoint(e: MouseEvent) {
+    const CTM = this.viewport.getScreenCTM();
+    return {
+      x: (e.clientX - CTM.e) / CTM.a,
+      y: (e.clientY - CTM.f) / CTM.d,
+    };
+  }
+
+  // --- Editing Logic ---
+  private get canEdit() {
+    return this.chatState === ChatState.IDLE && !this.reviewing;
+  }
+
+  /** True while the canvas shows edits or snapshots rather than the graph. */
+  private get reviewing() {
+    return !!this.patchPreview || !!this.comparison;
+  }
+
+  private handlePortMouseDown(
+    e: MouseEvent,
+    node: BlueprintNode,
+    port: string,
+    isInput: boolean,
+  ) {
+    if (e.button !== 0 || !this.canEdit) return;
+    e.preventDefault();
+    e.stopPropagation();
+    this.wireError = null;
+    this.pendingWire = {
+      nodeId: node.id,
+      port,
+      isInput,
+      pointer: this.toGraphPoint(e),
+    };
+  }
+
+  private handlePortMouseUp(node: BlueprintNode, port: string, isInput: boolean) {
+    const wire = this.pendingWire;
+    if (!wire || wire.isInput === isInput || wire.nodeId === node.id) return;
+    const source = this.blueprintData.nodes.find((n) => n.id === wire.nodeId);
+    if (!source) return;
+
+    const [fromNode, fromPort, toNode, toPort] = wire.isInput
+      ? [node, port, source, wire.port]
+      : [source, wire.port, node, port];
+    const fromPin = findPin(fromNode, fromPort, false);
+    const toPin = findPin(toNode, toPort, true);
+    if (!fromPin || !toPin) return;
+    const error = pinConnectionError(fromPin, toPin);
+    if (error) {
+      this.pendingWire = null;
+      this.wireError = error;
+      return;
+    }
+    const type = fromPin.category === 'exec' ? 'exec' : 'data';
+
+    // Like Unreal, a data input takes one source and an exec output drives
+    // one node, so the new wire replaces an existing one.
+    this.blueprintData.connections = this.blueprintData.connections.filter(
+      (c) =>
+        !(type === 'data' && c.to === toNode.id && c.toPort === toPort) &&
+        !(type === 'exec' && c.from === fromNode.id && c.fromPort === fromPort),
+    );
+    this.blueprintData.connections.push({
+      from: fromNode.id,
+      to: toNode.id,
+      fromPort,
+      toPort,
+      type,
+    });
+    this.pendingWire = null;
+    this.commitGraphEdit('Connect pins');
+  }
+
+  private setDefaultValueAction(
+    node: BlueprintNode,
+    pin: BlueprintPin,
+    value: string,
+  ) {
+    if (!this.canEdit || value === (pin.defaultValue ?? '')) return;
+    if (value === '') {
+      delete pin.defaultValue;
+    } else {
+      pin.defaultValue = value;
+    }
+    this.highlightedIssue = null;
+    this.commitGraphEdit('Edit default value');
+  }
+
+  private handleConnectionClick(e: MouseEvent, conn: BlueprintConnection) {
+    if (!e.altKey || !this.canEdit) return;
+    e.preventDefault();
+    e.stopPropagation();
+    this.blueprintData.connections = this.blueprintData.connections.filter(
+      (c) => c !== conn,
+    );
+    this.highlightedIssue = null;
+    this.commitGraphEdit('Delete wire');
+  }
+
+  private deleteNodesAction(ids: string[]) {
+    if (!this.blueprintData || !this.canEdit) return;
+    // Like in Unreal, a function or macro always keeps its entry node.
+    ids = ids.filter(
+      (id) => this.blueprintData.nodes.find((n) => n.id === id)?.type !== 'entry',
+    );
+    if (!ids.length) return;
+    this.blueprintData.nodes = this.blueprintData.nodes.filter(
+      (n) => !ids.includes(n.id),
+    );
+    this.blueprintData.connections = this.blueprintData.connections.filter(
+      (c) => !ids.includes(c.from) && !ids.includes(c.to),
+    );
+    this.pruneGroups((id) => !ids.includes(id));
+    this.selectedNodeIds = this.selectedNodeIds.filter((id) => !ids.includes(id));
+    this.highlightedIssue = null;
+    this.commitGraphEdit(ids.length === 1 ? 'Delete node' : 'Delete nodes');
+  }
+
+  /** First free id of the form node_N in the graph on screen. */
+  private nextNodeId() {
+    return nextId('node', this.blueprintData.nodes);
+  }
+
+  private openNodeEditor(type: string, nodeId?: string) {
+    const menu = this.contextMenu;
+    this.contextMenu = null;
+    const node = this.blueprintData?.nodes.find((n) => n.id === nodeId);
+    this.nodeEditor = node
+      ? {
+          nodeId: node.id,
+          type: node.type,
+          label: node.label,
+          inputs: node.inputs.map(pinSpec).join('\n'),
+          outputs: node.outputs.map(pinSpec).join('\n'),
+          x: node.x,
+          y: node.y,
+        }
+      : {
+          type,
+          label: '',
+          inputs: type === 'event' ? '' : 'Exec: exec',
+          outputs: 'Exec: exec',
+          x: Math.round(menu?.graphX ?? 0),
+          y: Math.round(menu?.graphY ?? 0),
+        };
+  }
+
+  private saveNodeEditorAction() {
+    const editor = this.nodeEditor;
+    if (!editor || !editor.label.trim() || !this.canEdit) return;
+    let inputs: BlueprintPin[];
+    let outputs: BlueprintPin[];
+    try {
+      inputs = parsePinSpecs(editor.inputs, 'input');
+      outputs = parsePinSpecs(editor.outputs, 'output');
+    } catch (e) {
+      this.nodeEditor = {...editor, error: (e as Error).message};
+      return;
+    }
+    if (!this.asset) this.asset = createAsset();
+
+    const existing = this.blueprintData.nodes.find(
+      (n) => n.id === editor.nodeId,
+    );
+    if (existing) {
+      existing.label = editor.label.trim();
+      existing.type = editor.type;
+      existing.inputs = inputs;
+      existing.outputs = outputs;
+      // Drop wires whose pins were renamed or removed.
+      this.blueprintData.connections = this.blueprintData.connections.filter(
+        (c) =>
+          (c.from !== existing.id ||
+            outputs.some((p) => p.name === c.fromPort)) &&
+          (c.to !== existing.id || inputs.some((p) => p.name === c.toPort)),
+      );
+      // Editing the entry or return node changes the function's signature.
+      if (existing.type === 'entry' || existing.type === 'return') {
+        this.replaceActiveGraph(
+          syncGraphSignature(signatureFromNodes(this.blueprintData)),
+        );
+      }
+    } else {
+      const id = this.nextNodeId();
+      this.blueprintData.nodes.push({
+        id,
+        label: editor.label.trim(),
+        type: editor.type,
+        x: editor.x,
+        y: editor.y,
+        inputs,
+        outputs,
+      });
+      this.selectedNodeIds = [id];
+    }
+    this.nodeEditor = null;
+    this.commitGraphEdit(existing ? 'Edit node' : 'Add node');
+  }
+
+  /** Adds a node from the catalog where the canvas menu was opened. */
+  private addCatalogNodeAction(entry: CatalogEntry) {
+    const menu = this.contextMenu;
+    this.contextMenu = null;
+    if (!menu || !this.canEdit) return;
+    if (!this.asset) this.asset = createAsset();
+    const node = catalogNode(
+      entry,
+      this.nextNodeId(),
+      Math.round(menu.graphX),
+      Math.round(menu.graphY),
+    );
+    this.blueprintData.nodes.push(node);
+    this.selectedNodeIds = [node.id];
+    this.commitGraphEdit(`Add ${node.label}`);
+  }
+
+  // --- Annotation Logic ---
+  /**
+   * Adds a comment box around the selected nodes, or at `point` when
+   * nothing is selected, and starts editing its title.
+   */
+  private addCommentAction(point?: {x: number; y: number}) {
+    this.contextMenu = null;
+    if (!this.blueprintData || !this.canEdit) return;
+    const selected = this.blueprintData.nodes.filter((n) =>
+      this.selectedNodeIds.includes(n.id),
+    );
+    const visible = visibleBounds(this.view, this.canvasSize);
+    const at = point ?? {x: visible.x + visible.width / 2, y: visible.y + 100};
+    const box = commentBox(selected) ?? {
+      x: Math.round(at.x),
+      y: Math.round(at.y),
+      width: 400,
+      height: 200,
+    };
+    const comments = this.blueprintData.comments ?? [];
+    const id = nextId('comment', comments);
+    this.blueprintData.comments = [
+      ...comments,
+      {id, title: 'Comment', ...box, color: COMMENT_COLORS[0]},
+    ];
+    this.renaming = {kind: 'comment', id};
+    this.commitGraphEdit('Add comment');
+  }
+
+  private setCommentColorAction(id: string, color: string) {
+    this.contextMenu = null;
+    const comment = this.blueprintData?.comments?.find((c) => c.id === id);
+    if (!comment || !this.canEdit || comment.color === color) return;
+    comment.color = color;
+    this.commitGraphEdit('Color comment');
+  }
+
+  private deleteCommentAction(id: string) {
+    this.contextMenu = null;
+    if (!this.blueprintData?.comments || !this.canEdit) return;
+    this.blueprintData.comments = this.blueprintData.comments.filter(
+      (c) => c.id !== id,
+    );
+    if (!this.blueprintData.comments.length) delete this.blueprintData.comments;
+    this.commitGraphEdit('Delete comment');
+  }
+
+  /** Applies the title typed on the canvas to a comment box or group. */
+  private renameAction(title: string) {
+    const renaming = this.renaming;
+    this.renaming = null;
+    if (!renaming || !this.blueprintData || !this.canEdit) return;
+    const list =
+      renaming.kind === 'comment'
+        ? this.blueprintData.comments
+        : this.blueprintData.groups;
+    const item = list?.find((c) => c.id === renaming.id);
+    title = title.trim();
+    if (!item || !title || title === item.title) return;
+    item.title = title;
+    this.commitGraphEdit(
+      renaming.kind === 'comment' ? 'Rename comment' : 'Rename group',
+    );
+  }
+
+  /** Puts the selected nodes in a new group, taking them out of others. */
+  private groupSelectionAction() {
+    this.contextMenu = null;
+    const ids = this.selectedNodeIds.filter((id) =>
+      this.blueprintData?.nodes.some((n) => n.id === id),
+    );
+    if (!ids.length || !this.canEdit) return;
+    this.pruneGroups((id) => !ids.includes(id));
+    const groups = this.blueprintData.groups ?? [];
+    const id = nextId('group', groups);
+    this.blueprintData.groups = [...groups, {id, title: 'Group', nodeIds: ids}];
+    this.renaming = {kind: 'group', id};
+    this.commitGraphEdit('Group nodes');
+  }
+
+  private toggleGroupAction(id: string) {
+    this.contextMenu = null;
+    const group = this.blueprintData?.groups?.find((g) => g.id === id);
+    if (!group || !this.canEdit) return;
+    if (group.collapsed) {
+      delete group.collapsed;
+    } else {
+      group.collapsed = true;
+      this.selectedNodeIds = this.selectedNodeIds.filter(
+        (nodeId) => !group.nodeIds.includes(nodeId),
+      );
+    }
+    this.commitGraphEdit(group.collapsed ? 'Collapse group' : 'Expand group');
+  }
+
+  private ungroupAction(id: string) {
+    this.contextMenu = null;
+    if (!this.blueprintData?.groups || !this.canEdit) return;
+    this.blueprintData.groups = this.blueprintData.groups.filter(
+      (g) => g.id !== id,
+    );
+    if (!this.blueprintData.groups.length) delete this.blueprintData.groups;
+    this.commitGraphEdit('Ungroup nodes');
+  }
+
+  /** Keeps the group members `keep` accepts and drops emptied groups. */
+  private pruneGroups(keep: (nodeId: string) => boolean) {
+    const groups = (this.blueprintData.groups ?? [])
+      .map((g) => ({...g, nodeIds: g.nodeIds.filter(keep)}))
+      .filter((g) => g.nodeIds.length);
+    if (groups.length) {
+      this.blueprintData.groups = groups;
+    } else {
+      delete this.blueprintData.groups;
+    }
+  }
+
+  /** Splits a wire with a reroute node where it was double-clicked. */
+  private insertRerouteAction(e: MouseEvent, conn: BlueprintConnection) {
+    if (!this.canEdit) return;
+    e.preventDefault();
+    e.stopPropagation();
+    const graph = this.blueprintData;
+    const from = graph.nodes.find((n) => n.id === conn.from);
+    const pin = from && findPin(from, conn.fromPort, false);
+    if (!pin) return;
+    const {name, direction, defaultValue, ...type} = pin;
+    const point = this.toGraphPoint(e);
+    const node = rerouteNode(
+      type,
+      this.nextNodeId(),
+      Math.round(point.x - REROUTE_SIZE / 2),
+      Math.round(point.y - REROUTE_SIZE / 2),
+    );
+    graph.nodes.push(node);
+    graph.connections = graph.connections.flatMap((c) =>
+      c === conn
+        ? [
+            {...conn, to: node.id, toPort: node.inputs[0].name},
+            {...conn, from: node.id, fromPort: node.outputs[0].name},
+          ]
+        : [c],
+    );
+    this.highlightedIssue = null;
+    this.commitGraphEdit('Add reroute node');
+  }
+
+  // --- Variable Logic ---
+  private addVariableAction() {
+    if (!this.canEdit) return;
+    if (!this.asset) this.asset = createAsset();
+    const names = new Set(this.asset.variables.map((v) => v.name));
+    let name = 'NewVar';
+    for (let i = 2; names.has(name); i++) name = `NewVar_${i}`;
+    this.asset = {
+      ...this.asset,
+      variables: [...this.asset.variables, {name, type: {category: 'bool'}}],
+    };
+    this.selectedVariable = name;
+    this.commitGraphEdit('Add variable');
+  }
+
+  private deleteVariableAction(name: string) {
+    if (!this.canEdit) return;
+    this.asset = {
+      ...this.asset,
+      variables: this.asset.variables.filter((v) => v.name !== name),
+    };
+    if (this.selectedVariable === name) this.selectedVariable = null;
+    this.commitGraphEdit(`Delete variable ${name}`);
+  }
+
+  private updateVariableAction(
+    name: string,
+    changes: Partial<BlueprintVariable>,
+  ) {
+    if (!this.canEdit) return;
+    if (changes.name !== undefined) {
+      changes.name = changes.name.trim();
+      const taken = this.asset.variables.some((v) => v.name === changes.name);
+      // Keep the old name rather than merge two variables.
+      if (!changes.name || (taken && changes.name !== name)) {
+        this.requestUpdate();
+        return;
+      }
+    }
+    this.asset = updateVariable(this.asset, name, changes);
+    if (changes.name) this.selectedVariable = changes.name;
+    this.highlightedIssue = null;
+    this.commitGraphEdit(
+      changes.name && changes.name !== name
+        ? `Rename ${name} to ${changes.name}`
+        : `Edit variable ${name}`,
+    );
+  }
+
+  private handleCanvasDragOver(e: DragEvent) {
+    if (e.dataTransfer.types.includes(VARIABLE_DRAG_TYPE) && this.canEdit) {
+      e.preventDefault();
+      e.dataTransfer.dropEffect = 'copy';
+    }
+  }
+
+  /**
+   * Dropping a variable asks whether to get or set it, unless Ctrl (get) or
+   * Alt (set) is held, as in Unreal.
+   */
+  private handleCanvasDrop(e: DragEvent) {
+    const name = e.dataTransfer.getData(VARIABLE_DRAG_TYPE);
+    if (!name || !this.canEdit) return;
+    e.preventDefault();
+    const point = this.toGraphPoint(e);
+    if (e.ctrlKey || e.altKey) {
+      this.addVariableNodeAction(name, e.ctrlKey ? 'get' : 'set', point);
+      return;
+    }
+    const rect = this.blueprintCanvas.getBoundingClientRect();
+    this.contextMenu = {
+      x: e.clientX - rect.left,
+      y: e.clientY - rect.top,
+      graphX: point.x,
+      graphY: point.y,
+      variable: name,
+    };
+  }
+
+  private addVariableNodeAction(
+    name: string,
+    access: 'get' | 'set',
+    point: {x: number; y: number},
+  ) {
+    this.contextMenu = null;
+    const variable = this.asset?.variables.find((v) => v.name === name);
+    if (!variable || !this.canEdit) return;
+    const node = variableNode(
+      variable,
+      access,
+      this.nextNodeId(),
+      Math.round(point.x),
+      Math.round(point.y),
+    );
+    this.blueprintData.nodes.push(node);
+    this.selectedNodeIds = [node.id];
+    this.commitGraphEdit(`Add ${node.label}`);
+  }
+
+  // --- Viewport Logic ---
+  private handleCanvasMouseDown(e: MouseEvent) {
+    this.contextMenu = null;
+    // Right or middle button pans, like in the Unreal editor.
+    if (e.button === 1 || e.button === 2) {
+      e.preventDefault();
+      this.panning = true;
+      this.panMoved = false;
+      this.panStart = {x: e.clientX, y: e.clientY};
+    } else if (e.button === 0) {
+      this.selectedNodeIds = [];
+    }
+  }
+
+  private handleCanvasContextMenu(e: MouseEvent) {
+    e.preventDefault();
+    // A right-drag pan shouldn't end with a menu.
+    if (this.panMoved || !this.canEdit) return;
+    const rect = this.blueprintCanvas.getBoundingClientRect();
+    const point = this.toGraphPoint(e);
+    const target = e.target as Element;
+    this.paletteQuery = '';
+    const attribute = (name: string) =>
+      target.closest(`[${name}]`)?.getAttribute(name) ?? undefined;
+    this.contextMenu = {
+      x: e.clientX - rect.left,
+      y: e.clientY - rect.top,
+      graphX: point.x,
+      graphY: point.y,
+      nodeId: attribute('data-node-id'),
+      commentId: attribute('data-comment-id'),
+      groupId: attribute('data-group-id'),
+    };
+  }
+
+  private handleCanvasWheel(e: WheelEvent) {
+    e.preventDefault();
+    const rect = this.blueprintCanvas.getBoundingClientRect();
+    const point = {x: e.clientX - rect.left, y: e.clientY - rect.top};
+    this.view = zoomAt(this.view, point, Math.exp(-e.deltaY * 0.0015));
+  }
+
+  private handleCanvasKeyDown(e: KeyboardEvent) {
+    const target = e.target as HTMLElement;
+    if (target.closest('input, textarea, [contenteditable]')) return;
+    if ((e.ctrlKey || e.metaKey) && ['z', 'y'].includes(e.key.toLowerCase())) {
+      e.preventDefault();
+      if (e.key.toLowerCase() === 'y' || e.shiftKey) {
+        this.redoAction();
+      } else {
+        this.undoAction();
+      }
+      return;
+    }
+    if (e.key === 'Escape') {
+      this.contextMenu = null;
+      this.nodeEditor = null;
+      return;
+    }
+    if (e.ctrlKey || e.metaKey || e.altKey) return;
+    if (e.key === 'Delete') {
+      this.deleteNodesAction(this.selectedNodeIds);
+    } else if (e.key === 'f' || e.key === 'F') {
+      this.focusSelectionAction();
+    } else if ((e.key === 'c' || e.key === 'C') && this.selectedNodeIds.length) {
+      this.addCommentAction();
+    } else if (e.key === 'Home') {
+      this.zoomToFitAction();
+    } else if (e.key === 'F9') {
+      e.preventDefault();
+      this.selectedNodeIds.forEach((id) => this.toggleBreakpointAction(id));
+    } else if (e.key === 'F10' && this.simulation) {
+      e.preventDefault();
+      this.stepSimulationAction();
+    }
+  }
+
+  private zoomAction(factor: number) {
+    const center = {
+      x: this.canvasSize.width / 2,
+      y: this.canvasSize.height / 2,
+    };
+    this.view = zoomAt(this.view, center, factor);
+  }
+
+  private zoomToFitAction() {
+    const bounds = this.blueprintData && graphBounds(this.blueprintData);
+    if (bounds) this.view = fitView(bounds, this.canvasSize);
+  }
+
+  private focusSelectionAction() {
+    const selected = (this.blueprintData?.nodes ?? []).filter((n) =>
+      this.selectedNodeIds.includes(n.id),
+    );
+    if (!selected.length) {
+      this.zoomToFitAction();
+      return;
+    }
+    this.view = fitView(nodeBounds(selected), this.canvasSize, 120);
+  }
+
+  private minimapNavigate(e: MouseEvent) {
+    const CTM = this.minimap.getScreenCTM();
+    const center = {
+      x: (e.clientX - CTM.e) / CTM.a,
+      y: (e.clientY - CTM.f) / CTM.d,
+    };
+    this.view = centerView(this.view, center, this.canvasSize);
+  }
+
+  private selectIssueAction(issue: ValidationIssue) {
+    if (issue.graph && issue.graph !== this.activeGraphName) {
+      this.openGraphAction(issue.graph);
+    }
+    this.highlightedIssue =
+      this.highlightedIssue?.message === issue.message ? null : issue;
+  }
+
+  // --- Rendering Logic ---
+  private getPortPosition(
+    node: BlueprintNode,
+    portName: string,
+    isInput: boolean,
+  ) {
+    if (node.type === 'reroute') {
+      const x = isInput ? node.x : node.x + REROUTE_SIZE;
+      return {x, y: node.y + REROUTE_SIZE / 2};
+    }
+    const portIndex = pinIndex(node, portName, isInput);
+    const x = isInput ? node.x : node.x + NODE_WIDTH;
+    const y = node.y + portOffset(portIndex);
+    return {x, y};
+  }
+
+  /** The run to show on the canvas, if it's in the graph on screen. */
+  private get canvasSimulator() {
+    const run = this.simulation;
+    return run?.graph === this.activeGraphName ? run.simulator : null;
+  }
+
+  /**
+   * `live` is set for the main canvas, which also shows breakpoints and
+   * the simulation.
+   */
+  private renderConnections(
+    graph: BlueprintData | null,
+    diff?: GraphDiff | null,
+    live = false,
+  ): SVGTemplateResult[] {
+    if (!graph) return [];
+    const keys = (conns: BlueprintConnection[] = []) =>
+      new Set(conns.map(connectionKey));
+    const added = keys(diff?.addedConnections);
+    const removed = keys(diff?.removedConnections);
+    const simWire = live ? this.canvasSimulator?.currentConnection : null;
+    // Wires into or out of a collapsed group end at the edge of its box.
+    const hidden = collapsedNodes(graph);
+    const groupPort = (group: BlueprintGroup, isInput: boolean) => {
+      const box = collapsedGroupBox(group, graph);
+      return {x: isInput ? box.x : box.x + box.width, y: box.y + portOffset(0)};
+    };
+    return graph.connections.map((conn, index) => {
+      const fromNode = graph.nodes.find((n) => n.id === conn.from);
+      const toNode = graph.nodes.find((n) => n.id === conn.to);
+      if (!fromNode || !toNode) return svg``;
+      const fromGroup = hidden.get(conn.from);
+      const toGroup = hidden.get(conn.to);
+      if (fromGroup && fromGroup === toGroup) return svg``;
+
+      const start = fromGroup
+        ? groupPort(fromGroup, false)
+        : this.getPortPosition(fromNode, conn.fromPort, false);
+      const end = toGroup
+        ? groupPort(toGroup, true)
+        : this.getPortPosition(toNode, conn.toPort, true);
+      const pathData = this.wirePath(start, end);
+
+      // Data wires take the color of the pin they carry, like in Unreal.
+      const category = findPin(fromNode, conn.fromPort, false)?.category;
+      const pathClasses = {
+        'connection-path': true,
+        [`connection-path-${conn.type}`]: true,
+        [`pin-${category}`]: conn.type === 'data' && !!category,
+        highlighted: !!this.highlightedIssue?.connections.includes(index),
+        'diff-added': added.has(connectionKey(conn)),
+        'diff-removed': removed.has(connectionKey(conn)),
+        'sim-active': !!simWire && connectionKey(simWire) === connectionKey(conn),
+      };
+
+      return svg`
+        <path d=${pathData} class=${classMap(pathClasses)} />
+        <path
+          d=${pathData}
+          class="connection-hit"
+          @click=${(e: MouseEvent) => this.handleConnectionClick(e, conn)}
+          @dblclick=${(e: MouseEvent) =>
+            live && this.insertRerouteAction(e, conn)}>
+          <title>${live
+            ? 'Alt+click to delete, double-click to add a reroute node'
+            : 'Alt+click to delete'}</title>
+        </path>
+      `;
+    });
+  }
+
+  private wirePath(
+    start: {x: number; y: number},
+    end: {x: number; y: number},
+  ) {
+    const c1x = start.x + Math.abs(end.x - start.x) * 0.7;
+    const c2x = end.x - Math.abs(end.x - start.x) * 0.7;
+    return `M ${start.x} ${start.y} C ${c1x} ${start.y}, ${c2x} ${end.y}, ${end.x} ${end.y}`;
+  }
+
+  private renderPendingWire() {
+    const wire = this.pendingWire;
+    const node = this.blueprintData?.nodes.find((n) => n.id === wire?.nodeId);
+    if (!wire || !node) return svg``;
+    const port = this.getPortPosition(node, wire.port, wire.isInput);
+    const pathData = wire.isInput
+      ? this.wirePath(wire.pointer, port)
+      : this.wirePath(port, wire.pointer);
+    return svg`<path d=${pathData} class="connection-path connection-path-pending" />`;
+  }
+
+  private renderNodes(
+    graph: BlueprintData | null,
+    diff?: GraphDiff | null,
+    live = false,
+  ): SVGTemplateResult[] {
+    if (!graph) return [];
+    const simNodeId = live ? this.canvasSimulator?.currentNodeId : null;
+    const hidden = collapsedNodes(graph);
+    const nodes = graph.nodes.filter((n) => !hidden.has(n.id));
+    const unknown = new Set(
+      live && this.asset
+        ? unknownNodes(this.asset, graph, this.catalog).map((n) => n.id)
+        : [],
+    );
+    const rendered = nodes.map((node) => {
+      const breakpoint =
+        live &&
+        this.breakpoints.includes(breakpointKey(this.activeGraphName, node.id));
+      const headerClasses = {
+        'node-header': true,
+        [`node-header-${node.type}`]: true,
+      };
+      const groupClasses = {
+        'blueprint-node-group': true,
+        highlighted: !!this.highlightedIssue?.nodeIds.includes(node.id),
+        selected: this.selectedNodeIds.includes(node.id),
+        'diff-added': !!diff?.added.includes(node.id),
+        'diff-removed': !!diff?.removed.includes(node.id),
+        'diff-changed': !!diff?.changed.includes(node.id),
+        'diff-moved': !!diff?.moved.includes(node.id),
+        'sim-active': node.id === simNodeId,
+        unknown: unknown.has(node.id),
+      };
+      const dragStart = (e: MouseEvent) => this.handleDragStart(e, node);
+
+      if (node.type === 'reroute') {
+        return svg`<g
+          class=${classMap(groupClasses)}
+          data-node-id=${node.id}
+          transform="translate(${node.x}, ${node.y})"
+          @mousedown=${dragStart}>
+          <rect
+            class="reroute-body"
+            width=${REROUTE_SIZE}
+            height=${REROUTE_SIZE}
+            rx=${REROUTE_SIZE / 2} />
+          ${node.inputs.map((pin) =>
+            this.renderPin(node, pin, 0, REROUTE_SIZE / 2),
+          )}
+          ${node.outputs.map((pin) =>
+            this.renderPin(node, pin, REROUTE_SIZE, REROUTE_SIZE / 2),
+          )}
+        </g>`;
+      }
+
+      return svg`
+        <g class=${classMap(groupClasses)} data-node-id=${node.id} transform="translate(${
+          node.x
+        }, ${node.y})" @mousedown=${dragStart}>
+          <rect class="node-body" width=${NODE_WIDTH} height=${nodeHeight(node)} rx="8" />
+          <rect class=${classMap(
+            headerClasses,
+          )} width=${NODE_WIDTH} height=${NODE_HEADER_HEIGHT} />
+          <text class="node-label" x="10" y="20">${node.label}</text>
+          ${unknown.has(node.id)
+            ? svg`<text class="node-unknown" x=${NODE_WIDTH - 20} y="20">
+                ?<title>Not in the node catalog</title>
+              </text>`
+            : ''}
+          ${breakpoint
+            ? svg`<circle class="breakpoint" cx="0" cy="0" r="7">
+                <title>Breakpoint</title>
+              </circle>`
+            : ''}
+          
+          ${node.inputs.map(
+            (pin, i) => svg`
+            ${this.renderPin(node, pin, 0, NODE_HEADER_HEIGHT + PORT_SPACING * (i + 1))}
+            <text class="node-port-label" x="12" y=${
+              NODE_HEADER_HEIGHT + PORT_SPACING * (i + 1) + 4
+            }>${pin.name}</text>
+            ${this.renderDefaultValueField(
+              graph,
+              node,
+              pin,
+              NODE_HEADER_HEIGHT + PORT_SPACING * (i + 1),
+            )}
+          `,
+          )}
+          
+          ${node.outputs.map(
+            (pin, i) => svg`
+            ${this.renderPin(
+              node,
+              pin,
+              NODE_WIDTH,
+              NODE_HEADER_HEIGHT + PORT_SPACING * (i + 1),
+            )}
+            <text class="node-port-label" text-anchor="end" x=${
+              NODE_WIDTH - 12
+            } y=${
+              NODE_HEADER_HEIGHT + PORT_SPACING * (i + 1) + 4
+            }>${pin.name}</text>
+          `,
+          )}
+        </g>
+      `;
+    });
+    return [...this.renderGroups(graph, live), ...rendered];
+  }
+
+  /**
+   * Expanded groups are outlined behind their nodes. Collapsed ones are
+   * drawn in place of their nodes as a single box, which can be moved.
+   */
+  private renderGroups(
+    graph: BlueprintData,
+    live: boolean,
+  ): SVGTemplateResult[] {
+    const simNodeId = live ? this.canvasSimulator?.currentNodeId : null;
+    return (graph.groups ?? []).map((group) => {
+      const members = graph.nodes.filter((n) => group.nodeIds.includes(n.id));
+      const bounds = nodeBounds(members);
+      if (!bounds) return svg``;
+      const toggle = (y: number) => svg`<text
+        class="group-toggle"
+        x="8"
+        y=${y}
+        @mousedown=${(e: MouseEvent) => e.stopPropagation()}
+        @click=${() => live && this.toggleGroupAction(group.id)}>
+        ${group.collapsed ? '▸' : '▾'}
+        <title>${group.collapsed ? 'Expand' : 'Collapse'}</title>
+      </text>`;
+
+      if (group.collapsed) {
+        const box = collapsedGroupBox(group, graph);
+        const classes = {
+          'blueprint-node-group': true,
+          'collapsed-group': true,
+          'sim-active': members.some((n) => n.id === simNodeId),
+        };
+        const portY = portOffset(0);
+        return svg`<g
+          class=${classMap(classes)}
+          data-group-id=${group.id}
+          transform="translate(${box.x}, ${box.y})"
+          @mousedown=${(e: MouseEvent) =>
+            live && this.handleGroupDragStart(e, group)}>
+          <rect
+            class="node-body"
+            width=${box.width}
+            height=${box.height}
+            rx="8" />
+          <rect
+            class="node-header node-header-group"
+            width=${box.width}
+            height=${NODE_HEADER_HEIGHT} />
+          ${toggle(20)}
+          ${this.renderTitle(
+            'group',
+            group.id,
+            group.title,
+            24,
+            20,
+            box.width,
+            live,
+          )}
+          <text class="node-port-label" x="12" y=${portY + 4}>
+            ${members.length} ${members.length === 1 ? 'node' : 'nodes'}
+          </text>
+          <circle class="port group-port" cx="0" cy=${portY} r=${PORT_RADIUS} />
+          <circle
+            class="port group-port"
+            cx=${box.width}
+            cy=${portY}
+            r=${PORT_RADIUS} />
+        </g>`;
+      }
+
+      const pad = 12;
+      const width = bounds.width + pad * 2;
+      return svg`<g
+        class="group-outline"
+        data-group-id=${group.id}
+        transform="translate(${bounds.x - pad}, ${bounds.y - pad - 24})">
+        <rect
+          class="group-outline-box"
+          width=${width}
+          height=${bounds.height + pad * 2 + 24}
+          rx="10" />
+        ${toggle(17)}
+        ${this.renderTitle('group', group.id, group.title, 24, 17, width, live)}
+      </g>`;
+    });
+  }
+
+  /**
+   * Comment boxes, drawn behind the wires and nodes. On the main canvas
+   * they can be moved by their title bar and resized by their corner.
+   */
+  private renderComments(
+    graph: BlueprintData | null,
+    live = false,
+  ): SVGTemplateResult[] {
+    return (graph?.comments ?? []).map(
+      (comment) => svg`<g
+        class="comment-box"
+        data-comment-id=${comment.id}
+        style=${comment.color ? `--comment-color: ${comment.color}` : ''}
+        transform="translate(${comment.x}, ${comment.y})">
+        <rect
+          class="comment-body"
+          width=${comment.width}
+          height=${comment.height} />
+        <g
+          @mousedown=${(e: MouseEvent) =>
+            live && this.handleCommentDragStart(e, comment)}>
+          <rect
+            class="comment-header"
+            width=${comment.width}
+            height=${COMMENT_HEADER_HEIGHT} />
+          ${this.renderTitle(
+            'comment',
+            comment.id,
+            comment.title,
+            10,
+            20,
+            comment.width,
+            live,
+          )}
+        </g>
+        ${live
+          ? svg`<path
+              class="comment-resize"
+              d="M ${comment.width} ${comment.height - 14} L ${comment.width} ${
+                comment.height
+              } L ${comment.width - 14} ${comment.height} Z"
+              @mousedown=${(e: MouseEvent) =>
+                this.handleCommentDragStart(e, comment, true)} />`
+          : ''}
+      </g>`,
+    );
+  }
+
+  /**
+   * The title of a comment box or group. Double-clicking it turns it into
+   * a text field until Enter is pressed or it loses focus.
+   */
+  private renderTitle(
+    kind: 'comment' | 'group',
+    id: string,
+    title: string,
+    x: number,
+    y: number,
+    width: number,
+    live: boolean,
+  ) {
+    const renaming =
+      live && this.renaming?.kind === kind && this.renaming.id === id;
+    if (!renaming) {
+      return svg`<text
+        class="${kind}-title"
+        x=${x}
+        y=${y}
+        @dblclick=${(e: MouseEvent) => {
+          if (!live || !this.canEdit) return;
+          e.stopPropagation();
+          this.renaming = {kind, id};
+        }}>${title}</text>`;
+    }
+    return svg`<foreignObject
+      class="title-editor"
+      x=${x - 4}
+      y=${y - 16}
+      width=${Math.max(120, width - x - 8)}
+      height="22"
+      @mousedown=${(e: MouseEvent) => e.stopPropagation()}>
+      ${html`<input
+        type="text"
+        .value=${title}
+        @blur=${(e: Event) =>
+          this.renameAction((e.target as HTMLInputElement).value)}
+        @keydown=${(e: KeyboardEvent) => {
+          if (e.key === 'Enter') (e.target as HTMLInputElement).blur();
+          if (e.key === 'Escape') this.renaming = null;
+        }} />`}
+    </foreignObject>`;
+  }
+
+  /**
+   * Inline field for the literal an unconnected input uses, placed after
+   * the pin label like in Unreal.
+   */
+  private renderDefaultValueField(
+    graph: BlueprintData,
+    node: BlueprintNode,
+    pin: BlueprintPin,
+    y: number,
+  ) {
+    if (pin.category === 'exec' || pin.container) return svg``;
+    const connected = graph.connections.some(
+      (c) => c.to === node.id && c.toPort === pin.name,
+    );
+    if (connected) return svg``;
+
+    // Rough width of the label at 12px, since SVG text can't be measured here.
+    const x = 18 + pin.name.length * 6.5;
+    const width = Math.min(pin.category === 'bool' ? 16 : 64, NODE_WIDTH - x - 8);
+    if (width < 16) return svg``;
+    const error = defaultValueError(pin);
+    const field =
+      pin.category === 'bool'
+        ? html`<input
+            type="checkbox"
+            .checked=${pin.defaultValue?.toLowerCase() === 'true'}
+            ?disabled=${!this.canEdit}
+            @change=${(e: Event) =>
+              this.setDefaultValueAction(
+                node,
+                pin,
+                String((e.target as HTMLInputElement).checked),
+              )} />`
+        : html`<input
+            type="text"
+            class=${classMap({invalid: !!error})}
+            title=${error ?? pin.defaultValue ?? ''}
+            placeholder=${formatPinType(pin)}
+            .value=${pin.defaultValue ?? ''}
+            ?disabled=${!this.canEdit}
+            @change=${(e: Event) =>
+              this.setDefaultValueAction(
+                node,
+                pin,
+                (e.target as HTMLInputElement).value,
+              )} />`;
+    return svg`<foreignObject
+      class="pin-default"
+      x=${x}
+      y=${y - 9}
+      width=${width}
+      height="18"
+      @mousedown=${(e: MouseEvent) => e.stopPropagation()}>
+      ${field}
+    </foreignObject>`;
+  }
+
+  /**
+   * Draws a pin in the color of its category. Arrays are squares, sets and
+   * maps diamonds, and exec pins arrows, like in the Unreal editor.
+   */
+  private renderPin(node: BlueprintNode, pin: BlueprintPin, x: number, y: number) {
+    const isInput = pin.direction === 'input';
+    const classes = `port pin-${pin.category}`;
+    const r = PORT_RADIUS;
+    const handlers = {
+      down: (e: MouseEvent) =>
+        this.handlePortMouseDown(e, node, pin.name, isInput),
+      up: () => this.handlePortMouseUp(node, pin.name, isInput),
+    };
+    const title = svg`<title>${pin.name}: ${formatPinType(pin)}</title>`;
+    if (pin.category === 'exec') {
+      return svg`<path class=${classes} d="M ${x - r} ${y - r} L ${x} ${y - r} L ${
+        x + r
+      } ${y} L ${x} ${y + r} L ${x - r} ${y + r} Z"
+        @mousedown=${handlers.down} @mouseup=${handlers.up}>${title}</path>`;
+    }
+    if (pin.container === 'array') {
+      return svg`<rect class=${classes} x=${x - r} y=${y - r} width=${2 * r} height=${
+        2 * r
+      } @mousedown=${handlers.down} @mouseup=${handlers.up}>${title}</rect>`;
+    }
+    if (pin.container === 'set' || pin.container === 'map') {
+      return svg`<path class=${classes} d="M ${x} ${y - r} L ${x + r} ${y} L ${x} ${
+        y + r
+      } L ${x - r} ${y} Z"
+        @mousedown=${handlers.down} @mouseup=${handlers.up}>${title}</path>`;
+    }
+    return svg`<circle class=${classes} cx=${x} cy=${y} r=${r}
+      @mousedown=${handlers.down} @mouseup=${handlers.up}>${title}</circle>`;
+  }
+
+
+  private renderLint(issues: ValidationIssue[]) {
+    if (!issues.length) {
+      return html`<div class="lint-empty">No problems found.</div>`;
+    }
+    return html`<ul class="lint-list">
+      ${issues.map(
+        (issue) => html`<li
+          class=${classMap({
+            'lint-issue': true,
+            [`lint-${issue.severity}`]: true,
+            active: this.highlightedIssue?.message === issue.message,
+          })}
+          @click=${() => this.selectIssueAction(issue)}>
+          <span class="lint-severity">${issue.severity}</span>
+          <span>${issue.message}</span>
+          ${issue.graph && this.asset?.graphs.length > 1
+            ? html`<span class="lint-graph">${issue.graph}</span>`
+            : ''}
+        </li>`,
+      )}
+    </ul>`;
+  }
+
+  private renderContextMenu() {
+    const menu = this.contextMenu;
+    if (!menu) return html``;
+    const node = this.blueprintData?.nodes.find((n) => n.id === menu.nodeId);
+    const comment = this.blueprintData?.comments?.find(
+      (c) => c.id === menu.commentId,
+    );
+    const group = this.blueprintData?.groups?.find((g) =>
+      node ? g.nodeIds.includes(node.id) : g.id === menu.groupId,
+    );
+    const groupItems = group
+      ? html`<li @click=${() => this.toggleGroupAction(group.id)}>
+            ${group.collapsed ? 'Expand' : 'Collapse'} ${group.title}
+          </li>
+          <li
+            @click=${() => {
+              this.contextMenu = null;
+              this.renaming = {kind: 'group', id: group.id};
+            }}>
+            Rename group
+          </li>
+          <li @click=${() => this.ungroupAction(group.id)}>Ungroup</li>`
+      : '';
+    const selectionItems = html`<li
+        @click=${() =>
+          this.addCommentAction({x: menu.graphX, y: menu.graphY})}>
+        ${this.selectedNodeIds.length ? 'Comment selected nodes' : 'Add comment'}
+      </li>
+      ${this.selectedNodeIds.length
+        ? html`<li @click=${this.groupSelectionAction}>
+            Group selected nodes
+          </li>`
+        : ''}`;
+
+    // Custom nodes are offered until the palette search narrows the menu.
+    const addItems = NODE_TYPES.map(
+      (type) => html`<li @click=${() => this.openNodeEditor(type)}>
+        Add ${type.replace('_', ' ')} node
+      </li>`,
+    );
+
+    return html`<ul
+      class="context-menu"
+      style="left: ${menu.x}px; top: ${menu.y}px"
+      @mousedown=${(e: MouseEvent) => e.stopPropagation()}>
+      ${menu.variable
+        ? (['get', 'set'] as const).map(
+            (access) => html`<li
+              @click=${() =>
+                this.addVariableNodeAction(menu.variable, access, {
+                  x: menu.graphX,
+                  y: menu.graphY,
+                })}>
+              ${access === 'get' ? 'Get' : 'Set'} ${menu.variable}
+            </li>`,
+          )
+        : node
+        ? html`
+            <li @click=${() => this.openNodeEditor(node.type, node.id)}>
+              Edit ${node.label}
+            </li>
+            ${node.type === 'event' || node.type === 'entry'
+              ? html`<li @click=${() => this.simulateAction(node.id)}>
+                  Simulate from here
+                </li>`
+              : ''}
+            <li @click=${() => this.toggleBreakpointAction(node.id)}>
+              ${this.breakpoints.includes(
+                breakpointKey(this.activeGraphName, node.id),
+              )
+                ? 'Remove breakpoint'
+                : 'Add breakpoint'}
+            </li>
+            ${groupItems}
+            <li
+              @click=${() => {
+                this.contextMenu = null;
+                this.deleteNodesAction([node.id]);
+              }}>
+              Delete
+            </li>
+          `
+        : comment
+        ? html`
+            <li
+              @click=${() => {
+                this.contextMenu = null;
+                this.renaming = {kind: 'comment', id: comment.id};
+              }}>
+              Rename comment
+            </li>
+            <li class="comment-colors">
+              ${COMMENT_COLORS.map(
+                (color) => html`<button
+                  class=${classMap({
+                    'comment-color': true,
+                    selected: color === comment.color,
+                  })}
+                  style="background: ${color}"
+                  title=${color}
+                  @click=${() =>
+                    this.setCommentColorAction(comment.id, color)}></button>`,
+              )}
+            </li>
+            <li @click=${() => this.deleteCommentAction(comment.id)}>
+              Delete comment
+            </li>
+          `
+        : group
+        ? groupItems
+        : html`${this.renderPalette()}
+            ${this.paletteQuery ? '' : html`${addItems} ${selectionItems}`}`}
+    </ul>`;
+  }
+
+  /** Search box of the canvas menu and the catalog nodes it matches. */
+  private renderPalette() {
+    const results = this.catalog.search(this.paletteQuery);
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Enter' && results.length) {
+        this.addCatalogNodeAction(results[0]);
+      } else if (e.key === 'Escape') {
+        this.contextMenu = null;
+      }
+    };
+    return html`<li class="palette-search">
+        <input
+          type="search"
+          placeholder="Search nodes"
+          .value=${this.paletteQuery}
+          @input=${(e: Event) =>
+            (this.paletteQuery = (e.target as HTMLInputElement).value)}
+          @keydown=${handleKeyDown} />
+      </li>
+      ${results.map(
+        (entry) => html`<li
+          class="palette-entry"
+          @click=${() => this.addCatalogNodeAction(entry)}>
+          ${entry.label}
+          <span class="palette-category">${entry.category}</span>
+        </li>`,
+      )}
+      ${this.paletteQuery && !results.length
+        ? html`<li class="palette-empty">No matching nodes</li>`
+        : ''}`;
+  }
+
+  private renderNodeEditor() {
+    const editor = this.nodeEditor;
+    if (!editor) return html``;
+    const update = (changes: Partial<NodeEditor>) =>
+      (this.nodeEditor = {...editor, error: undefined, ...changes});
+
+    return html`<div class="node-editor">
+      <h3>${editor.nodeId ? 'Edit node' : 'Add node'}</h3>
+      <label>
+        Type
+        <select
+          @change=${(e: Event) =>
+            update({type: (e.target as HTMLSelectElement).value})}>
+          ${NODE_TYPES.map(
+            (type) =>
+              html`<option value=${type} ?selected=${type === editor.type}>
+                ${type}
+              </option>`,
+          )}
+        </select>
+      </label>
+      <label>
+        Label
+        <input
+          type="text"
+          .value=${editor.label}
+          @input=${(e: InputEvent) =>
+            update({label: (e.target as HTMLInputElement).value})} />
+      </label>
+      <div class="node-editor-pins">
+        <label>
+          Inputs (one "Name: type" per line)
+          <textarea
+            .value=${editor.inputs}
+            @input=${(e: InputEvent) =>
+              update({inputs: (e.target as HTMLTextAreaElement).value})}></textarea>
+        </label>
+        <label>
+          Outputs (one "Name: type" per line)
+          <textarea
+            .value=${editor.outputs}
+            @input=${(e: InputEvent) =>
+              update({outputs: (e.target as HTMLTextAreaElement).value})}></textarea>
+        </label>
+      </div>
+      ${editor.error ? html`<div class="node-editor-error">${editor.error}</div>` : ''}
+      <div class="node-editor-actions">
+        <button @click=${() => (this.nodeEditor = null)}>Cancel</button>
+        <button
+          class=${classMap({primary: true, disabled: !editor.label.trim()})}
+          @click=${this.saveNodeEditorAction}>
+          ${editor.nodeId ? 'Save' : 'Add'}
+        </button>
+      </div>
+    </div>`;
+  }
+
+  private renderSettingsDialog() {
+    const draft = this.settingsDraft;
+    if (!draft) return html``;
+    const update = (changes: Partial<ProviderSettings>) =>
+      (this.settingsDraft = {...draft, ...changes});
+    const value = (e: Event) => (e.target as HTMLInputElement).value;
+
+    return html`<div class="node-editor settings-dialog">
+      <h3>Model settings</h3>
+      <label>
+        Provider
+        <select
+          @change=${(e: Event) => update({provider: value(e) as ProviderKind})}>
+          ${PROVIDER_KINDS.map(
+            (kind) =>
+              html`<option value=${kind} ?selected=${kind === draft.provider}>
+                ${PROVIDER_LABELS[kind]}
+              </option>`,
+          )}
+        </select>
+      </label>
+      <label>
+        Model
+        <input
+          type="text"
+          placeholder="e.g. gemini-2.5-flash or llama3.1"
+          .value=${draft.model}
+          @input=${(e: Event) => update({model: value(e)})} />
+      </label>
+      ${draft.provider === 'openai'
+        ? html`<label>
+            Endpoint
+            <input
+              type="url"
+              placeholder="http://localhost:11434/v1"
+              .value=${draft.endpoint}
+              @input=${(e: Event) => update({endpoint: value(e)})} />
+          </label>`
+        : ''}
+      ${draft.provider !== 'mock'
+        ? html`<label>
+            API key
+            <input
+              type="password"
+              placeholder=${draft.provider === 'gemini'
+                ? 'Uses the key from the build if empty'
+                : 'Optional for local servers'}
+              .value=${draft.apiKey}
+              @input=${(e: Event) => update({apiKey: value(e)})} />
+          </label>
+          <p class="settings-hint">
+            The key is forgotten when this tab is closed.
+          </p>`
+        : html`<p class="settings-hint">
+            ${loadRecordings().length} recorded responses. Prompts without a
+            recording get the example blueprint.
+          </p>`}
+      <label>
+        Temperature
+        <input
+          type="number"
+          min="0"
+          max="2"
+          step="0.1"
+          .value=${String(draft.temperature)}
+          @input=${(e: Event) => update({temperature: Number(value(e))})} />
+      </label>
+      <div class="node-editor-actions">
+        <button @click=${() => (this.settingsDraft = null)}>Cancel</button>
+        <button
+          class=${classMap({primary: true, disabled: !draft.model.trim()})}
+          @click=${this.saveSettingsAction}>
+          Save
+        </button>
+      </div>
+    </div>`;
+  }
+
+  private renderExportDialog() {
+    const options = this.exportOptions;
+    if (!options) return html``;
+    const update = (changes: Partial<ExportOptions>) =>
+      (this.exportOptions = {...options, ...changes});
+    const value = (e: Event) => (e.target as HTMLSelectElement).value;
+
+    return html`<div class="node-editor export-dialog">
+      <h3>Export</h3>
+      <label>
+        Format
+        <select
+          @change=${(e: Event) => update({format: value(e) as ExportFormat})}>
+          ${EXPORT_FORMATS.map(
+            ({format, label}) =>
+              html`<option value=${format} ?selected=${format === options.format}>
+                ${label}
+              </option>`,
+          )}
+        </select>
+      </label>
+      ${options.format !== 'svg'
+        ? html`<label>
+            Scale
+            <select @change=${(e: Event) => update({scale: Number(value(e))})}>
+              ${[1, 2, 3, 4].map(
+                (scale) =>
+                  html`<option value=${scale} ?selected=${scale === options.scale}>
+                    ${scale}×
+                  </option>`,
+              )}
+            </select>
+          </label>`
+        : ''}
+      <label class="export-option">
+        <input
+          type="checkbox"
+          .checked=${options.selectionOnly}
+          ?disabled=${!this.selectedNodeIds.length}
+          @change=${(e: Event) =>
+            update({selectionOnly: (e.target as HTMLInputElement).checked})} />
+        Crop to the selected nodes
+      </label>
+      ${options.format === 'markdown'
+        ? html`<p class="settings-hint">
+            The document describes the whole blueprint and embeds a picture of
+            ${this.activeGraphName}.
+          </p>`
+        : ''}
+      <div class="node-editor-actions">
+        <button @click=${() => (this.exportOptions = null)}>Cancel</button>
+        <button class="primary" @click=${this.exportAction}>Export</button>
+      </div>
+    </div>`;
+  }
+
+  /** Whether the model is still thinking or its answer is arriving. */
+  private renderChatStatus() {
+    if (this.chatState === ChatState.IDLE) return '';
+    const progress = this.streamProgress;
+    const status =
+      this.chatState !== ChatState.CODING
+        ? 'Waiting for the model...'
+        : progress
+          ? `Receiving the answer: ${progress.nodes} node${
+              progress.nodes === 1 ? '' : 's'
+            }, ${progress.connections} connection${
+              progress.connections === 1 ? '' : 's'
+            }`
+          : 'Receiving the answer...';
+    return html`${ICON_BUSY} ${status}
+      <div
+        class=${classMap({
+          'chat-progress': true,
+          receiving: this.chatState === ChatState.CODING,
+        })}></div>`;
+  }
+
+  private renderMyBlueprint() {
+    const graphs = this.asset?.graphs ?? [];
+    const variables = this.asset?.variables ?? [];
+    return html`<aside class="my-blueprint">
+      <div class="my-blueprint-title">${this.asset?.name ?? 'My Blueprint'}</div>
+      ${GRAPH_SECTIONS.map(
+        ({kind, title}) => html`<section>
+          <div class="my-blueprint-heading">
+            <span>${title}</span>
+            ${kind !== 'event'
+              ? html`<button
+                  title="Add ${kind}"
+                  class=${classMap({disabled: !this.canEdit})}
+                  @click=${() => this.addGraphAction(kind)}>
+                  +
+                </button>`
+              : ''}
+          </div>
+          <ul>
+            ${graphs
+              .filter((g) => g.kind === kind)
+              .map(
+                (graph) => html`<li
+                  class=${classMap({active: graph === this.blueprintData})}
+                  title=${this.graphSignature(graph)}
+                  @click=${() => this.openGraphAction(graph.name)}>
+                  <span class="my-blueprint-name">${graph.name}</span>
+                  ${graph.name !== EVENT_GRAPH
+                    ? html`<button
+                        title="Delete ${graph.name}"
+                        @click=${(e: MouseEvent) => {
+                          e.stopPropagation();
+                          this.deleteGraphAction(graph.name);
+                        }}>
+                        ×
+                      </button>`
+                    : ''}
+                </li>`,
+              )}
+          </ul>
+        </section>`,
+      )}
+      <section>
+        <div class="my-blueprint-heading">
+          <span>Variables</span>
+          <button
+            title="Add variable"
+            class=${classMap({disabled: !this.canEdit})}
+            @click=${this.addVariableAction}>
+            +
+          </button>
+        </div>
+        <ul>
+          ${variables.map(
+            (variable) => html`<li
+              class=${classMap({
+                'my-blueprint-variable': true,
+                active: variable.name === this.selectedVariable,
+              })}
+              title=${variable.tooltip ?? 'Drag onto the graph to get or set'}
+              draggable="true"
+              @dragstart=${(e: DragEvent) =>
+                e.dataTransfer.setData(VARIABLE_DRAG_TYPE, variable.name)}
+              @click=${() =>
+                (this.selectedVariable =
+                  this.selectedVariable === variable.name ? null : variable.name)}>
+              <span class="my-blueprint-name">${variable.name}</span>
+              <span class="pin-type pin-${variable.type.category}">
+                ${formatPinType(variable.type)}
+              </span>
+              <button
+                title="Delete ${variable.name}"
+                @click=${(e: MouseEvent) => {
+                  e.stopPropagation();
+                  this.deleteVariableAction(variable.name);
+                }}>
+                ×
+              </button>
+            </li>`,
+          )}
+        </ul>
+        ${this.renderVariableDetails()}
+      </section>
+      <section>
+        <div class="my-blueprint-heading">
+          <span>C++ Headers</span>
+          <button title="Attach header" @click=${() => this.fileInput.click()}>
+            +
+          </button>
+        </div>
+        <ul>
+          ${this.headers.map(
+            (header) => html`<li title="Its nodes are in the node catalog">
+              <span class="my-blueprint-name">${header.fileName}</span>
+              <button
+                title="Remove ${header.fileName}"
+                @click=${() => this.removeHeaderAction(header.fileName)}>
+                ×
+              </button>
+            </li>`,
+          )}
+        </ul>
+      </section>
+    </aside>`;
+  }
+
+  private renderVariableDetails() {
+    const variable = this.asset?.variables.find(
+      (v) => v.name === this.selectedVariable,
+    );
+    if (!variable) return html``;
+    const update = (changes: Partial<BlueprintVariable>) =>
+      this.updateVariableAction(variable.name, changes);
+    const value = (e: Event) =>
+      (e.target as HTMLInputElement | HTMLSelectElement).value;
+    const defaultError = variable.type.container
+      ? null
+      : defaultValueError({
+          name: variable.name,
+          direction: 'input',
+          ...variable.type,
+          defaultValue: variable.defaultValue,
+        });
+    const hasSubtype = ['object', 'struct', 'enum'].includes(
+      variable.type.category,
+    );
+
+    return html`<div class="variable-details">
+      <label>
+        Name
+        <input
+          type="text"
+          .value=${variable.name}
+          @change=${(e: Event) => update({name: value(e)})} />
+      </label>
+      <label>
+        Type
+        <select
+          @change=${(e: Event) =>
+            update({
+              type: {
+                ...variable.type,
+                category: value(e) as PinCategory,
+              },
+            })}>
+          ${VARIABLE_CATEGORIES.map(
+            (category) => html`<option
+              value=${category}
+              ?selected=${category === variable.type.category}>
+              ${category}
+            </option>`,
+          )}
+        </select>
+      </label>
+      ${hasSubtype
+        ? html`<label>
+            ${variable.type.category === 'object' ? 'Class' : 'Type name'}
+            <input
+              type="text"
+              .value=${variable.type.subtype ?? ''}
+              @change=${(e: Event) => {
+                const {subtype, ...type} = variable.type;
+                update({type: value(e) ? {...type, subtype: value(e)} : type});
+              }} />
+          </label>`
+        : ''}
+      <label>
+        Container
+        <select
+          @change=${(e: Event) => {
+            const {container, ...type} = variable.type;
+            update({
+              type:
+                value(e) === 'single'
+                  ? type
+                  : {...type, container: value(e) as PinContainer},
+            });
+          }}>
+          ${PIN_CONTAINERS.map(
+            (container) => html`<option
+              value=${container}
+              ?selected=${container === (variable.type.container ?? 'single')}>
+              ${container}
+            </option>`,
+          )}
+        </select>
+      </label>
+      <label>
+        Default value
+        <input
+          type="text"
+          class=${classMap({invalid: !!defaultError})}
+          title=${defaultError ?? ''}
+          .value=${variable.defaultValue ?? ''}
+          @change=${(e: Event) =>
+            update({defaultValue: value(e) === '' ? undefined : value(e)})} />
+      </label>
+      <label>
+        Category
+        <input
+          type="text"
+          .value=${variable.category ?? ''}
+          @change=${(e: Event) =>
+            update({category: value(e) || undefined})} />
+      </label>
+      <label>
+        Replication
+        <select
+          @change=${(e: Event) =>
+            update({replication: value(e) as VariableReplication})}>
+          ${REPLICATION_MODES.map(
+            (mode) => html`<option
+              value=${mode}
+              ?selected=${mode === (variable.replication ?? 'none')}>
+              ${REPLICATION_LABELS[mode]}
+            </option>`,
+          )}
+        </select>
+      </label>
+      <label>
+        Tooltip
+        <textarea
+          .value=${variable.tooltip ?? ''}
+          @change=${(e: Event) =>
+            update({tooltip: value(e) || undefined})}></textarea>
+      </label>
+    </div>`;
+  }
+
+  /** e.g. "Damage(Amount: real) -> (Health: real)" */
+  private graphSignature(graph: BlueprintGraph) {
+    if (graph.kind === 'event') return graph.name;
+    const params = (pins: BlueprintPin[] = []) =>
+      pins.map((p) => `${p.name}: ${formatPinType(p)}`).join(', ');
+    const outputs = graph.outputs?.length ? ` -> (${params(graph.outputs)})` : '';
+    return `${graph.name}(${params(graph.inputs)})${outputs}`;
+  }
+
+  private renderPatchPreview() {
+    const preview = this.patchPreview;
+    if (!preview) return html``;
+    const {added, removed, changed, moved} = preview.diff;
+    const count = (n: number, what: string) => (n ? [`${n} ${what}`] : []);
+    const summary = [
+      ...count(added.length, 'added'),
+      ...count(removed.length, 'removed'),
+      ...count(changed.length, 'changed'),
+      ...count(moved.length, 'moved'),
+    ];
+    return html`<div class="patch-preview">
+      <span>
+        Proposed edits to <strong>${preview.graph}</strong>:
+        ${summary.join(', ') || 'wiring only'}
+      </span>
+      <button @click=${this.acceptPatchAction}>Accept</button>
+      <button @click=${this.rejectPatchAction}>Reject</button>
+    </div>`;
+  }
+
+  private renderProjectBar() {
+    if (!this.store) return html``;
+    const name = this.project?.name ?? '';
+    return html`<div class="project-bar">
+      ${this.renamingProject
+        ? html`<input
+            class="project-name"
+            .value=${name}
+            @keydown=${(e: KeyboardEvent) => {
+              const input = e.target as HTMLInputElement;
+              if (e.key === 'Enter') this.renameProjectAction(input.value);
+              if (e.key === 'Escape') this.renamingProject = false;
+            }}
+            @blur=${(e: FocusEvent) =>
+              this.renameProjectAction((e.target as HTMLInputElement).value)} />`
+        : html`<select
+            title="Switch project"
+            ?disabled=${!this.canEdit}
+            @change=${(e: Event) =>
+              this.switchProjectAction((e.target as HTMLSelectElement).value)}>
+            ${this.project && !this.projects.some((p) => p.id === this.project.id)
+              ? html`<option selected value=${this.project.id}>${name}</option>`
+              : ''}
+            ${this.projects.map(
+              (project) => html`<option
+                value=${project.id}
+                ?selected=${project.id === this.project?.id}>
+                ${project.name}
+              </option>`,
+            )}
+          </select>`}
+      <button title="New project" @click=${this.newProjectAction}>+</button>
+      <button
+        title="Rename project"
+        @click=${() => (this.renamingProject = !!this.project)}>
+        ✎
+      </button>
+      <button title="Duplicate project" @click=${this.duplicateProjectAction}>
+        ⧉
+      </button>
+      <button
+        title="Export project (import it with Load)"
+        @click=${this.exportProjectAction}>
+        ⤓
+      </button>
+      <button title="Delete project" @click=${this.deleteProjectAction}>×</button>
+    </div>`;
+  }
+
+  private renderTimeline() {
+    const snapshots = [...this.timeline.all].reverse();
+    const current = this.timeline.latest?.id;
+    return html`<div class="timeline">
+      <div class="timeline-actions">
+        <span>Pick two snapshots to compare them.</span>
+        <button
+          class=${classMap({disabled: this.compareIds.length !== 2})}
+          @click=${this.compareAction}>
+          Compare
+        </button>
+      </div>
+      <ul class="timeline-list">
+        ${snapshots.map(
+          (snapshot) => html`<li
+            class=${classMap({
+              picked: this.compareIds.includes(snapshot.id),
+              current: snapshot.id === current,
+            })}
+            @click=${() => this.toggleCompareAction(snapshot.id)}>
+            <span class="timeline-id">#${snapshot.id}</span>
+            <span class="timeline-label" title=${snapshot.label}>
+              ${snapshot.label}
+            </span>
+            <span class="timeline-time">
+              ${new Date(snapshot.time).toLocaleTimeString()}
+            </span>
+            <button
+              title="Restore this version"
+              class=${classMap({disabled: !this.canEdit})}
+              @click=${(e: MouseEvent) => {
+                e.stopPropagation();
+                this.checkoutSnapshotAction(snapshot);
+              }}>
+              Check out
+            </button>
+          </li>`,
+        )}
+      </ul>
+      ${this.renderChangeList()}
+    </div>`;
+  }
+
+  /** Lists what changed between the compared snapshots, graph by graph. */
+  private renderChangeList() {
+    const comparison = this.comparison;
+    if (!comparison) return html``;
+    if (!comparison.changes.length) {
+      return html`<p class="timeline-empty">The snapshots are identical.</p>`;
+    }
+    const label = (change: GraphChange, id: string) =>
+      [change.after, change.before]
+        .flatMap((graph) => graph?.nodes ?? [])
+        .find((n) => n.id === id)?.label ?? id;
+    const wire = (change: GraphChange, conn: BlueprintConnection) =>
+      `${label(change, conn.from)}.${conn.fromPort} → ${label(
+        change,
+        conn.to,
+      )}.${conn.toPort}`;
+    return html`<div class="change-list">
+      ${comparison.changes.map(
+        (change) => html`<section>
+          <h4
+            class=${classMap({active: change.graph === comparison.graph})}
+            @click=${() =>
+              (this.comparison = {...comparison, graph: change.graph})}>
+            ${change.graph} <span>(${change.status})</span>
+          </h4>
+          <ul>
+            ${change.diff.added.map(
+              (id) => html`<li class="change-added">
+                Added ${label(change, id)}
+              </li>`,
+            )}
+            ${change.diff.removed.map(
+              (id) => html`<li class="change-removed">
+                Removed ${label(change, id)}
+              </li>`,
+            )}
+            ${change.diff.changed.map(
+              (id) => html`<li class="change-changed">
+                Changed ${label(change, id)}
+              </li>`,
+            )}
+            ${change.diff.moved.map(
+              (id) => html`<li class="change-moved">
+                Moved ${label(change, id)}
+              </li>`,
+            )}
+            ${change.diff.addedConnections.map(
+              (conn) => html`<li class="change-added">
+                Wired ${wire(change, conn)}
+              </li>`,
+            )}
+            ${change.diff.removedConnections.map(
+              (conn) => html`<li class="change-removed">
+                Unwired ${wire(change, conn)}
+              </li>`,
+            )}
+          </ul>
+        </section>`,
+      )}
+    </div>`;
+  }
+
+  /** Side-by-side view of one graph in the two compared snapshots. */
+  private renderComparison() {
+    const comparison = this.comparison;
+    if (!comparison) return html``;
+    const change = comparison.changes.find((c) => c.graph === comparison.graph);
+    const pane = (
+      snapshot: Snapshot,
+      graph: BlueprintGraph | undefined,
+      diff: GraphDiff | null,
+    ) => {
+      const bounds = graph && graphBounds(graph);
+      const pad = 40;
+      return html`<div class="diff-pane">
+        <div class="diff-pane-title">#${snapshot.id} ${snapshot.label}</div>
+        ${bounds
+          ? html`<svg
+              viewBox="${bounds.x - pad} ${bounds.y - pad} ${bounds.width +
+              pad * 2} ${bounds.height + pad * 2}">
+              <g>${this.renderComments(graph)}</g>
+              <g>${this.renderConnections(graph, diff)}</g>
+              <g>${this.renderNodes(graph, diff)}</g>
+            </svg>`
+          : html`<p class="diff-pane-empty">No graph named ${comparison.graph}.</p>`}
+      </div>`;
+    };
+    const {before, after} = comparison;
+    const graphs = change
+      ? [change.before, change.after]
+      : [before, after].map((snapshot) =>
+          findGraph(JSON.parse(snapshot.json), comparison.graph),
+        );
+    // Each side only shows the changes that are visible in it.
+    const diff = change?.diff;
+    const beforeDiff = diff && {...diff, added: [], addedConnections: []};
+    const afterDiff = diff && {...diff, removed: [], removedConnections: []};
+    return html`<div class="diff-view">
+      <div class="diff-view-header">
+        <span>
+          Comparing <strong>${comparison.graph}</strong>
+          ${change ? '' : '(unchanged)'}
+        </span>
+        <button @click=${() => (this.comparison = null)}>Close</button>
+      </div>
+      <div class="diff-panes">
+        ${pane(before, graphs[0], beforeDiff)}
+        ${pane(after, graphs[1], afterDiff)}
+      </div>
+    </div>`;
+  }
+
+  private renderDebugger() {
+    const run = this.simulation;
+    if (!run) {
+      return html`<p class="debug-hint">
+        Right-click an event or a function's entry node and pick
+        <strong>Simulate from here</strong>. F9 toggles a breakpoint on the
+        selected nodes, F10 steps.
+      </p>`;
+    }
+    const sim = run.simulator;
+    const nodeById = (id: string) => sim.graph?.nodes.find((n) => n.id === id);
+    const current = nodeById(sim.currentNodeId);
+    // Pins of the selected node, or of the node that runs next.
+    const selected =
+      run.graph === this.activeGraphName ? this.selectedNodeIds[0] : null;
+    const watched = nodeById(selected) ?? current;
+    const pinValue = (pin: BlueprintPin) =>
+      formatValue(sim.pinValues.get(Simulator.pinKey(watched.id, pin.name)));
+    const running = sim.status === 'paused';
+
+    return html`<div class="debugger">
+      <div class="debug-controls">
+        <button
+          title="Run the next node (F10)"
+          class=${classMap({disabled: !running})}
+          @click=${this.stepSimulationAction}>
+          Step
+        </button>
+        <button
+          title="Run until a breakpoint"
+          class=${classMap({disabled: !running})}
+          @click=${this.continueSimulationAction}>
+          Continue
+        </button>
+        <button
+          title="Start again with default variable values"
+          @click=${this.restartSimulationAction}>
+          Restart
+        </button>
+        <button @click=${() => (this.simulation = null)}>Stop</button>
+      </div>
+      <div class=${classMap({'debug-status': true, error: !!sim.message})}>
+        ${sim.status === 'finished'
+          ? `Finished after ${sim.steps} steps.`
+          : sim.status === 'stopped'
+          ? sim.message
+          : html`${sim.message ||
+              html`Next: <strong>${current?.label}</strong> in ${run.graph}`}
+              <button @click=${this.showSimulationNodeAction}>Show</button>`}
+      </div>
+      ${run.revision !== this.committedGraph
+        ? html`<div class="debug-status">
+            The blueprint changed since this run started; restart to simulate
+            the new version.
+          </div>`
+        : ''}
+      <h4>Variables</h4>
+      <table class="watch">
+        ${[...sim.variables].map(
+          ([name, value]) => html`<tr>
+            <td>${name}</td>
+            <td>${formatValue(value)}</td>
+          </tr>`,
+        )}
+      </table>
+      ${watched
+        ? html`<h4>${watched.label}</h4>
+            <table class="watch">
+              ${[...watched.inputs, ...watched.outputs]
+                .filter((pin) => pin.category !== 'exec')
+                .map(
+                  (pin) => html`<tr>
+                    <td>${pin.direction === 'input' ? '→' : '←'} ${pin.name}</td>
+                    <td>${pinValue(pin)}</td>
+                  </tr>`,
+                )}
+            </table>`
+        : ''}
+      <h4>Output</h4>
+      <ul class="debug-log">
+        ${sim.log.map(
+          (entry) => html`<li
+            class=${classMap({warning: !!entry.warning})}
+            title=${nodeById(entry.nodeId)?.label ?? ''}>
+            ${entry.text}
+          </li>`,
+        )}
+      </ul>
+    </div>`;
+  }
+
+  private renderCpp() {
+    const files = this.cppFiles;
+    if (!files) return html``;
+    const code = (text: string) =>
+      html`<pre><code class="hljs language-cpp">${unsafeHTML(
+        hljs.highlight(text, {language: 'cpp'}).value,
+      )}</code></pre>`;
+    return html`<div class="cpp-view">
+      <div class="cpp-actions">
+        <span>
+          ${files.todos.length
+            ? `${files.todos.length} TODO comments need attention.`
+            : 'Everything was translated.'}
+        </span>
+        <button @click=${this.downloadCppAction}>Download</button>
+      </div>
+      <h4>${files.fileName}.h</h4>
+      ${code(files.header)}
+      <h4>${files.fileName}.cpp</h4>
+      ${code(files.source)}
+    </div>`;
+  }
+
+  private renderMinimap() {
+    const nodes = this.displayedGraph?.nodes ?? [];
+    const graph = this.displayedGraph && graphBounds(this.displayedGraph);
+    if (!graph) return html``;
+
+    // The minimap shows the graph and the visible area, whichever is larger.
+    const visible = visibleBounds(this.view, this.canvasSize);
+    const x = Math.min(graph.x, visible.x);
+    const y = Math.min(graph.y, visible.y);
+    const width =
+      Math.max(graph.x + graph.width, visible.x + visible.width) - x;
+    const height =
+      Math.max(graph.y + graph.height, visible.y + visible.height) - y;
+
+    return html`<svg
+      id="minimap"
+      viewBox="${x} ${y} ${width} ${height}"
+      @mousedown=${(e: MouseEvent) => {
+        e.preventDefault();
+        this.minimapDragging = true;
+        this.minimapNavigate(e);
+      }}>
+      ${(this.displayedGraph.comments ?? []).map(
+        (comment) => svg`<rect
+          class="minimap-comment"
+          x=${comment.x}
+          y=${comment.y}
+          width=${comment.width}
+          height=${comment.height} />`,
+      )}
+      ${nodes.map(
+        (node) => svg`<rect
+          class="minimap-node minimap-node-${node.type}"
+          x=${node.x}
+          y=${node.y}
+          width=${nodeWidth(node)}
+          height=${nodeHeight(node)} />`,
+      )}
+      <rect
+        class="minimap-view"
+        x=${visible.x}
+        y=${visible.y}
+        width=${visible.width}
+        height=${visible.height} />
+    </svg>`;
+  }
+
+  render() {
+    const issues = this.asset ? validateAsset(this.asset, this.catalog) : [];
+    const {x, y, zoom} = this.view;
+
+    return html`<div class="playground">
+      <div class="sidebar">
+        ${this.renderProjectBar()}
+        <div class="selector">
+          <button
+            id="geminiTab"
+            class=${classMap({active: this.selectedChatTab === ChatTab.GEMINI})}
+            @click=${() => (this.selectedChatTab = ChatTab.GEMINI)}>
+            Chat
+          </button>
+          <button
+            id="jsonTab"
+            class=${classMap({active: this.selectedChatTab === ChatTab.JSON})}
+            @click=${() => (this.selectedChatTab = ChatTab.JSON)}>
+            JSON ${this.dataHasChanged ? ICON_EDIT : ''}
+          </button>
+          <button
+            id="lintTab"
+            class=${classMap({active: this.selectedChatTab === ChatTab.LINT})}
+            @click=${() => (this.selectedChatTab = ChatTab.LINT)}>
+            Lint ${issues.length ? html`<span class="badge">${issues.length}</span>` : ''}
+          </button>
+          <button
+            id="historyTab"
+            class=${classMap({active: this.selectedChatTab === ChatTab.HISTORY})}
+            @click=${() => (this.selectedChatTab = ChatTab.HISTORY)}>
+            History
+          </button>
+          <button
+            id="debugTab"
+            class=${classMap({active: this.selectedChatTab === ChatTab.DEBUG})}
+            @click=${() => (this.selectedChatTab = ChatTab.DEBUG)}>
+            Debug
+          </button>
+          <button
+            id="cppTab"
+            class=${classMap({active: this.selectedChatTab === ChatTab.CPP})}
+            @click=${() => (this.selectedChatTab = ChatTab.CPP)}>
+            C++
+          </button>
+        </div>
+        <div
+          id="chat"
+          class=${classMap({
+            tabcontent: true,
             showtab: this.selectedChatTab === ChatTab.GEMINI,
           })}>
           <div class="chat-messages">${this.messages}<div id="anchor"></div></div>
@@ -428,9 +3798,7 @@ export class Playground extends LitElement {
             <div
               id="chatStatus"
               class=${classMap({hidden: this.chatState === ChatState.IDLE})}>
-              ${this.chatState !== ChatState.IDLE
-                ? html`${ICON_BUSY} Generating...`
-                : ''}
+              ${this.renderChatStatus()}
             </div>
             <div id="inputArea">
               <input
@@ -442,19 +3810,34 @@ export class Playground extends LitElement {
                 @keydown=${this.inputKeyDownAction}
                 placeholder="Describe the blueprint logic..."
                 autocomplete="off" />
-              <button
-                id="sendButton"
-                class=${classMap({disabled: this.chatState !== ChatState.IDLE})}
-                @click=${() => this.sendMessageAction()}>
-                <svg
-                  xmlns="http://www.w3.org/2000/svg"
-                  height="30px"
-                  viewBox="0 -960 960 960"
-                  width="30px"
-                  fill="currentColor">
-                  <path d="M120-160v-240l320-80-320-80v-240l760 320-760 320Z" />
-                </svg>
-              </button>
+              ${this.chatState !== ChatState.IDLE
+                ? html`<button
+                    id="sendButton"
+                    class="stop"
+                    title="Stop generating"
+                    @click=${() => this.stopHandler?.()}>
+                    <svg
+                      xmlns="http://www.w3.org/2000/svg"
+                      height="30px"
+                      viewBox="0 -960 960 960"
+                      width="30px"
+                      fill="currentColor">
+                      <path d="M240-240v-480h480v480H240Z" />
+                    </svg>
+                  </button>`
+                : html`<button
+                    id="sendButton"
+                    @click=${() => this.sendMessageAction()}>
+                    <svg
+                      xmlns="http://www.w3.org/2000/svg"
+                      height="30px"
+                      viewBox="0 -960 960 960"
+                      width="30px"
+                      fill="currentColor">
+                      <path
+                        d="M120-160v-240l320-80-320-80v-240l760 320-760 320Z" />
+                    </svg>
+                  </button>`}
             </div>
           </div>
         </div>
@@ -466,23 +3849,106 @@ export class Playground extends LitElement {
           })}>
           <textarea
             .value=${this.blueprintJsonString}
-            .readonly=${this.chatState !== ChatState.IDLE}
+            .readonly=${!this.canEdit}
             @input=${(e: InputEvent) =>
               this.blueprintEditedAction(
                 (e.target as HTMLTextAreaElement).value,
               )}></textarea>
         </div>
+        <div
+          id="lint"
+          class=${classMap({
+            tabcontent: true,
+            showtab: this.selectedChatTab === ChatTab.LINT,
+          })}>
+          ${this.renderLint(issues)}
+        </div>
+        <div
+          id="history"
+          class=${classMap({
+            tabcontent: true,
+            showtab: this.selectedChatTab === ChatTab.HISTORY,
+          })}>
+          ${this.renderTimeline()}
+        </div>
+        <div
+          id="debug"
+          class=${classMap({
+            tabcontent: true,
+            showtab: this.selectedChatTab === ChatTab.DEBUG,
+          })}>
+          ${this.renderDebugger()}
+        </div>
+        <div
+          id="cpp"
+          class=${classMap({
+            tabcontent: true,
+            showtab: this.selectedChatTab === ChatTab.CPP,
+          })}>
+          ${this.selectedChatTab === ChatTab.CPP ? this.renderCpp() : ''}
+        </div>
       </div>
 
       <div class="main-container">
-        <svg id="blueprint-canvas" width=${maxCoords.x} height=${maxCoords.y}>
-          <g>${this.renderConnections()}</g>
-          <g>${this.renderNodes()}</g>
-        </svg>
+        <div class="workspace">
+          ${this.renderMyBlueprint()}
+          <div
+            class="canvas-container"
+            @dragover=${this.handleCanvasDragOver}
+            @drop=${this.handleCanvasDrop}>
+            <svg
+              id="blueprint-canvas"
+              @mousedown=${this.handleCanvasMouseDown}
+              @contextmenu=${this.handleCanvasContextMenu}
+              @wheel=${this.handleCanvasWheel}>
+              <defs>
+                <pattern
+                  id="canvas-grid"
+                  width="32"
+                  height="32"
+                  patternUnits="userSpaceOnUse"
+                  patternTransform="translate(${x}, ${y}) scale(${zoom})">
+                  <path class="canvas-grid-line" d="M 32 0 L 0 0 0 32" />
+                </pattern>
+              </defs>
+              <rect class="canvas-grid" width="100%" height="100%" />
+              <g id="viewport" transform="translate(${x}, ${y}) scale(${zoom})">
+                <g>${this.renderComments(this.displayedGraph, true)}</g>
+                <g>${this.renderConnections(
+                  this.displayedGraph,
+                  this.displayedDiff,
+                  true,
+                )}</g>
+                <g>${this.renderNodes(
+                  this.displayedGraph,
+                  this.displayedDiff,
+                  true,
+                )}</g>
+                ${this.renderPendingWire()}
+              </g>
+            </svg>
+            <div class="canvas-controls">
+              <button title="Zoom out" @click=${() => this.zoomAction(1 / 1.2)}>−</button>
+              <span class="zoom-level">${Math.round(zoom * 100)}%</span>
+              <button title="Zoom in" @click=${() => this.zoomAction(1.2)}>+</button>
+              <button title="Zoom to fit (Home)" @click=${this.zoomToFitAction}>Fit</button>
+              <button title="Focus selection (F)" @click=${this.focusSelectionAction}>Focus</button>
+            </div>
+            ${this.wireError
+              ? html`<div class="canvas-notice" @click=${() => (this.wireError = null)}>
+                  ${this.wireError}
+                </div>`
+              : ''}
+            ${this.renderPatchPreview()} ${this.renderComparison()}
+            ${this.renderMinimap()} ${this.renderContextMenu()}
+            ${this.renderNodeEditor()} ${this.renderSettingsDialog()}
+            ${this.renderExportDialog()}
+          </div>
+        </div>
         <div class="toolbar">
            <input type="file" id="file-input" class="hidden" @change=${
              this.handleFileLoad
-           } accept=".json" />
+           } accept=".json,.t3d,.txt,.h,.hpp" />
           <button id="load" @click=${() => this.fileInput.click()}>
              <svg xmlns="http://www.w3.org/2000/svg" height="30px" viewBox="0 -960 960 960" width="30px" fill="currentColor">
                 <path d="M440-200h80v-167l64 64 56-57-160-160-160 160 57 57 63-64v167ZM240-80q-33 0-56.5-23.5T160-160v-640q0-33 23.5-56.5T240-880h320l240 240v480q0 33-23.5 56.5T720-80H240Z"/>
@@ -495,6 +3961,91 @@ export class Playground extends LitElement {
              </svg>
             <span>Save</span>
           </button>
+          <button
+            id="export"
+            class=${classMap({disabled: !this.blueprintData?.nodes.length})}
+            @click=${this.openExportAction}>
+            <svg
+              xmlns="http://www.w3.org/2000/svg"
+              height="30px"
+              viewBox="0 -960 960 960"
+              width="30px"
+              fill="currentColor">
+              <path
+                d="M200-120q-33 0-56.5-23.5T120-200v-560q0-33 23.5-56.5T200-840h560q33 0 56.5 23.5T840-760v560q0 33-23.5 56.5T760-120H200Zm0-80h560v-560H200v560Zm40-80h480L570-480 450-320l-90-120-120 160Z" />
+            </svg>
+            <span>Export</span>
+          </button>
+          <button
+            id="undo"
+            class=${classMap({disabled: !this.history.canUndo})}
+            title=${this.history.canUndo ? `Undo ${this.history.undoLabel}` : 'Nothing to undo'}
+            @click=${this.undoAction}>
+             <svg xmlns="http://www.w3.org/2000/svg" height="30px" viewBox="0 -960 960 960" width="30px" fill="currentColor">
+                <path d="M280-200v-80h284q63 0 109.5-40T720-420q0-60-46.5-100T564-560H312l104 104-56 56-200-200 200-200 56 56-104 104h252q97 0 166.5 63T800-420q0 94-69.5 157T564-200H280Z"/>
+             </svg>
+            <span>Undo</span>
+          </button>
+          <button
+            id="redo"
+            class=${classMap({disabled: !this.history.canRedo})}
+            title=${this.history.canRedo ? `Redo ${this.history.redoLabel}` : 'Nothing to redo'}
+            @click=${this.redoAction}>
+             <svg xmlns="http://www.w3.org/2000/svg" height="30px" viewBox="0 -960 960 960" width="30px" fill="currentColor">
+                <path d="M396-200q-97 0-166.5-63T160-420q0-94 69.5-157T396-640h252L544-744l56-56 200 200-200 200-56-56 104-104H396q-63 0-109.5 40T240-420q0 60 46.5 100T396-280h284v80H396Z"/>
+             </svg>
+            <span>Redo</span>
+          </button>
+          <button id="copy-unreal" @click=${this.copyForUnrealAction}>
+             <svg xmlns="http://www.w3.org/2000/svg" height="30px" viewBox="0 -960 960 960" width="30px" fill="currentColor">
+                <path d="M360-240q-33 0-56.5-23.5T280-320v-480q0-33 23.5-56.5T360-880h360q33 0 56.5 23.5T800-800v480q0 33-23.5 56.5T720-240H360Zm0-80h360v-480H360v480ZM200-80q-33 0-56.5-23.5T120-160v-560h80v560h440v80H200Zm160-240v-480 480Z"/>
+             </svg>
+            <span>Copy for Unreal</span>
+          </button>
+          <button id="paste-unreal" @click=${this.pasteFromUnrealAction}>
+             <svg xmlns="http://www.w3.org/2000/svg" height="30px" viewBox="0 -960 960 960" width="30px" fill="currentColor">
+                <path d="M200-120q-33 0-56.5-23.5T120-200v-560q0-33 23.5-56.5T200-840h167q11-35 43-57.5t70-22.5q40 0 71.5 22.5T594-840h166q33 0 56.5 23.5T840-760v560q0 33-23.5 56.5T760-120H200Zm0-80h560v-560h-80v120H280v-120h-80v560Zm280-560q17 0 28.5-11.5T520-800q0-17-11.5-28.5T480-840q-17 0-28.5 11.5T440-800q0 17 11.5 28.5T480-760Z"/>
+             </svg>
+            <span>Paste from Unreal</span>
+          </button>
+          <button id="auto-layout" @click=${this.autoLayoutAction}>
+             <svg xmlns="http://www.w3.org/2000/svg" height="30px" viewBox="0 -960 960 960" width="30px" fill="currentColor">
+                <path d="M600-120v-120H440v-400h-80v120H80v-320h280v120h240v-120h280v320H600v-120h-80v320h80v-120h280v320H600ZM160-760v160-160Zm520 400v160-160Zm0-400v160-160Zm0 160h120v-160H680v160Zm0 400h120v-160H680v160ZM160-600h120v-160H160v160Z"/>
+             </svg>
+            <span>Auto layout</span>
+          </button>
+          <label class="toolbar-option">
+            <input
+              type="checkbox"
+              .checked=${this.autoLayoutResponses}
+              @change=${(e: Event) =>
+                (this.autoLayoutResponses = (
+                  e.target as HTMLInputElement
+                ).checked)} />
+            <span>Lay out AI responses</span>
+          </label>
+          <label class="toolbar-option">
+            <input
+              type="checkbox"
+              .checked=${this.patchResponses}
+              @change=${(e: Event) =>
+                (this.patchResponses = (
+                  e.target as HTMLInputElement
+                ).checked)} />
+            <span>Reply with edits</span>
+          </label>
+          <button id="settings" @click=${this.openSettingsAction}>
+            <svg
+              xmlns="http://www.w3.org/2000/svg"
+              height="30px"
+              viewBox="0 -960 960 960"
+              width="30px"
+              fill="currentColor">
+              <path
+                d="m370-80-16-128q-13-5-24.5-12T307-235l-119 50L78-375l103-78q-1-7-1-13.5v-27q0-6.5 1-13.5L78-585l110-190 119 50q11-8 23-15t24-12l16-128h220l16 128q13 5 24.5 12t22.5 15l119-50 110 190-103 78q1 7 1 13.5v27q0 6.5-2 13.5l103 78-110 190-118-50q-11 8-23 15t-24 12L590-80H370Zm112-260q58 0 99-41t41-99q0-58-41-99t-99-41q-59 0-99.5 41T342-480q0 58 40.5 99t99.5 41Z" />
+            </svg>
+            <span>Model</span>
+          </button>
           <button id="clear" @click=${this.clearAction}>
             <svg
               xmlns="http://www.w3.org/2000/svg"
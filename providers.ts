@@ -0,0 +1,372 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import {GoogleGenAI} from '@google/genai';
+
+export type ProviderKind = 'gemini' | 'openai' | 'mock';
+
+export const PROVIDER_KINDS: ProviderKind[] = ['gemini', 'openai', 'mock'];
+
+/** Which model answers the chat, picked in the settings dialog. */
+export interface ProviderSettings {
+  provider: ProviderKind;
+  model: string;
+  /** Base URL of an OpenAI-compatible API, e.g. "http://localhost:8080/v1". */
+  endpoint: string;
+  /**
+   * Falls back to the key set at build time for Gemini. Kept for the
+   * browser session only.
+   */
+  apiKey: string;
+  temperature: number;
+}
+
+export const DEFAULT_SETTINGS: ProviderSettings = {
+  provider: 'gemini',
+  model: 'gemini-2.5-flash',
+  endpoint: 'http://localhost:8080/v1',
+  apiKey: '',
+  temperature: 1,
+};
+
+const SETTINGS_KEY = 'blueprint-magic-settings';
+const API_KEY_KEY = 'blueprint-magic-api-key';
+const RECORDINGS_KEY = 'blueprint-magic-recordings';
+const MAX_RECORDINGS = 50;
+/** Characters of an error response quoted in the error message. */
+const MAX_ERROR_BODY = 300;
+
+/** One message of a conversation, independent of the provider. */
+export interface ChatTurn {
+  role: 'user' | 'model';
+  text: string;
+}
+
+export interface CompletionRequest {
+  model: string;
+  temperature: number;
+  systemInstruction: string;
+  /** Schema of the JSON answer, written with the Gemini SDK's `Type` values. */
+  responseSchema: object;
+  /** The conversation so far, ending with the message to answer. */
+  history: ChatTurn[];
+  /** Stops the answer part way. */
+  signal?: AbortSignal;
+}
+
+/** A backend that streams the text of one JSON answer. */
+export interface LlmProvider {
+  stream(request: CompletionRequest): AsyncIterable<string>;
+}
+
+export class GeminiProvider implements LlmProvider {
+  private readonly ai: GoogleGenAI;
+
+  constructor(apiKey: string) {
+    this.ai = new GoogleGenAI({apiKey});
+  }
+
+  async *stream(request: CompletionRequest) {
+    const response = await this.ai.models.generateContentStream({
+      model: request.model,
+      contents: request.history.map((turn) => ({
+        role: turn.role,
+        parts: [{text: turn.text}],
+      })),
+      config: {
+        systemInstruction: request.systemInstruction,
+        temperature: request.temperature,
+        responseMimeType: 'application/json',
+        responseSchema: request.responseSchema,
+        abortSignal: request.signal,
+      },
+    });
+    for await (const chunk of response) {
+      if (chunk.text) yield chunk.text;
+    }
+  }
+}
+
+/**
+ * Converts a Gemini SDK schema to JSON Schema. The two mostly differ in the
+ * case of the type names.
+ */
+export function toJsonSchema(schema: any): any {
+  if (!schema || typeof schema !== 'object') return schema;
+  const result: any = {};
+  for (const [key, value] of Object.entries<any>(schema)) {
+    if (key === 'type') {
+      result.type = String(value).toLowerCase();
+    } else if (key === 'properties') {
+      result.properties = Object.fromEntries(
+        Object.entries(value).map(([name, s]) => [name, toJsonSchema(s)]),
+      );
+    } else if (key === 'items') {
+      result.items = toJsonSchema(value);
+    } else {
+      result[key] = value;
+    }
+  }
+  return result;
+}
+
+/**
+ * Any server implementing OpenAI's chat completions API, such as a local
+ * llama.cpp or Ollama server.
+ */
+export class OpenAICompatibleProvider implements LlmProvider {
+  constructor(
+    private readonly endpoint: string,
+    private readonly apiKey = '',
+  ) {}
+
+  async *stream(request: CompletionRequest) {
+    const response = await fetch(
+      `${this.endpoint.replace(/\/+$/, '')}/chat/completions`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.apiKey && {Authorization: `Bearer ${this.apiKey}`}),
+        },
+        body: JSON.stringify({
+          model: request.model,
+          temperature: request.temperature,
+          stream: true,
+          messages: [
+            {role: 'system', content: request.systemInstruction},
+            ...request.history.map((turn) => ({
+              role: turn.role === 'model' ? 'assistant' : 'user',
+              content: turn.text,
+            })),
+          ],
+          response_format: {
+            type: 'json_schema',
+            json_schema: {
+              name: 'response',
+              schema: toJsonSchema(request.responseSchema),
+            },
+          },
+        }),
+        signal: request.signal,
+      },
+    );
+    if (!response.ok || !response.body) {
+      // Proxies answer with whole HTML pages; the start is enough to tell.
+      const body = (await response.text()).trim();
+      const excerpt =
+        body.length > MAX_ERROR_BODY
+          ? `${body.slice(0, MAX_ERROR_BODY)}...`
+          : body;
+      throw new Error(
+        `${this.endpoint} answered ${response.status} ${
+          response.statusText
+        }: ${excerpt}`,
+      );
+    }
+
+    // The answer arrives as server-sent events, one "data:" line per chunk.
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+    for (;;) {
+      const {value, done} = await reader.read();
+      // The last event may not end with a newline.
+      buffer += done ? '\n' : value;
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      for (const line of lines) {
+        const text = this.eventText(line);
+        if (text) yield text;
+      }
+      if (done) break;
+    }
+  }
+
+  /**
+   * The answer text in one line of the event stream. Comments, keep-alives
+   * and anything else that isn't a JSON event carry none; an error event
+   * throws.
+   */
+  private eventText(line: string): string | undefined {
+    const trimmed = line.trim();
+    if (!trimmed.startsWith('data:')) return undefined;
+    const data = trimmed.slice('data:'.length).trim();
+    if (data === '[DONE]') return undefined;
+    let event: any;
+    try {
+      event = JSON.parse(data);
+    } catch (e) {
+      return undefined;
+    }
+    if (event?.error) {
+      const {error} = event;
+      const message =
+        typeof error === 'string'
+          ? error
+          : error.message ?? JSON.stringify(error);
+      throw new Error(`${this.endpoint} reported an error: ${message}`);
+    }
+    return event?.choices?.[0]?.delta?.content;
+  }
+}
+
+/** A response saved from a real provider, replayed by the mock. */
+export interface Recording {
+  prompt: string;
+  response: string;
+}
+
+export function loadRecordings(): Recording[] {
+  try {
+    return JSON.parse(localStorage.getItem(RECORDINGS_KEY) ?? '[]');
+  } catch (e) {
+    return [];
+  }
+}
+
+/** Keeps a valid answer so the mock provider can replay it offline. */
+export function saveRecording(prompt: string, response: string) {
+  const recordings = loadRecordings().filter((r) => r.prompt !== prompt);
+  recordings.push({prompt, response});
+  // When storage is full, older recordings make room. If even the newest
+  // doesn't fit, it isn't kept.
+  for (let keep = MAX_RECORDINGS; keep > 0; keep = Math.floor(keep / 2)) {
+    try {
+      localStorage.setItem(
+        RECORDINGS_KEY,
+        JSON.stringify(recordings.slice(-keep)),
+      );
+      return;
+    } catch (e) {
+      console.warn('Could not save the recording:', e);
+    }
+  }
+}
+
+/**
+ * Replays recorded responses without a network. A message that ends with a
+ * recorded prompt gets that prompt's response; other messages get the
+ * fallbacks in turn, so the same conversation always gets the same answers.
+ */
+export class MockProvider implements LlmProvider {
+  private next = 0;
+
+  constructor(
+    private readonly recordings: Recording[],
+    private readonly fallbacks: string[],
+  ) {}
+
+  async *stream(request: CompletionRequest) {
+    const message = request.history[request.history.length - 1]?.text ?? '';
+    const recording = [...this.recordings]
+      .reverse()
+      .find((r) => message.trimEnd().endsWith(r.prompt.trim()));
+    const response =
+      recording?.response ??
+      this.fallbacks[this.next++ % Math.max(this.fallbacks.length, 1)] ??
+      '{}';
+    // Chunked like a real stream, so progress display is exercised too.
+    for (let i = 0; i < response.length; i += 200) {
+      request.signal?.throwIfAborted();
+      yield response.slice(i, i + 200);
+    }
+  }
+}
+
+export function loadSettings(): ProviderSettings {
+  try {
+    const saved = JSON.parse(localStorage.getItem(SETTINGS_KEY) ?? '{}');
+    const settings = {
+      ...DEFAULT_SETTINGS,
+      ...saved,
+      apiKey: sessionStorage.getItem(API_KEY_KEY) ?? saved.apiKey ?? '',
+    };
+    // Settings saved before keys were kept per session still hold one.
+    if ('apiKey' in saved) saveSettings(settings);
+    if (!PROVIDER_KINDS.includes(settings.provider)) {
+      settings.provider = DEFAULT_SETTINGS.provider;
+    }
+    return settings;
+  } catch (e) {
+    return {...DEFAULT_SETTINGS};
+  }
+}
+
+/**
+ * Remembers the settings. The API key is only kept until the tab is closed,
+ * so it never sits in the browser's storage in plain text.
+ */
+export function saveSettings(settings: ProviderSettings) {
+  const {apiKey, ...rest} = settings;
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(rest));
+  if (apiKey) {
+    sessionStorage.setItem(API_KEY_KEY, apiKey);
+  } else {
+    sessionStorage.removeItem(API_KEY_KEY);
+  }
+}
+
+export function createProvider(
+  settings: ProviderSettings,
+  mockFallbacks: string[] = [],
+): LlmProvider {
+  switch (settings.provider) {
+    case 'openai':
+      return new OpenAICompatibleProvider(settings.endpoint, settings.apiKey);
+    case 'mock':
+      return new MockProvider(loadRecordings(), mockFallbacks);
+    default:
+      return new GeminiProvider(settings.apiKey || process.env.API_KEY);
+  }
+}
+
+/** Instructions and answer format of a chat, or of a single message. */
+export interface ChatConfig {
+  systemInstruction: string;
+  responseSchema: object;
+}
+
+/**
+ * A conversation with any provider. The history is kept here rather than by
+ * the backend, so a session can be saved and resumed with another model.
+ */
+export class ChatSession {
+  constructor(
+    private readonly provider: LlmProvider,
+    private readonly settings: ProviderSettings,
+    private readonly config: ChatConfig,
+    private readonly history: ChatTurn[] = [],
+  ) {}
+
+  getHistory(): ChatTurn[] {
+    return [...this.history];
+  }
+
+  /**
+   * Sends the parts as one user message and streams the answer. `config`
+   * replaces the chat's instructions and schema for this message only. An
+   * aborted answer throws and leaves the history as it was.
+   */
+  async *sendMessageStream(
+    parts: string[],
+    config = this.config,
+    signal?: AbortSignal,
+  ) {
+    const message: ChatTurn = {role: 'user', text: parts.join('\n\n')};
+    let answer = '';
+    for await (const chunk of this.provider.stream({
+      model: this.settings.model,
+      temperature: this.settings.temperature,
+      ...config,
+      history: [...this.history, message],
+      signal,
+    })) {
+      // Not every backend stops by itself.
+      signal?.throwIfAborted();
+      answer += chunk;
+      yield chunk;
+    }
+    this.history.push(message, {role: 'model', text: answer});
+  }
+}
@@ -0,0 +1,552 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import {findGraph, variableReference} from './asset';
+import {
+  BlueprintAsset,
+  BlueprintConnection,
+  BlueprintGraph,
+  BlueprintNode,
+  BlueprintPin,
+  PinType,
+} from './playground';
+
+export type SimValue = boolean | number | string | SimValue[] | null;
+
+/**
+ * paused: waiting for the next step; `message` says why when the current
+ * node couldn't run. finished: the exec chain ended. stopped: there is
+ * nothing to run; see `message`.
+ */
+export type SimulationStatus = 'paused' | 'finished' | 'stopped';
+
+export interface LogEntry {
+  nodeId: string;
+  text: string;
+  warning?: boolean;
+}
+
+export interface SimulatorOptions {
+  /** Seeds Random nodes, so a run can be repeated exactly. */
+  seed?: number;
+  variables?: Map<string, SimValue>;
+}
+
+/** A node whose exec chain continues once the current chain ends. */
+type Frame =
+  | {
+      kind: 'loop';
+      nodeId: string;
+      index: number;
+      last: number;
+      array?: SimValue[];
+    }
+  | {kind: 'sequence'; nodeId: string; pins: string[]; next: number};
+
+/** Guards against graphs that never finish, like a loop over 0..1e9. */
+const MAX_STEPS = 10000;
+/** Guards against data wires that form a cycle. */
+const MAX_DATA_DEPTH = 200;
+
+const isExec = (pin: BlueprintPin) => pin.category === 'exec';
+const isContainer = (type: PinType) => (type.container ?? 'single') !== 'single';
+
+/** "Get (a copy)" and "+ (Integer)" are matched as "get" and "+". */
+function nodeKind(node: BlueprintNode) {
+  return node.label
+    .replace(/\s*\(.*\)\s*$/, '')
+    .trim()
+    .toLowerCase();
+}
+
+function zeroValue(type: PinType): SimValue {
+  if (isContainer(type)) return [];
+  switch (type.category) {
+    case 'bool':
+      return false;
+    case 'byte':
+    case 'int':
+    case 'int64':
+    case 'real':
+      return 0;
+    case 'object':
+      return null;
+    default:
+      return '';
+  }
+}
+
+/** Reads a default value the way Unreal stores it. */
+function literal(type: PinType, text: string | undefined): SimValue {
+  if (text === undefined || isContainer(type)) return zeroValue(type);
+  switch (type.category) {
+    case 'bool':
+      return text.trim().toLowerCase() === 'true';
+    case 'byte':
+    case 'int':
+    case 'int64':
+      return parseInt(text, 10) || 0;
+    case 'real':
+      return parseFloat(text) || 0;
+    default:
+      return text;
+  }
+}
+
+/** Shows a value in the watch panel. */
+export function formatValue(value: SimValue | undefined): string {
+  if (value === undefined) return '—';
+  if (value === null) return 'None';
+  if (Array.isArray(value)) return `[${value.map(formatValue).join(', ')}]`;
+  if (typeof value === 'string') return JSON.stringify(value);
+  return String(value);
+}
+
+function outOfBounds(index: number, array: SimValue[]) {
+  return `Index ${index} is out of bounds for an array of length ${array.length}.`;
+}
+
+function toText(value: SimValue): string {
+  return typeof value === 'string' ? value : formatValue(value);
+}
+
+/** Mulberry32, a small seeded generator. */
+function seededRandom(seed: number) {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const ARITHMETIC: Record<string, (a: number, b: number) => number> = {
+  '+': (a, b) => a + b,
+  'add': (a, b) => a + b,
+  '-': (a, b) => a - b,
+  'subtract': (a, b) => a - b,
+  '*': (a, b) => a * b,
+  'multiply': (a, b) => a * b,
+  '/': (a, b) => a / b,
+  'divide': (a, b) => a / b,
+  '%': (a, b) => a % b,
+};
+
+const COMPARISON: Record<string, (a: SimValue, b: SimValue) => boolean> = {
+  '==': (a, b) => a === b,
+  'equal': (a, b) => a === b,
+  '!=': (a, b) => a !== b,
+  '<': (a, b) => a < b,
+  '>': (a, b) => a > b,
+  '<=': (a, b) => a <= b,
+  '>=': (a, b) => a >= b,
+};
+
+/**
+ * Runs one graph of an asset from an event or entry node, one exec node
+ * per step. Data pins are evaluated when a node needs them. As in Unreal,
+ * a pure node like Random Integer in Range is evaluated once for each exec
+ * node that reads it, so two reads by the same node see the same roll. The
+ * asset is copied, so later edits don't affect a run.
+ */
+export class Simulator {
+  readonly graph: BlueprintGraph | undefined;
+  readonly log: LogEntry[] = [];
+  readonly variables = new Map<string, SimValue>();
+  /** Last value seen on each pin, keyed by `pinKey`. */
+  readonly pinValues = new Map<string, SimValue>();
+  status: SimulationStatus = 'paused';
+  /** Why the run stopped, or paused at a node it couldn't run. */
+  message = '';
+  /** The node that runs on the next step. */
+  currentNodeId: string | null;
+  /** The exec wire that led to the current node. */
+  currentConnection: BlueprintConnection | null = null;
+  steps = 0;
+
+  private readonly frames: Frame[] = [];
+  /** Pure outputs computed for the node that is running. */
+  private readonly evaluated = new Map<string, SimValue>();
+  private readonly random: () => number;
+  private depth = 0;
+
+  /**
+   * `variables` continues from the values left by an earlier run, e.g. to
+   * fire an event after BeginPlay has filled an array.
+   */
+  constructor(
+    asset: BlueprintAsset,
+    graphName: string,
+    startNodeId: string,
+    {seed = 1, variables}: SimulatorOptions = {},
+  ) {
+    const copy: BlueprintAsset = JSON.parse(JSON.stringify(asset));
+    this.graph = findGraph(copy, graphName);
+    this.random = seededRandom(seed);
+    for (const variable of copy.variables) {
+      this.variables.set(
+        variable.name,
+        variables?.has(variable.name)
+          ? structuredClone(variables.get(variable.name))
+          : literal(variable.type, variable.defaultValue),
+      );
+    }
+    this.currentNodeId = startNodeId;
+    if (!this.node(startNodeId)) {
+      this.stop(`There is no node "${startNodeId}" in ${graphName}.`);
+    }
+  }
+
+  static pinKey(nodeId: string, pin: string) {
+    return `${nodeId}\u0000${pin}`;
+  }
+
+  /** Runs the current node and moves to the one its exec output leads to. */
+  step() {
+    if (this.status !== 'paused') return;
+    const node = this.node(this.currentNodeId);
+    if (!node) {
+      this.stop(`Exec wire leads to missing node "${this.currentNodeId}".`);
+      return;
+    }
+    this.evaluated.clear();
+    this.message = '';
+    try {
+      this.count();
+      this.advance(node.id, this.execute(node));
+    } catch (e) {
+      // The run stays on the node, so its inputs can still be inspected.
+      this.message = `Paused at "${node.label}": ${(e as Error).message}`;
+    }
+  }
+
+  /**
+   * Steps until the next node has a breakpoint, a node can't run or the
+   * run ends. The current node's own breakpoint doesn't count, so Continue
+   * moves on.
+   */
+  run(isBreakpoint: (nodeId: string) => boolean) {
+    do {
+      this.step();
+    } while (
+      this.status === 'paused' &&
+      !this.message &&
+      !isBreakpoint(this.currentNodeId)
+    );
+  }
+
+  private stop(message: string) {
+    this.status = 'stopped';
+    this.message = message;
+  }
+
+  private count() {
+    if (++this.steps > MAX_STEPS) {
+      throw new Error(
+        `gave up after ${MAX_STEPS} steps; the graph may never finish.`,
+      );
+    }
+  }
+
+  private node(id: string) {
+    return this.graph?.nodes.find((n) => n.id === id);
+  }
+
+  private record(nodeId: string, pin: string, value: SimValue) {
+    this.pinValues.set(Simulator.pinKey(nodeId, pin), value);
+  }
+
+  private warn(node: BlueprintNode, text: string) {
+    this.log.push({nodeId: node.id, text, warning: true});
+  }
+
+  /** Name of the first pin matching `pattern`, e.g. /loop body/i. */
+  private pinNamed(pins: BlueprintPin[], pattern: RegExp, fallback: string) {
+    return pins.find((p) => pattern.test(p.name))?.name ?? fallback;
+  }
+
+  private firstExecOutput(node: BlueprintNode) {
+    return node.outputs.find(isExec)?.name ?? null;
+  }
+
+  private dataInputs(node: BlueprintNode) {
+    return node.inputs.filter((p) => !isExec(p));
+  }
+
+  /** Follows exec wires, resuming loops and sequences when a chain ends. */
+  private advance(nodeId: string, pin: string | null) {
+    let wire = this.execWire(nodeId, pin);
+    while (!wire) {
+      const frame = this.frames[this.frames.length - 1];
+      if (!frame) {
+        this.status = 'finished';
+        this.currentNodeId = null;
+        this.currentConnection = null;
+        return;
+      }
+      this.count();
+      wire = this.execWire(frame.nodeId, this.resume(frame));
+    }
+    this.currentNodeId = wire.to;
+    this.currentConnection = wire;
+  }
+
+  private execWire(nodeId: string, pin: string | null) {
+    if (pin === null) return null;
+    return (
+      this.graph.connections.find(
+        (c) => c.type === 'exec' && c.from === nodeId && c.fromPort === pin,
+      ) ?? null
+    );
+  }
+
+  /** Returns the exec output a loop or sequence continues with. */
+  private resume(frame: Frame): string | null {
+    const node = this.node(frame.nodeId);
+    if (frame.kind === 'sequence') {
+      if (frame.next < frame.pins.length) return frame.pins[frame.next++];
+      this.frames.pop();
+      return null;
+    }
+    if (frame.index < frame.last) {
+      frame.index++;
+      this.recordLoop(node, frame);
+      return this.pinNamed(node.outputs, /loop body/i, 'Loop Body');
+    }
+    this.frames.pop();
+    return this.pinNamed(node.outputs, /completed/i, 'Completed');
+  }
+
+  private recordLoop(node: BlueprintNode, frame: Frame & {kind: 'loop'}) {
+    const data = node.outputs.filter((p) => !isExec(p));
+    for (const pin of data) {
+      if (frame.array && /element/i.test(pin.name)) {
+        this.record(node.id, pin.name, frame.array[frame.index]);
+      } else if (/index/i.test(pin.name)) {
+        this.record(node.id, pin.name, frame.index);
+      }
+    }
+  }
+
+  /** Reads an input pin, evaluating whatever is wired into it. */
+  input(node: BlueprintNode, name: string): SimValue {
+    const pin = node.inputs.find((p) => p.name === name);
+    if (!pin) throw new Error(`"${node.label}" has no input "${name}".`);
+    const wire = this.graph.connections.find(
+      (c) => c.type === 'data' && c.to === node.id && c.toPort === name,
+    );
+    const value = wire
+      ? this.output(this.node(wire.from), wire.fromPort)
+      : literal(pin, pin.defaultValue);
+    this.record(node.id, name, value);
+    return value;
+  }
+
+  private output(node: BlueprintNode | undefined, pin: string): SimValue {
+    if (!node) throw new Error('a data wire comes from a missing node.');
+    const key = Simulator.pinKey(node.id, pin);
+    // Nodes with exec pins keep the values they produced when they ran.
+    if ([...node.inputs, ...node.outputs].some(isExec)) {
+      if (!this.pinValues.has(key)) {
+        throw new Error(`"${pin}" of "${node.label}" is read before it ran.`);
+      }
+      return this.pinValues.get(key);
+    }
+    if (this.evaluated.has(key)) return this.evaluated.get(key);
+    try {
+      if (++this.depth > MAX_DATA_DEPTH) {
+        throw new Error('its data wires form a cycle.');
+      }
+      const value = this.evaluate(node, pin);
+      this.evaluated.set(key, value);
+      this.record(node.id, pin, value);
+      return value;
+    } finally {
+      this.depth--;
+    }
+  }
+
+  /** Computes an output of a pure node. */
+  private evaluate(node: BlueprintNode, pin: string): SimValue {
+    if (node.type === 'reroute') return this.input(node, node.inputs[0]?.name);
+    const ref = variableReference(node);
+    if (ref?.access === 'get') {
+      if (this.variables.has(ref.name)) return this.variables.get(ref.name);
+      // Functions can read their parameters by name.
+      const entry = this.graph.nodes.find((n) => n.type === 'entry');
+      const param = entry && Simulator.pinKey(entry.id, ref.name);
+      if (param && this.pinValues.has(param)) return this.pinValues.get(param);
+      throw new Error(`variable "${ref.name}" isn't declared.`);
+    }
+
+    const kind = nodeKind(node);
+    const inputs = this.dataInputs(node);
+    const values = () => inputs.map((p) => this.input(node, p.name));
+    const operator = kind.split(/\s+/)[0];
+    const isInt = ['int', 'int64', 'byte'].includes(
+      node.outputs.find((p) => p.name === pin)?.category,
+    );
+
+    if (ARITHMETIC[operator] && inputs.length >= 2) {
+      const result = (values() as number[]).reduce(ARITHMETIC[operator]);
+      return isInt ? Math.trunc(result) : result;
+    }
+    if (COMPARISON[operator] && inputs.length === 2) {
+      const [a, b] = values();
+      return COMPARISON[operator](a, b);
+    }
+    switch (kind) {
+      case 'and':
+      case 'and boolean':
+        return values().every(Boolean);
+      case 'or':
+      case 'or boolean':
+        return values().some(Boolean);
+      case 'not':
+      case 'not boolean':
+        return !values()[0];
+      case 'make array':
+        return values();
+      case 'get': {
+        const array = this.arrayInput(node);
+        const index = Number(
+          this.input(node, this.pinNamed(inputs, /^index$/i, 'Index')),
+        );
+        if (index >= 0 && index < array.length) return array[index];
+        this.warn(node, outOfBounds(index, array));
+        const output = node.outputs.find((p) => p.name === pin);
+        return output ? zeroValue(output) : null;
+      }
+      case 'length':
+        return this.arrayInput(node).length;
+      case 'random integer in range': {
+        const min = Number(
+          this.input(node, this.pinNamed(inputs, /min/i, 'Min')),
+        );
+        const max = Number(
+          this.input(node, this.pinNamed(inputs, /max/i, 'Max')),
+        );
+        return min + Math.floor(this.random() * (max - min + 1));
+      }
+      case 'random integer': {
+        const max = Number(values()[0]);
+        return Math.floor(this.random() * max);
+      }
+      case 'random bool':
+        return this.random() < 0.5;
+      default:
+        throw new Error(`the simulator doesn't support this node yet.`);
+    }
+  }
+
+  private arrayInput(node: BlueprintNode): SimValue[] {
+    const pin =
+      node.inputs.find((p) => p.container === 'array') ??
+      this.dataInputs(node)[0];
+    const value = pin ? this.input(node, pin.name) : null;
+    if (!Array.isArray(value)) throw new Error('it needs an array.');
+    return value;
+  }
+
+  /** Runs an exec node and returns the exec output to follow, if any. */
+  private execute(node: BlueprintNode): string | null {
+    if (node.type === 'event' || node.type === 'entry') {
+      // Event and function parameters start out empty.
+      for (const pin of node.outputs.filter((p) => !isExec(p))) {
+        this.record(node.id, pin.name, zeroValue(pin));
+      }
+      return this.firstExecOutput(node);
+    }
+    if (node.type === 'return') return null;
+    if (node.type === 'reroute') return this.firstExecOutput(node);
+
+    const ref = variableReference(node);
+    if (ref?.access === 'set') {
+      if (!this.variables.has(ref.name)) {
+        throw new Error(`variable "${ref.name}" isn't declared.`);
+      }
+      const pin = this.dataInputs(node)[0];
+      const value = pin ? this.input(node, pin.name) : null;
+      this.variables.set(ref.name, value);
+      for (const out of node.outputs.filter((p) => !isExec(p))) {
+        this.record(node.id, out.name, value);
+      }
+      return this.firstExecOutput(node);
+    }
+
+    const inputs = this.dataInputs(node);
+    switch (nodeKind(node)) {
+      case 'print string': {
+        const pin = this.pinNamed(inputs, /string|text/i, inputs[0]?.name);
+        const text = pin ? toText(this.input(node, pin)) : '';
+        this.log.push({nodeId: node.id, text});
+        return this.firstExecOutput(node);
+      }
+      case 'branch': {
+        const pin = this.pinNamed(inputs, /condition/i, inputs[0]?.name);
+        const condition = pin ? Boolean(this.input(node, pin)) : false;
+        return condition
+          ? this.pinNamed(node.outputs, /^true$/i, 'True')
+          : this.pinNamed(node.outputs, /^false$/i, 'False');
+      }
+      case 'sequence': {
+        const pins = node.outputs.filter(isExec).map((p) => p.name);
+        if (pins.length > 1) {
+          this.frames.push({kind: 'sequence', nodeId: node.id, pins, next: 1});
+        }
+        return pins[0] ?? null;
+      }
+      case 'for loop': {
+        const first = Number(
+          this.input(node, this.pinNamed(inputs, /first/i, 'First Index')),
+        );
+        const last = Number(
+          this.input(node, this.pinNamed(inputs, /last/i, 'Last Index')),
+        );
+        return this.startLoop(node, {
+          kind: 'loop',
+          nodeId: node.id,
+          index: first,
+          last,
+        });
+      }
+      case 'for each loop': {
+        const array = this.arrayInput(node);
+        return this.startLoop(node, {
+          kind: 'loop',
+          nodeId: node.id,
+          index: 0,
+          last: array.length - 1,
+          array,
+        });
+      }
+      case 'set array elem': {
+        const array = this.arrayInput(node);
+        const index = Number(
+          this.input(node, this.pinNamed(inputs, /^index$/i, 'Index')),
+        );
+        const item = this.input(node, this.pinNamed(inputs, /item/i, 'Item'));
+        if (index >= 0 && index < array.length) {
+          array[index] = item;
+        } else {
+          this.warn(node, outOfBounds(index, array));
+        }
+        return this.firstExecOutput(node);
+      }
+      default:
+        throw new Error(`the simulator doesn't support this node yet.`);
+    }
+  }
+
+  private startLoop(node: BlueprintNode, frame: Frame & {kind: 'loop'}) {
+    if (frame.index > frame.last) {
+      return this.pinNamed(node.outputs, /completed/i, 'Completed');
+    }
+    this.frames.push(frame);
+    this.recordLoop(node, frame);
+    return this.pinNamed(node.outputs, /loop body/i, 'Loop Body');
+  }
+}
@@ -0,0 +1,233 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import {migrateAsset} from './asset';
+import {HeaderFile} from './headers';
+import {BlueprintAsset} from './playground';
+import {ChatTurn} from './providers';
+
+const DB_NAME = 'blueprint-magic';
+const DB_VERSION = 1;
+const PROJECT_STORE = 'projects';
+
+/** Marks a file written by `exportProject`. */
+const PROJECT_FILE_FORMAT = 'blueprint-magic-project';
+const PROJECT_FILE_VERSION = 1;
+
+/**
+ * One message of the chat panel, stored as the HTML it was shown with. The
+ * HTML is sanitized whenever a project is read, since project files can come
+ * from anyone.
+ */
+export interface ChatEntry {
+  role: string;
+  html: string;
+}
+
+export interface Project {
+  id: string;
+  name: string;
+  /** Last save, in milliseconds since the epoch. */
+  updated: number;
+  asset: BlueprintAsset;
+  transcript: ChatEntry[];
+  /** The model's view of the conversation, used to resume the chat. */
+  chatHistory: ChatTurn[];
+  /** C++ headers whose Blueprint API the model is told about. */
+  headers: HeaderFile[];
+}
+
+export type ProjectSummary = Pick<Project, 'id' | 'name' | 'updated'>;
+
+export function createProject(
+  name: string,
+  asset: BlueprintAsset,
+  transcript: ChatEntry[] = [],
+  chatHistory: ChatTurn[] = [],
+  headers: HeaderFile[] = [],
+): Project {
+  return {
+    id: crypto.randomUUID(),
+    name,
+    updated: Date.now(),
+    asset,
+    transcript,
+    chatHistory,
+    headers,
+  };
+}
+
+/** Projects saved before headers could be attached have none. */
+function migrateHeaders(raw: any): HeaderFile[] {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter((file) => typeof file?.text === 'string')
+    .map((file) => ({fileName: String(file.fileName ?? ''), text: file.text}));
+}
+
+/**
+ * Reads a saved chat history. Projects saved before the provider layer hold
+ * Gemini `Content` objects, whose text is in `parts`.
+ */
+function migrateChatHistory(raw: any): ChatTurn[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.map((turn) => ({
+    role: turn?.role === 'model' ? 'model' : 'user',
+    text:
+      typeof turn?.text === 'string'
+        ? turn.text
+        : (turn?.parts ?? []).map((part: any) => part?.text ?? '').join(''),
+  }));
+}
+
+/** Elements chat messages are drawn with: Markdown output and highlighting. */
+const TRANSCRIPT_TAGS = new Set(
+  (
+    'a b blockquote br code del div em h1 h2 h3 h4 h5 h6 hr i li ol p pre ' +
+    's span strong sub sup table tbody td th thead tr ul'
+  ).split(' '),
+);
+
+/** Elements dropped along with their content rather than unwrapped. */
+const DROPPED_TAGS = new Set(
+  'embed iframe noscript object script style svg template math'.split(' '),
+);
+
+/**
+ * Rebuilds message HTML from allowed elements only. Attributes other than
+ * `class`, and links to anything but web and mail addresses, are removed.
+ */
+function sanitizeHtml(html: string) {
+  // A parsed document is inert: nothing in it loads or runs.
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const clean = (node: Node): Node[] => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      return [document.createTextNode(node.textContent ?? '')];
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return [];
+    const element = node as Element;
+    const tag = element.localName;
+    if (DROPPED_TAGS.has(tag)) return [];
+    const children = [...element.childNodes].flatMap(clean);
+    if (!TRANSCRIPT_TAGS.has(tag)) return children;
+    const copy = document.createElement(tag);
+    const className = element.getAttribute('class');
+    if (className) copy.setAttribute('class', className);
+    const href = element.getAttribute('href');
+    if (tag === 'a' && href && /^(https?:|mailto:)/i.test(href.trim())) {
+      copy.setAttribute('href', href);
+      copy.setAttribute('target', '_blank');
+      copy.setAttribute('rel', 'noopener noreferrer');
+    }
+    copy.append(...children);
+    return [copy];
+  };
+  const container = document.createElement('div');
+  container.append(...[...doc.body.childNodes].flatMap(clean));
+  return container.innerHTML;
+}
+
+/** Reads a saved chat panel, keeping only HTML that is safe to show. */
+function migrateTranscript(raw: any): ChatEntry[] {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter((entry) => typeof entry?.html === 'string')
+    .map((entry) => ({
+      role: String(entry.role ?? 'system').replace(/[^\w-]/g, ''),
+      html: sanitizeHtml(entry.html),
+    }));
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/** Named projects kept in IndexedDB, one record per project. */
+export class ProjectStore {
+  private db: Promise<IDBDatabase> | null = null;
+
+  private open() {
+    if (!this.db) {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(PROJECT_STORE, {keyPath: 'id'});
+      };
+      this.db = promisify(request);
+    }
+    return this.db;
+  }
+
+  private async store(mode: IDBTransactionMode) {
+    const db = await this.open();
+    return db.transaction(PROJECT_STORE, mode).objectStore(PROJECT_STORE);
+  }
+
+  /** All projects, most recently saved first. */
+  async list(): Promise<ProjectSummary[]> {
+    const projects: Project[] = await promisify(
+      (await this.store('readonly')).getAll(),
+    );
+    return projects
+      .map(({id, name, updated}) => ({id, name, updated}))
+      .sort((a, b) => b.updated - a.updated);
+  }
+
+  async get(id: string): Promise<Project | undefined> {
+    const project = await promisify((await this.store('readonly')).get(id));
+    return (
+      project && {
+        ...project,
+        asset: migrateAsset(project.asset),
+        transcript: migrateTranscript(project.transcript),
+        chatHistory: migrateChatHistory(project.chatHistory),
+        headers: migrateHeaders(project.headers),
+      }
+    );
+  }
+
+  async put(project: Project) {
+    await promisify((await this.store('readwrite')).put(project));
+  }
+
+  async delete(id: string) {
+    await promisify((await this.store('readwrite')).delete(id));
+  }
+}
+
+/** Serializes a whole project into a single file. */
+export function exportProject(project: Project) {
+  return JSON.stringify(
+    {format: PROJECT_FILE_FORMAT, version: PROJECT_FILE_VERSION, project},
+    null,
+    2,
+  );
+}
+
+export function isProjectFile(json: any) {
+  return json?.format === PROJECT_FILE_FORMAT;
+}
+
+/**
+ * Reads a file written by `exportProject`. The project gets a new id so
+ * importing it twice doesn't overwrite the first copy.
+ */
+export function importProject(json: any): Project {
+  if (!isProjectFile(json) || !json.project?.asset) {
+    throw new Error('The file is not a Blueprint Magic project.');
+  }
+  if (json.version > PROJECT_FILE_VERSION) {
+    throw new Error('The project was saved by a newer version of the app.');
+  }
+  const {project} = json;
+  return createProject(
+    String(project.name || 'Imported project'),
+    migrateAsset(project.asset),
+    migrateTranscript(project.transcript),
+    migrateChatHistory(project.chatHistory),
+    migrateHeaders(project.headers),
+  );
+}
@@ -0,0 +1,181 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import {migrateAsset} from './asset';
+import {BlueprintAsset} from './playground';
+
+/** What has been read of a JSON text that may still be arriving. */
+export interface PartialJson {
+  /** The value so far; undefined until something complete has been read. */
+  value: any;
+  /**
+   * True for primitives, and for objects and arrays whose closing bracket
+   * has been read.
+   */
+  isComplete(value: unknown): boolean;
+}
+
+const INCOMPLETE = Symbol('incomplete');
+
+/**
+ * Reads as much of a JSON text as has arrived. Open objects and arrays are
+ * kept with the members read so far; a string, number or literal that may
+ * still continue is left out, as is everything after a syntax error.
+ */
+export function parsePartialJson(text: string): PartialJson {
+  const closed = new WeakSet<object>();
+  let i = 0;
+
+  const fail = (): typeof INCOMPLETE => {
+    i = text.length;
+    return INCOMPLETE;
+  };
+  const skipWhitespace = () => {
+    while (i < text.length && /\s/.test(text[i])) i++;
+  };
+
+  const string = (): string | typeof INCOMPLETE => {
+    if (text[i] !== '"') return fail();
+    const start = i++;
+    while (i < text.length && text[i] !== '"') {
+      i += text[i] === '\\' ? 2 : 1;
+    }
+    if (i >= text.length) return INCOMPLETE;
+    i++;
+    try {
+      return JSON.parse(text.slice(start, i));
+    } catch (e) {
+      return fail();
+    }
+  };
+
+  const literal = () => {
+    const match = text.slice(i).match(/^(-?[\d.eE+-]+|true|false|null)/);
+    if (!match) return fail();
+    i += match[0].length;
+    // A number at the very end may have more digits to come.
+    if (i >= text.length) return INCOMPLETE;
+    try {
+      return JSON.parse(match[0]);
+    } catch (e) {
+      return fail();
+    }
+  };
+
+  const array = () => {
+    const result: unknown[] = [];
+    i++;
+    for (;;) {
+      skipWhitespace();
+      if (i >= text.length) return result;
+      if (text[i] === ']') {
+        i++;
+        closed.add(result);
+        return result;
+      }
+      if (text[i] === ',') {
+        i++;
+        continue;
+      }
+      const item = value();
+      if (item === INCOMPLETE) return result;
+      result.push(item);
+    }
+  };
+
+  const object = () => {
+    const result: Record<string, unknown> = {};
+    i++;
+    for (;;) {
+      skipWhitespace();
+      if (i >= text.length) return result;
+      if (text[i] === '}') {
+        i++;
+        closed.add(result);
+        return result;
+      }
+      if (text[i] === ',') {
+        i++;
+        continue;
+      }
+      const key = string();
+      skipWhitespace();
+      if (key === INCOMPLETE || text[i] !== ':') {
+        fail();
+        return result;
+      }
+      i++;
+      const item = value();
+      if (item === INCOMPLETE) return result;
+      result[key] = item;
+    }
+  };
+
+  const value = (): unknown => {
+    skipWhitespace();
+    if (i >= text.length) return INCOMPLETE;
+    if (text[i] === '{') return object();
+    if (text[i] === '[') return array();
+    if (text[i] === '"') return string();
+    return literal();
+  };
+
+  // Anything before the first bracket, like a code fence, is skipped.
+  i = Math.max(text.search(/[{[]/), 0);
+  const result = value();
+  return {
+    value: result === INCOMPLETE ? undefined : result,
+    isComplete: (v) => typeof v !== 'object' || v === null || closed.has(v),
+  };
+}
+
+/** Keeps the finished elements of every list in a graph or asset. */
+function finishedLists(value: any, partial: PartialJson) {
+  return Object.fromEntries(
+    Object.entries(value).map(([key, v]) => [
+      key,
+      Array.isArray(v) ? v.filter(partial.isComplete) : v,
+    ]),
+  );
+}
+
+/**
+ * The part of a streamed blueprint answer that can be drawn: the nodes
+ * received so far, and the connections between them. Returns null until a
+ * graph has begun.
+ */
+export function streamedAsset(partial: PartialJson): BlueprintAsset | null {
+  const blueprint = partial.value?.blueprint;
+  if (!Array.isArray(blueprint?.graphs)) return null;
+  const graphs = blueprint.graphs
+    .filter((graph: any) => typeof graph?.name === 'string')
+    .map((graph: any) => {
+      const finished = finishedLists(graph, partial);
+      const list = (v: unknown): any[] => (Array.isArray(v) ? v : []);
+      const ids = new Set(list(finished.nodes).map((n) => n?.id));
+      return {
+        ...finished,
+        nodes: list(finished.nodes),
+        connections: list(finished.connections).filter(
+          (c) => ids.has(c?.from) && ids.has(c?.to),
+        ),
+      };
+    });
+  if (!graphs.some((graph: any) => graph.nodes.length)) return null;
+  return migrateAsset({...finishedLists(blueprint, partial), graphs});
+}
+
+/** The edit operations of a streamed edit answer that have fully arrived. */
+export function streamedOperations(partial: PartialJson): {
+  graph?: string;
+  operations: unknown[];
+} {
+  const {graph, operations} = partial.value ?? {};
+  return {
+    graph: typeof graph === 'string' ? graph : undefined,
+    operations: Array.isArray(operations)
+      ? operations.filter(partial.isComplete)
+      : [],
+  };
+}
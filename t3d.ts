@@ -0,0 +1,980 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import {
+  BlueprintComment,
+  BlueprintConnection,
+  BlueprintData,
+  BlueprintNode,
+  BlueprintPin,
+  PinCategory,
+  PinContainer,
+} from './playground';
+import {containerOf, pinIndex} from './pins';
+
+/** Unreal class paths used by the clipboard (T3D) format. */
+const K2_PACKAGE = '/Script/BlueprintGraph';
+const COMMENT_CLASS = '/Script/UnrealEd.EdGraphNode_Comment';
+const STANDARD_MACROS =
+  '/Engine/EditorBlueprintResources/StandardMacros.StandardMacros';
+
+const NATIVE_EVENTS: Record<string, string> = {
+  'beginplay': 'ReceiveBeginPlay',
+  'tick': 'ReceiveTick',
+  'endplay': 'ReceiveEndPlay',
+  'actorbeginoverlap': 'ReceiveActorBeginOverlap',
+  'actorendoverlap': 'ReceiveActorEndOverlap',
+  'hit': 'ReceiveHit',
+  'destroyed': 'ReceiveDestroyed',
+  'anydamage': 'ReceiveAnyDamage',
+};
+
+const LIBRARY_FUNCTIONS: Array<{label: string; owner: string; member: string}> = [
+  {label: 'Print String', owner: 'KismetSystemLibrary', member: 'PrintString'},
+  {label: 'Delay', owner: 'KismetSystemLibrary', member: 'Delay'},
+  {label: 'Is Valid', owner: 'KismetSystemLibrary', member: 'IsValid'},
+  {
+    label: 'Random Integer in Range',
+    owner: 'KismetMathLibrary',
+    member: 'RandomIntegerInRange',
+  },
+  {
+    label: 'Random Float in Range',
+    owner: 'KismetMathLibrary',
+    member: 'RandomFloatInRange',
+  },
+  {label: '+ (Integer)', owner: 'KismetMathLibrary', member: 'Add_IntInt'},
+  {label: '- (Integer)', owner: 'KismetMathLibrary', member: 'Subtract_IntInt'},
+  {label: '* (Integer)', owner: 'KismetMathLibrary', member: 'Multiply_IntInt'},
+  {label: '/ (Integer)', owner: 'KismetMathLibrary', member: 'Divide_IntInt'},
+  {label: '+ (Float)', owner: 'KismetMathLibrary', member: 'Add_DoubleDouble'},
+  {
+    label: '- (Float)',
+    owner: 'KismetMathLibrary',
+    member: 'Subtract_DoubleDouble',
+  },
+  {
+    label: '* (Float)',
+    owner: 'KismetMathLibrary',
+    member: 'Multiply_DoubleDouble',
+  },
+  {label: '/ (Float)', owner: 'KismetMathLibrary', member: 'Divide_DoubleDouble'},
+  {label: 'Length', owner: 'KismetArrayLibrary', member: 'Array_Length'},
+  {label: 'Add', owner: 'KismetArrayLibrary', member: 'Array_Add'},
+  {label: 'Set Array Elem', owner: 'KismetArrayLibrary', member: 'Array_Set'},
+  {label: 'Contains', owner: 'KismetArrayLibrary', member: 'Array_Contains'},
+  {label: 'Append', owner: 'KismetStringLibrary', member: 'Concat_StrStr'},
+];
+
+const FLOW_CONTROL_CLASSES: Array<{label: string; className: string}> = [
+  {label: 'Branch', className: 'K2Node_IfThenElse'},
+  {label: 'Sequence', className: 'K2Node_ExecutionSequence'},
+  {label: 'Switch on Int', className: 'K2Node_SwitchInteger'},
+  {label: 'Switch on String', className: 'K2Node_SwitchString'},
+  {label: 'Select', className: 'K2Node_Select'},
+];
+
+const STANDARD_MACRO_NAMES = [
+  'ForLoop',
+  'ForLoopWithBreak',
+  'ForEachLoop',
+  'ForEachLoopWithBreak',
+  'ReverseForEachLoop',
+  'WhileLoop',
+  'DoOnce',
+  'DoN',
+  'FlipFlop',
+  'Gate',
+  'IsValid',
+];
+
+/** Unreal's names for the two pins of a reroute node. */
+const KNOT_PINS = {input: 'InputPin', output: 'OutputPin'};
+
+/** Internal pin names paired with the names our graphs show, one direction. */
+type PinNames = Array<[internal: string, display: string]>;
+
+/**
+ * Pins whose internal names differ from their display names, by node class.
+ * Export and import both read this, so a pasted graph survives a round trip.
+ */
+const K2_PIN_NAMES: Record<string, {inputs: PinNames; outputs: PinNames}> = {
+  K2Node_IfThenElse: {
+    inputs: [['execute', 'Exec']],
+    outputs: [
+      ['then', 'True'],
+      ['else', 'False'],
+    ],
+  },
+  // The outputs are then_0, then_1 and so on; see `sequencePinName`.
+  K2Node_ExecutionSequence: {inputs: [['execute', 'Exec']], outputs: []},
+  // Macro pins are named after the macro's tunnel pins, e.g. "Exec" and
+  // "Array Element", so they keep our names as they are.
+  K2Node_MacroInstance: {inputs: [], outputs: []},
+};
+
+/** The exec pins every other node has, and the object a call targets. */
+const DEFAULT_PIN_NAMES: {inputs: PinNames; outputs: PinNames} = {
+  inputs: [
+    ['execute', 'Exec'],
+    ['self', 'Target'],
+  ],
+  outputs: [['then', 'Exec']],
+};
+
+function pinNames(className: string, isInput: boolean) {
+  const names = K2_PIN_NAMES[className] ?? DEFAULT_PIN_NAMES;
+  return isInput ? names.inputs : names.outputs;
+}
+
+/** "then_2" for a Sequence output shown as "Then 2", and back. */
+function sequencePinName(name: string, toInternal: boolean) {
+  const index = name.trim().match(/^then[\s_]*(\d+)$/i)?.[1];
+  if (index === undefined) return undefined;
+  return toInternal ? `then_${index}` : `Then ${index}`;
+}
+
+/** Classes whose pins are C++ parameter or property names. */
+function hasIdentifierPins(className: string) {
+  return (
+    FUNCTION_CLASSES.includes(className) ||
+    ['K2Node_Event', 'K2Node_VariableGet', 'K2Node_VariableSet'].includes(
+      className,
+    )
+  );
+}
+
+interface NodeClass {
+  className: string;
+  properties: string[];
+}
+
+/** Lower-cased label with whitespace removed, used for table lookups. */
+function labelKey(label: string) {
+  return label.toLowerCase().replace(/\s+/g, '');
+}
+
+/** Turns a display name into an identifier Unreal accepts as a member name. */
+function toMemberName(label: string) {
+  const name = label.replace(/[^A-Za-z0-9_]/g, '');
+  return name || 'Unnamed';
+}
+
+function quote(value: string) {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+function classReference(owner: string) {
+  return `/Script/CoreUObject.Class'"/Script/Engine.${owner}"'`;
+}
+
+function macroReference(macro: string) {
+  return (
+    `MacroGraphReference=(MacroGraph=/Script/Engine.EdGraph'"${STANDARD_MACROS}:${macro}"',` +
+    `GraphBlueprint=/Script/Engine.Blueprint'"${STANDARD_MACROS}"')`
+  );
+}
+
+function resolveNodeClass(node: BlueprintNode): NodeClass {
+  const key = labelKey(node.label);
+
+  switch (node.type) {
+    case 'reroute':
+      return {className: 'K2Node_Knot', properties: []};
+    case 'event': {
+      const custom = node.label.match(/^custom\s*event\s*:?\s*(.+)$/i);
+      if (!custom) {
+        const native = NATIVE_EVENTS[key.replace(/^event/, '')];
+        if (native) {
+          return {
+            className: 'K2Node_Event',
+            properties: [
+              `EventReference=(MemberParent=${classReference('Actor')},MemberName=${quote(native)})`,
+              'bOverrideFunction=True',
+            ],
+          };
+        }
+      }
+      const name = custom ? custom[1] : node.label.replace(/^event\s+/i, '');
+      return {
+        className: 'K2Node_CustomEvent',
+        properties: [`CustomFunctionName=${quote(toMemberName(name))}`],
+      };
+    }
+    case 'variable': {
+      const access = node.label.match(/^(get|set)\s+(.+)$/i);
+      const isSet = access?.[1].toLowerCase() === 'set';
+      const name = toMemberName(access ? access[2] : node.label);
+      return {
+        className: isSet ? 'K2Node_VariableSet' : 'K2Node_VariableGet',
+        properties: [
+          `VariableReference=(MemberName=${quote(name)},bSelfContext=True)`,
+        ],
+      };
+    }
+    case 'entry':
+    case 'return': {
+      // Macros use tunnel nodes, functions dedicated entry and result nodes.
+      const isEntry = node.type === 'entry';
+      if (/^(inputs|outputs)$/i.test(node.label.trim())) {
+        return {
+          className: 'K2Node_Tunnel',
+          properties: [isEntry ? 'bCanHaveOutputs=True' : 'bCanHaveInputs=True'],
+        };
+      }
+      return isEntry
+        ? {
+            className: 'K2Node_FunctionEntry',
+            properties: [
+              `FunctionReference=(MemberName=${quote(toMemberName(node.label))})`,
+            ],
+          }
+        : {className: 'K2Node_FunctionResult', properties: []};
+    }
+    case 'flow_control':
+    case 'macro': {
+      const flow = FLOW_CONTROL_CLASSES.find((f) => labelKey(f.label) === key);
+      if (flow) {
+        return {className: flow.className, properties: []};
+      }
+      const macro = STANDARD_MACRO_NAMES.find((m) => m.toLowerCase() === key);
+      return {
+        className: 'K2Node_MacroInstance',
+        properties: [macroReference(macro || toMemberName(node.label))],
+      };
+    }
+    default: {
+      if (key === 'makearray') {
+        return {className: 'K2Node_MakeArray', properties: []};
+      }
+      if (key === 'get(acopy)' || key === 'get(aref)') {
+        return {className: 'K2Node_GetArrayItem', properties: []};
+      }
+      const fn = LIBRARY_FUNCTIONS.find((f) => labelKey(f.label) === key);
+      if (fn) {
+        return {
+          className: fn.owner === 'KismetArrayLibrary'
+            ? 'K2Node_CallArrayFunction'
+            : 'K2Node_CallFunction',
+          properties: [
+            `FunctionReference=(MemberParent=${classReference(fn.owner)},MemberName=${quote(fn.member)})`,
+          ],
+        };
+      }
+      return {
+        className: 'K2Node_CallFunction',
+        properties: [
+          `FunctionReference=(MemberName=${quote(toMemberName(node.label))},bSelfContext=True)`,
+        ],
+      };
+    }
+  }
+}
+
+/**
+ * Produces a deterministic 128-bit GUID (32 upper-case hex digits) so that
+ * exporting the same graph twice yields identical text.
+ */
+function stableGuid(seed: string) {
+  let hex = '';
+  for (let round = 0; round < 4; round++) {
+    let hash = 0x811c9dc5;
+    const input = `${seed}#${round}`;
+    for (let i = 0; i < input.length; i++) {
+      hash ^= input.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    hash = Math.imul(hash ^ (hash >>> 16), 0x85ebca6b);
+    hash = Math.imul(hash ^ (hash >>> 13), 0xc2b2ae35);
+    hash ^= hash >>> 16;
+    hex += (hash >>> 0).toString(16).padStart(8, '0');
+  }
+  return hex.toUpperCase();
+}
+
+/** "#3b6ea5" as the linear color Unreal stores, e.g. "(R=0.23,...)". */
+function linearColor(hex: string) {
+  const rgb = hex.match(/^#?([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i);
+  const [r, g, b] = rgb
+    ? rgb.slice(1).map((c) => (parseInt(c, 16) / 255).toFixed(6))
+    : ['1.000000', '1.000000', '1.000000'];
+  return `(R=${r},G=${g},B=${b},A=1.000000)`;
+}
+
+interface ExportPin {
+  id: string;
+  name: string;
+  friendlyName: string;
+  isInput: boolean;
+  pin: BlueprintPin;
+  linkedTo: string[];
+}
+
+/** Engine structs that have their own pin category in our model. */
+const CORE_STRUCTS: Partial<Record<PinCategory, string>> = {
+  vector: 'Vector',
+  rotator: 'Rotator',
+  transform: 'Transform',
+};
+
+const CONTAINER_TYPES: Record<PinContainer, string> = {
+  single: 'None',
+  array: 'Array',
+  set: 'Set',
+  map: 'Map',
+};
+
+/** Object path for a class, struct or enum given by bare name or full path. */
+function typePath(kind: 'Class' | 'ScriptStruct' | 'Enum', name: string) {
+  const path = name.includes('/')
+    ? name
+    : `/Script/${kind === 'Class' ? 'Engine' : 'CoreUObject'}.${name}`;
+  return `/Script/CoreUObject.${kind}'"${path}"'`;
+}
+
+/** The PinType fields Unreal uses to describe one of our pin types. */
+function pinTypeFields(pin: BlueprintPin) {
+  let category: string = pin.category;
+  let subCategory = '';
+  let subObject = 'None';
+  switch (pin.category) {
+    case 'real':
+      subCategory = 'double';
+      break;
+    case 'vector':
+    case 'rotator':
+    case 'transform':
+      category = 'struct';
+      subObject = typePath('ScriptStruct', CORE_STRUCTS[pin.category]);
+      break;
+    case 'object':
+      subObject = typePath('Class', pin.subtype || 'Object');
+      break;
+    case 'struct':
+      if (pin.subtype) subObject = typePath('ScriptStruct', pin.subtype);
+      break;
+    case 'enum':
+      category = 'byte';
+      if (pin.subtype) subObject = typePath('Enum', pin.subtype);
+      break;
+  }
+  return [
+    `PinType.PinCategory=${quote(category)}`,
+    `PinType.PinSubCategory=${quote(subCategory)}`,
+    `PinType.PinSubCategoryObject=${subObject}`,
+    'PinType.PinSubCategoryMemberReference=()',
+    'PinType.PinValueType=()',
+    `PinType.ContainerType=${CONTAINER_TYPES[containerOf(pin)]}`,
+  ];
+}
+
+/** Maps a display pin name to the internal name Unreal's K2 nodes use. */
+function toPinName(
+  className: string,
+  port: string,
+  index: number,
+  isInput: boolean,
+  isExec: boolean,
+  execCount: number,
+) {
+  const display = port.trim();
+  const known = pinNames(className, isInput).find(
+    ([, name]) => name.toLowerCase() === display.toLowerCase(),
+  );
+  if (known) return known[0];
+  if (className === 'K2Node_ExecutionSequence' && !isInput) {
+    const then = sequencePinName(display, true);
+    if (then) return then;
+  }
+  // A node's only exec pin is its main one, whatever the graph calls it.
+  if (isExec && execCount === 1 && className !== 'K2Node_MacroInstance') {
+    if (isInput) return 'execute';
+    if (/^(out\s*)?(exec|then)$/i.test(display)) return 'then';
+  }
+  const name = hasIdentifierPins(className)
+    ? display.replace(/[^A-Za-z0-9_\[\]]/g, '')
+    : display;
+  return name || String.fromCharCode(65 + index);
+}
+
+function formatPin(pin: ExportPin) {
+  const fields = [
+    `PinId=${pin.id}`,
+    `PinName=${quote(pin.name)}`,
+  ];
+  if (pin.friendlyName && pin.friendlyName !== pin.name) {
+    fields.push(`PinFriendlyName=INVTEXT(${quote(pin.friendlyName)})`);
+  }
+  if (!pin.isInput) fields.push('Direction="EGPD_Output"');
+  fields.push(
+    ...pinTypeFields(pin.pin),
+    'PinType.bIsReference=False',
+    'PinType.bIsConst=False',
+    'PinType.bIsWeakPointer=False',
+    'PinType.bIsUObjectWrapper=False',
+  );
+  if (pin.isInput && pin.pin.defaultValue !== undefined) {
+    fields.push(`DefaultValue=${quote(pin.pin.defaultValue)}`);
+  }
+  if (pin.linkedTo.length) {
+    fields.push(`LinkedTo=(${pin.linkedTo.map((l) => `${l},`).join('')})`);
+  }
+  fields.push(
+    'PersistentGuid=00000000000000000000000000000000',
+    'bHidden=False',
+    'bNotConnectable=False',
+    'bDefaultValueIsReadOnly=False',
+    'bDefaultValueIsIgnored=False',
+    'bAdvancedView=False',
+    'bOrphanedPin=False',
+  );
+  return `   CustomProperties Pin (${fields.join(',')},)`;
+}
+
+/**
+ * Converts a blueprint graph into the text the Unreal editor produces when
+ * nodes are copied, so the result can be pasted straight into a graph with
+ * Ctrl+V.
+ */
+export function exportToT3D(data: BlueprintData): string {
+  const classCounters: Record<string, number> = {};
+  const objectNames = new Map<string, string>();
+  const nodeClasses = new Map<string, NodeClass>();
+  const pins = new Map<string, {inputs: ExportPin[]; outputs: ExportPin[]}>();
+
+  for (const node of data.nodes) {
+    const nodeClass = resolveNodeClass(node);
+    const counter = classCounters[nodeClass.className] ?? 0;
+    classCounters[nodeClass.className] = counter + 1;
+    objectNames.set(node.id, `${nodeClass.className}_${counter}`);
+    nodeClasses.set(node.id, nodeClass);
+
+    const buildPins = (ports: BlueprintPin[], isInput: boolean) => {
+      const execCount = ports.filter((p) => p.category === 'exec').length;
+      return ports.map((pin, i) => ({
+        id: stableGuid(`${node.id}/${isInput ? 'in' : 'out'}/${i}/${pin.name}`),
+        name:
+          node.type === 'reroute'
+            ? KNOT_PINS[isInput ? 'input' : 'output']
+            : toPinName(
+                nodeClass.className,
+                pin.name,
+                i,
+                isInput,
+                pin.category === 'exec',
+                execCount,
+              ),
+        friendlyName: pin.name,
+        isInput,
+        pin,
+        linkedTo: [],
+      }));
+    };
+    pins.set(node.id, {
+      inputs: buildPins(node.inputs, true),
+      outputs: buildPins(node.outputs, false),
+    });
+  }
+
+  // LinkedTo must be written on both ends of every wire.
+  for (const conn of data.connections) {
+    const fromNode = data.nodes.find((n) => n.id === conn.from);
+    const toNode = data.nodes.find((n) => n.id === conn.to);
+    if (!fromNode || !toNode) continue;
+    const fromPin = pins.get(fromNode.id).outputs[
+      pinIndex(fromNode, conn.fromPort, false)
+    ];
+    const toPin = pins.get(toNode.id).inputs[pinIndex(toNode, conn.toPort, true)];
+    if (!fromPin || !toPin) continue;
+    fromPin.linkedTo.push(`${objectNames.get(toNode.id)} ${toPin.id}`);
+    toPin.linkedTo.push(`${objectNames.get(fromNode.id)} ${fromPin.id}`);
+  }
+
+  const blocks = data.nodes.map((node) => {
+    const nodeClass = nodeClasses.get(node.id);
+    const nodePins = pins.get(node.id);
+    const lines = [
+      `Begin Object Class=${K2_PACKAGE}.${nodeClass.className} Name=${quote(
+        objectNames.get(node.id),
+      )}`,
+      ...nodeClass.properties.map((p) => `   ${p}`),
+      `   NodePosX=${Math.round(node.x)}`,
+      `   NodePosY=${Math.round(node.y)}`,
+      `   NodeGuid=${stableGuid(`node/${node.id}`)}`,
+      ...nodePins.inputs.map(formatPin),
+      ...nodePins.outputs.map(formatPin),
+      'End Object',
+    ];
+    return lines.join('\n');
+  });
+
+  const comments = (data.comments ?? []).map((comment, i) =>
+    [
+      `Begin Object Class=${COMMENT_CLASS} Name=${quote(`EdGraphNode_Comment_${i}`)}`,
+      ...(comment.color
+        ? [`   CommentColor=${linearColor(comment.color)}`]
+        : []),
+      `   NodePosX=${Math.round(comment.x)}`,
+      `   NodePosY=${Math.round(comment.y)}`,
+      `   NodeWidth=${Math.round(comment.width)}`,
+      `   NodeHeight=${Math.round(comment.height)}`,
+      `   NodeComment=${quote(comment.title)}`,
+      `   NodeGuid=${stableGuid(`comment/${comment.id}`)}`,
+      'End Object',
+    ].join('\n'),
+  );
+
+  return [...comments, ...blocks].join('\n') + '\n';
+}
+
+// --- Import ---
+
+const EVENT_CLASSES = [
+  'K2Node_Event',
+  'K2Node_CustomEvent',
+  'K2Node_ComponentBoundEvent',
+  'K2Node_ActorBoundEvent',
+  'K2Node_InputAction',
+  'K2Node_InputKey',
+  'K2Node_InputAxisEvent',
+  'K2Node_EnhancedInputAction',
+];
+
+const FUNCTION_CLASSES = [
+  'K2Node_CallFunction',
+  'K2Node_CallArrayFunction',
+  'K2Node_CallParentFunction',
+  'K2Node_MakeArray',
+  'K2Node_GetArrayItem',
+  'K2Node_CommutativeAssociativeBinaryOperator',
+  'K2Node_PromotableOperator',
+  'K2Node_DynamicCast',
+  'K2Node_SpawnActorFromClass',
+  'K2Node_MakeStruct',
+  'K2Node_BreakStruct',
+];
+
+export interface T3DImportResult {
+  data: BlueprintData;
+  warnings: string[];
+}
+
+interface ImportPin {
+  id: string;
+  name: string;
+  isInput: boolean;
+  type: Omit<BlueprintPin, 'name' | 'direction'>;
+  linkedTo: Array<{node: string; pin: string}>;
+}
+
+interface ImportObject {
+  className: string;
+  name: string;
+  properties: Record<string, string>;
+  pins: ImportPin[];
+}
+
+/** True when the text looks like nodes copied from the Unreal editor. */
+export function isT3DText(text: string) {
+  return /^\s*Begin\s+Object\s+Class=/i.test(text);
+}
+
+/**
+ * Splits a comma separated T3D value list on its top level, keeping quoted
+ * strings and parenthesised groups intact.
+ */
+function splitTopLevel(value: string) {
+  const parts: string[] = [];
+  let depth = 0;
+  let inQuotes = false;
+  let current = '';
+  for (let i = 0; i < value.length; i++) {
+    const ch = value[i];
+    if (inQuotes) {
+      current += ch;
+      if (ch === '\\' && i + 1 < value.length) {
+        current += value[++i];
+      } else if (ch === '"') {
+        inQuotes = false;
+      }
+      continue;
+    }
+    if (ch === '"') inQuotes = true;
+    if (ch === '(') depth++;
+    if (ch === ')') depth--;
+    if (ch === ',' && depth === 0) {
+      if (current.trim()) parts.push(current.trim());
+      current = '';
+      continue;
+    }
+    current += ch;
+  }
+  if (current.trim()) parts.push(current.trim());
+  return parts;
+}
+
+function parseFields(value: string) {
+  const fields: Record<string, string> = {};
+  for (const part of splitTopLevel(value)) {
+    const eq = part.indexOf('=');
+    if (eq < 0) continue;
+    fields[part.slice(0, eq).trim()] = part.slice(eq + 1).trim();
+  }
+  return fields;
+}
+
+function unquote(value: string | undefined) {
+  if (!value) return '';
+  const text = value.match(/"((?:[^"\\]|\\.)*)"/);
+  const raw = text ? text[1] : value;
+  return raw.replace(/\\(.)/g, '$1');
+}
+
+function stripParens(value: string) {
+  return value.replace(/^\(/, '').replace(/\)$/, '');
+}
+
+/** "ForEachLoopWithBreak" -> "For Each Loop With Break" */
+function splitCamelCase(name: string) {
+  return name
+    .replace(/_/g, ' ')
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z])([A-Z][a-z])/g, '$1 $2')
+    .trim();
+}
+
+/** Reads our pin type back from Unreal's PinType fields. */
+function importPinType(
+  fields: Record<string, string>,
+): Omit<BlueprintPin, 'name' | 'direction'> {
+  const category = unquote(fields['PinType.PinCategory']).toLowerCase();
+  // e.g. /Script/CoreUObject.ScriptStruct'"/Script/CoreUObject.Vector"'
+  const subObject = fields['PinType.PinSubCategoryObject'] ?? 'None';
+  const subName = subObject === 'None'
+    ? ''
+    : unquote(subObject.slice(subObject.indexOf("'"))).split('.').pop();
+
+  let type: Omit<BlueprintPin, 'name' | 'direction'>;
+  switch (category) {
+    case 'exec':
+    case 'bool':
+    case 'int':
+    case 'int64':
+    case 'name':
+    case 'string':
+    case 'text':
+      type = {category};
+      break;
+    case 'real':
+    case 'float':
+    case 'double':
+      type = {category: 'real'};
+      break;
+    case 'byte':
+      type = subObject.includes('Enum')
+        ? {category: 'enum', subtype: subName}
+        : {category: 'byte'};
+      break;
+    case 'struct': {
+      const core = Object.entries(CORE_STRUCTS).find(([, s]) => s === subName);
+      type = core
+        ? {category: core[0] as PinCategory}
+        : {category: 'struct', subtype: subName || undefined};
+      break;
+    }
+    case 'object':
+    case 'class':
+    case 'softobject':
+    case 'softclass':
+    case 'interface':
+      type = {category: 'object', subtype: subName || undefined};
+      break;
+    default:
+      type = {category: 'wildcard'};
+  }
+  if (!type.subtype) delete type.subtype;
+
+  const container = Object.entries(CONTAINER_TYPES).find(
+    ([, name]) => name === (fields['PinType.ContainerType'] ?? 'None'),
+  );
+  if (container && container[0] !== 'single') {
+    type.container = container[0] as PinContainer;
+  }
+  return type;
+}
+
+function parsePin(body: string): ImportPin & {hidden: boolean} {
+  const fields = parseFields(body);
+  const linkedTo = splitTopLevel(stripParens(fields['LinkedTo'] ?? '')).map(
+    (link) => {
+      const [node, pin] = link.split(/\s+/);
+      return {node, pin};
+    },
+  );
+  const friendly = fields['PinFriendlyName'];
+  const type = importPinType(fields);
+  const defaultValue = unquote(fields['DefaultValue']);
+  if (defaultValue && type.category !== 'exec') type.defaultValue = defaultValue;
+  return {
+    id: fields['PinId'],
+    name: friendly ? unquote(friendly) : unquote(fields['PinName']),
+    isInput: unquote(fields['Direction']) !== 'EGPD_Output',
+    type,
+    hidden: fields['bHidden'] === 'True',
+    linkedTo: linkedTo.filter((l) => l.node && l.pin),
+  };
+}
+
+function parseObjects(text: string) {
+  const objects: ImportObject[] = [];
+  let current: ImportObject | null = null;
+  let nestedDepth = 0;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line) continue;
+
+    const begin = line.match(/^Begin\s+Object\s+(.*)$/i);
+    if (begin) {
+      if (current) {
+        nestedDepth++;
+        continue;
+      }
+      const header = parseFields(begin[1].replace(/\s+(?=\w+=)/g, ','));
+      current = {
+        className: unquote(header['Class']).split('.').pop() ?? '',
+        name: unquote(header['Name']),
+        properties: {},
+        pins: [],
+      };
+      continue;
+    }
+    if (/^End\s+Object/i.test(line)) {
+      if (nestedDepth > 0) {
+        nestedDepth--;
+      } else if (current) {
+        objects.push(current);
+        current = null;
+      }
+      continue;
+    }
+    if (!current || nestedDepth > 0) continue;
+
+    const pin = line.match(/^CustomProperties\s+Pin\s+\((.*)\)\s*$/);
+    if (pin) {
+      const parsed = parsePin(pin[1]);
+      if (!parsed.hidden) current.pins.push(parsed);
+      continue;
+    }
+    const eq = line.indexOf('=');
+    if (eq > 0) {
+      current.properties[line.slice(0, eq).trim()] = line.slice(eq + 1).trim();
+    }
+  }
+  return objects;
+}
+
+function memberName(reference: string | undefined) {
+  if (!reference) return '';
+  return unquote(parseFields(stripParens(reference))['MemberName']);
+}
+
+function importNodeType(className: string, properties: Record<string, string>) {
+  if (EVENT_CLASSES.includes(className)) return 'event';
+  if (className === 'K2Node_VariableGet' || className === 'K2Node_VariableSet') {
+    return 'variable';
+  }
+  if (FLOW_CONTROL_CLASSES.some((f) => f.className === className)) {
+    return 'flow_control';
+  }
+  if (className === 'K2Node_MacroInstance') {
+    return (properties['MacroGraphReference'] ?? '').includes(STANDARD_MACROS)
+      ? 'flow_control'
+      : 'macro';
+  }
+  if (FUNCTION_CLASSES.includes(className)) return 'function';
+  if (className === 'K2Node_FunctionEntry') return 'entry';
+  if (className === 'K2Node_FunctionResult') return 'return';
+  if (className === 'K2Node_Tunnel') {
+    return properties['bCanHaveOutputs'] === 'True' ? 'entry' : 'return';
+  }
+  if (className === 'K2Node_Knot') return 'reroute';
+  return null;
+}
+
+function importNodeLabel(object: ImportObject) {
+  const {className, properties} = object;
+  switch (className) {
+    case 'K2Node_Event': {
+      const member = memberName(properties['EventReference']);
+      return `Event ${splitCamelCase(member.replace(/^Receive/, ''))}`;
+    }
+    case 'K2Node_CustomEvent':
+      return `Custom Event: ${unquote(properties['CustomFunctionName'])}`;
+    case 'K2Node_VariableGet':
+      return `Get ${memberName(properties['VariableReference'])}`;
+    case 'K2Node_VariableSet':
+      return `Set ${memberName(properties['VariableReference'])}`;
+    case 'K2Node_FunctionEntry':
+      return memberName(properties['FunctionReference']) || 'Entry';
+    case 'K2Node_FunctionResult':
+      return 'Return Node';
+    case 'K2Node_Tunnel':
+      return properties['bCanHaveOutputs'] === 'True' ? 'Inputs' : 'Outputs';
+    case 'K2Node_MakeArray':
+      return 'Make Array';
+    case 'K2Node_GetArrayItem':
+      return 'Get (a copy)';
+    case 'K2Node_Knot':
+      return 'Reroute';
+    case 'K2Node_MacroInstance': {
+      const macro = (properties['MacroGraphReference'] ?? '').match(
+        /:([A-Za-z0-9_]+)'?"?'?,/,
+      );
+      return splitCamelCase(macro ? macro[1] : 'Macro');
+    }
+  }
+  const flow = FLOW_CONTROL_CLASSES.find((f) => f.className === className);
+  if (flow) return flow.label;
+
+  const member = memberName(properties['FunctionReference']);
+  if (member) {
+    const fn = LIBRARY_FUNCTIONS.find((f) => f.member === member);
+    return fn ? fn.label : splitCamelCase(member);
+  }
+  return splitCamelCase(className.replace(/^K2Node_/, ''));
+}
+
+/** Maps internal pin names back to the display names used in our graphs. */
+function importPinName(className: string, pin: ImportPin) {
+  if (className === 'K2Node_Knot') return pin.isInput ? 'In' : 'Out';
+  const known = pinNames(className, pin.isInput).find(
+    ([name]) => name === pin.name,
+  );
+  if (known) return known[1];
+  if (className === 'K2Node_ExecutionSequence' && !pin.isInput) {
+    const then = sequencePinName(pin.name, false);
+    if (then) return then;
+  }
+  return splitCamelCase(pin.name);
+}
+
+/** Reads Unreal's "(R=0.23,G=...)" linear color back as "#3b6ea5". */
+function hexColor(value: string) {
+  const fields = parseFields(stripParens(value));
+  const channel = (name: string) => {
+    const c = Math.min(1, Math.max(0, Number(fields[name]) || 0));
+    return Math.round(c * 255).toString(16).padStart(2, '0');
+  };
+  return `#${channel('R')}${channel('G')}${channel('B')}`;
+}
+
+function importComment(object: ImportObject, index: number): BlueprintComment {
+  const {properties} = object;
+  const comment: BlueprintComment = {
+    id: `comment_${index + 1}`,
+    title: unquote(properties['NodeComment']),
+    x: Number(properties['NodePosX'] ?? 0),
+    y: Number(properties['NodePosY'] ?? 0),
+    width: Number(properties['NodeWidth'] ?? 400),
+    height: Number(properties['NodeHeight'] ?? 100),
+  };
+  if (properties['CommentColor']) {
+    comment.color = hexColor(properties['CommentColor']);
+  }
+  return comment;
+}
+
+/**
+ * Parses text copied from the Unreal editor (a list of K2Node objects) into
+ * a blueprint graph. Nodes of classes we don't recognise are kept as generic
+ * function nodes; anything that cannot be represented is listed in warnings.
+ */
+export function importFromT3D(text: string): T3DImportResult {
+  const warnings: string[] = [];
+  const objects = parseObjects(text);
+  if (!objects.length) {
+    throw new Error('No Unreal nodes found in the pasted text.');
+  }
+
+  const nodes: BlueprintNode[] = [];
+  const comments: BlueprintComment[] = [];
+  const pinLookup = new Map<string, {nodeId: string; port: string}>();
+  const kept: ImportObject[] = [];
+
+  for (const object of objects) {
+    if (object.className === 'EdGraphNode_Comment') {
+      comments.push(importComment(object, comments.length));
+      continue;
+    }
+    let type = importNodeType(object.className, object.properties);
+    if (!type) {
+      warnings.push(
+        `Imported ${object.name} as a generic node: unknown class ${object.className}.`,
+      );
+      type = 'function';
+    }
+
+    const node: BlueprintNode = {
+      id: object.name,
+      label: importNodeLabel(object),
+      type,
+      x: Number(object.properties['NodePosX'] ?? 0),
+      y: Number(object.properties['NodePosY'] ?? 0),
+      inputs: [],
+      outputs: [],
+    };
+    for (const pin of object.pins) {
+      const port = importPinName(object.className, pin);
+      (pin.isInput ? node.inputs : node.outputs).push({
+        name: port,
+        direction: pin.isInput ? 'input' : 'output',
+        ...pin.type,
+      });
+      pinLookup.set(`${object.name} ${pin.id}`, {nodeId: node.id, port});
+    }
+    nodes.push(node);
+    kept.push(object);
+  }
+
+  // Every link is stored on both pins, so only follow the output side.
+  const connections: BlueprintConnection[] = [];
+  for (const object of kept) {
+    for (const pin of object.pins) {
+      if (pin.isInput) continue;
+      const from = pinLookup.get(`${object.name} ${pin.id}`);
+      for (const link of pin.linkedTo) {
+        const to = pinLookup.get(`${link.node} ${link.pin}`);
+        if (!to) {
+          warnings.push(
+            `Dropped link from ${object.name}.${from.port}: ${link.node} is not part of the pasted nodes.`,
+          );
+          continue;
+        }
+        connections.push({
+          from: from.nodeId,
+          to: to.nodeId,
+          fromPort: from.port,
+          toPort: to.port,
+          type: pin.type.category === 'exec' ? 'exec' : 'data',
+        });
+      }
+    }
+  }
+
+  // Unreal positions are often negative; move the graph next to the origin.
+  const placed = [...nodes, ...comments];
+  if (placed.length) {
+    const minX = Math.min(...placed.map((n) => n.x));
+    const minY = Math.min(...placed.map((n) => n.y));
+    for (const item of placed) {
+      item.x = Math.round(item.x - minX + 50);
+      item.y = Math.round(item.y - minY + 50);
+    }
+  }
+
+  const data: BlueprintData = {nodes, connections};
+  if (comments.length) data.comments = comments;
+  return {data, warnings};
+}
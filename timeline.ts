@@ -0,0 +1,96 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import {findGraph} from './asset';
+import {recordGrouped} from './history';
+import {BlueprintAsset, BlueprintGraph} from './playground';
+import {diffGraphs, GraphDiff} from './patch';
+
+/** One committed state of the asset, kept for the revision timeline. */
+export interface Snapshot {
+  id: number;
+  /** The chat message or edit that produced this state. */
+  label: string;
+  json: string;
+  time: number;
+  group?: string;
+}
+
+/**
+ * Every committed state of a session in the order it happened. Unlike the
+ * undo stack, nothing is dropped when an older state comes back.
+ */
+export class Timeline {
+  private snapshots: Snapshot[] = [];
+  private nextId = 1;
+
+  constructor(
+    private readonly limit = 200,
+    private readonly groupWindowMs = 1500,
+  ) {}
+
+  get all(): readonly Snapshot[] {
+    return this.snapshots;
+  }
+
+  get latest() {
+    return this.snapshots[this.snapshots.length - 1];
+  }
+
+  find(id: number) {
+    return this.snapshots.find((s) => s.id === id);
+  }
+
+  record(label: string, json: string, group?: string) {
+    if (this.latest?.json === json) return;
+    // Typing in the JSON editor is kept as one snapshot per pause.
+    recordGrouped(
+      this.snapshots,
+      group,
+      {limit: this.limit, windowMs: this.groupWindowMs},
+      (time) => ({id: this.nextId++, label, json, time, group}),
+      (last) => (last.json = json),
+    );
+  }
+}
+
+/** How one graph differs between two snapshots. */
+export interface GraphChange {
+  graph: string;
+  status: 'added' | 'removed' | 'changed';
+  diff: GraphDiff;
+  before?: BlueprintGraph;
+  after?: BlueprintGraph;
+}
+
+const EMPTY_GRAPH = {nodes: [], connections: []};
+
+/** Compares two assets graph by graph, matching graphs by name. */
+export function diffAssets(
+  before: BlueprintAsset,
+  after: BlueprintAsset,
+): GraphChange[] {
+  const names = [
+    ...after.graphs.map((g) => g.name),
+    ...before.graphs
+      .map((g) => g.name)
+      .filter((name) => !findGraph(after, name)),
+  ];
+  const changes: GraphChange[] = [];
+  for (const name of names) {
+    const old = findGraph(before, name);
+    const current = findGraph(after, name);
+    const diff = diffGraphs(old ?? EMPTY_GRAPH, current ?? EMPTY_GRAPH);
+    const unchanged = Object.values(diff).every((list) => !list.length);
+    if (old && current && unchanged) continue;
+    changes.push({
+      graph: name,
+      status: !old ? 'added' : !current ? 'removed' : 'changed',
+      diff,
+      before: old,
+      after: current,
+    });
+  }
+  return changes;
+}
@@ -0,0 +1,389 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import {variableReference} from './asset';
+import {NodeCatalog, unknownNodes} from './catalog';
+import {
+  BlueprintAsset,
+  BlueprintData,
+  BlueprintGraph,
+  BlueprintNode,
+} from './playground';
+import {
+  defaultValueError,
+  findPin,
+  formatPinType,
+  pinConnectionError,
+} from './pins';
+
+export type IssueSeverity = 'error' | 'warning';
+
+export interface ValidationIssue {
+  severity: IssueSeverity;
+  code: string;
+  message: string;
+  /** Ids of the nodes involved, used to highlight them on the canvas. */
+  nodeIds: string[];
+  /** Indexes into `connections` of the wires involved. */
+  connections: number[];
+  /** Graph the issue was found in, when checking a whole asset. */
+  graph?: string;
+}
+
+/** Inputs that fall back to a sensible value when left unconnected. */
+const OPTIONAL_INPUTS = ['target', 'self'];
+
+/** Nodes that start execution: events, and the entry of functions and macros. */
+const START_NODE_TYPES = ['event', 'entry'];
+
+/**
+ * Checks a graph for structural problems that would make it impossible to
+ * draw or to rebuild in Unreal. Returns an empty list for a clean graph.
+ */
+export function validateBlueprint(data: BlueprintData): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const nodesById = new Map<string, BlueprintNode>();
+
+  for (const node of data.nodes) {
+    if (nodesById.has(node.id)) {
+      issues.push({
+        severity: 'error',
+        code: 'duplicate-id',
+        message: `Node id "${node.id}" is used by more than one node.`,
+        nodeIds: [node.id],
+        connections: [],
+      });
+    } else {
+      nodesById.set(node.id, node);
+    }
+  }
+
+  // Indexes of the connections whose nodes, ports and wire type check out.
+  const valid = new Set<number>();
+
+  data.connections.forEach((conn, index) => {
+    const from = nodesById.get(conn.from);
+    const to = nodesById.get(conn.to);
+    if (!from || !to) {
+      const missing = [!from ? conn.from : '', !to ? conn.to : '']
+        .filter(Boolean)
+        .map((id) => `"${id}"`)
+        .join(' and ');
+      issues.push({
+        severity: 'error',
+        code: 'missing-node',
+        message: `Connection ${index} refers to missing node ${missing}.`,
+        nodeIds: [from?.id, to?.id].filter(Boolean),
+        connections: [index],
+      });
+      return;
+    }
+
+    const fromPin = findPin(from, conn.fromPort, false);
+    const toPin = findPin(to, conn.toPort, true);
+    if (!fromPin) {
+      issues.push({
+        severity: 'error',
+        code: 'missing-port',
+        message: `"${from.label}" has no output named "${conn.fromPort}".`,
+        nodeIds: [from.id, to.id],
+        connections: [index],
+      });
+    }
+    if (!toPin) {
+      issues.push({
+        severity: 'error',
+        code: 'missing-port',
+        message: `"${to.label}" has no input named "${conn.toPort}".`,
+        nodeIds: [from.id, to.id],
+        connections: [index],
+      });
+    }
+    if (!fromPin || !toPin) return;
+
+    const wrongEnd = [fromPin, toPin].find(
+      (pin) => (pin.category === 'exec') !== (conn.type === 'exec'),
+    );
+    if (wrongEnd) {
+      const pin = wrongEnd === fromPin
+        ? `${from.label}.${conn.fromPort}`
+        : `${to.label}.${conn.toPort}`;
+      issues.push({
+        severity: 'error',
+        code: 'wire-type',
+        message: `${conn.type === 'exec' ? 'Exec' : 'Data'} wire is connected to ${
+          wrongEnd.category === 'exec' ? 'exec' : 'data'
+        } pin "${pin}".`,
+        nodeIds: [from.id, to.id],
+        connections: [index],
+      });
+      return;
+    }
+
+    const typeError = pinConnectionError(fromPin, toPin);
+    if (typeError) {
+      issues.push({
+        severity: 'error',
+        code: 'pin-type',
+        message: `${from.label}.${conn.fromPort} -> ${to.label}.${conn.toPort}: ${typeError}`,
+        nodeIds: [from.id, to.id],
+        connections: [index],
+      });
+      return;
+    }
+    valid.add(index);
+  });
+
+  // Wires grouped by the pin they attach to.
+  const incoming = new Map<string, number[]>();
+  const outgoing = new Map<string, number[]>();
+  for (const index of valid) {
+    const conn = data.connections[index];
+    const inKey = `${conn.to}\u0000${conn.toPort}`;
+    const outKey = `${conn.from}\u0000${conn.fromPort}`;
+    incoming.set(inKey, [...(incoming.get(inKey) ?? []), index]);
+    outgoing.set(outKey, [...(outgoing.get(outKey) ?? []), index]);
+  }
+
+  for (const [key, indexes] of incoming) {
+    if (indexes.length < 2) continue;
+    const [nodeId, port] = key.split('\u0000');
+    const label = nodesById.get(nodeId).label;
+    const types = indexes.map((i) => data.connections[i].type);
+    if (types.includes('exec')) {
+      issues.push({
+        severity: 'warning',
+        code: 'multiple-exec-inputs',
+        message: `Input "${label}.${port}" receives ${indexes.length} exec wires.`,
+        nodeIds: [nodeId, ...indexes.map((i) => data.connections[i].from)],
+        connections: indexes,
+      });
+    } else {
+      issues.push({
+        severity: 'error',
+        code: 'multiple-data-sources',
+        message: `Data input "${label}.${port}" has ${indexes.length} sources.`,
+        nodeIds: [nodeId, ...indexes.map((i) => data.connections[i].from)],
+        connections: indexes,
+      });
+    }
+  }
+
+  for (const [key, indexes] of outgoing) {
+    const exec = indexes.filter((i) => data.connections[i].type === 'exec');
+    if (exec.length < 2) continue;
+    const [nodeId, port] = key.split('\u0000');
+    issues.push({
+      severity: 'error',
+      code: 'multiple-exec-outputs',
+      message: `Exec output "${nodesById.get(nodeId).label}.${port}" drives ${exec.length} wires; Unreal allows one.`,
+      nodeIds: [nodeId, ...exec.map((i) => data.connections[i].to)],
+      connections: exec,
+    });
+  }
+
+  for (const node of nodesById.values()) {
+    for (const pin of [...node.inputs, ...node.outputs]) {
+      const error = defaultValueError(pin);
+      if (!error) continue;
+      issues.push({
+        severity: 'error',
+        code: 'invalid-default',
+        message: `Default value of "${node.label}.${pin.name}": ${error}`,
+        nodeIds: [node.id],
+        connections: [],
+      });
+    }
+  }
+
+  for (const node of nodesById.values()) {
+    node.inputs.forEach(({name: port, category, defaultValue}) => {
+      if (category === 'exec' || defaultValue !== undefined) return;
+      if (OPTIONAL_INPUTS.includes(port.toLowerCase())) return;
+      const connected = data.connections.some(
+        (c) => c.to === node.id && c.toPort === port,
+      );
+      if (connected) return;
+      issues.push({
+        severity: 'warning',
+        code: 'unconnected-input',
+        message: `Data input "${node.label}.${port || '(unnamed)'}" has no source.`,
+        nodeIds: [node.id],
+        connections: [],
+      });
+    });
+  }
+
+  // Nodes with exec inputs only run when an event's exec chain reaches them.
+  const reached = new Set<string>();
+  const queue = [...nodesById.values()]
+    .filter((n) => START_NODE_TYPES.includes(n.type))
+    .map((n) => n.id);
+  while (queue.length) {
+    const id = queue.shift();
+    if (reached.has(id)) continue;
+    reached.add(id);
+    for (const index of valid) {
+      const conn = data.connections[index];
+      if (conn.type === 'exec' && conn.from === id) queue.push(conn.to);
+    }
+  }
+  for (const node of nodesById.values()) {
+    if (reached.has(node.id)) continue;
+    const hasExecInput = node.inputs.some((p) => p.category === 'exec');
+    if (!hasExecInput) continue;
+    issues.push({
+      severity: 'warning',
+      code: 'unreachable',
+      message: `"${node.label}" can't be reached from any event.`,
+      nodeIds: [node.id],
+      connections: [],
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * Flags Get and Set nodes that use a variable the asset doesn't declare,
+ * which is usually a typo, or that disagree with its declared type.
+ */
+function checkVariableNodes(
+  asset: BlueprintAsset,
+  graph: BlueprintGraph,
+  catalog?: NodeCatalog,
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  for (const node of graph.nodes) {
+    const ref = variableReference(node);
+    if (!ref) continue;
+    // Functions can also read their own parameters.
+    const param = graph.inputs?.find((p) => p.name === ref.name);
+    if (param && ref.access === 'get') continue;
+    const variable = asset.variables.find((v) => v.name === ref.name);
+    // Properties of the project's C++ classes are in the catalog, and need
+    // no declaration in blueprints whose parent class has them.
+    const inherited = catalog
+      ?.find(node.label)
+      .some((e) => e.owners?.includes(asset.parentClass));
+    if (!variable && inherited) continue;
+    if (!variable) {
+      const similar = asset.variables.find(
+        (v) => v.name.toLowerCase() === ref.name.toLowerCase(),
+      );
+      issues.push({
+        severity: 'error',
+        code: 'undeclared-variable',
+        message: `"${node.label}" uses variable "${ref.name}", which isn't declared${
+          similar ? `; did you mean "${similar.name}"?` : '.'
+        }`,
+        nodeIds: [node.id],
+        connections: [],
+        graph: graph.name,
+      });
+      continue;
+    }
+    const pin = findPin(node, ref.name, ref.access === 'set');
+    const declared = formatPinType(variable.type);
+    if (pin && formatPinType(pin) !== declared) {
+      issues.push({
+        severity: 'warning',
+        code: 'variable-type',
+        message: `"${node.label}" treats ${ref.name} as ${formatPinType(pin)}, but it is declared as ${declared}.`,
+        nodeIds: [node.id],
+        connections: [],
+        graph: graph.name,
+      });
+    }
+  }
+  return issues;
+}
+
+/**
+ * Checks every graph of an asset plus the asset-level declarations: graph
+ * and variable names, variable defaults, and function entry nodes. With a
+ * catalog, nodes it doesn't know are flagged too.
+ */
+export function validateAsset(
+  asset: BlueprintAsset,
+  catalog?: NodeCatalog,
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const assetIssue = (code: string, message: string, graph?: string) =>
+    issues.push({
+      severity: 'error',
+      code,
+      message,
+      nodeIds: [],
+      connections: [],
+      graph,
+    });
+
+  const graphNames = new Set<string>();
+  for (const graph of asset.graphs) {
+    if (!graph.name.trim()) {
+      assetIssue('graph-name', `A ${graph.kind} graph has no name.`, graph.name);
+    } else if (graphNames.has(graph.name)) {
+      assetIssue(
+        'duplicate-graph',
+        `Graph name "${graph.name}" is used more than once.`,
+        graph.name,
+      );
+    }
+    graphNames.add(graph.name);
+    if (graph.kind !== 'event') {
+      const entries = graph.nodes.filter((n) => n.type === 'entry').length;
+      if (entries !== 1) {
+        assetIssue(
+          'entry-node',
+          `${graph.kind === 'macro' ? 'Macro' : 'Function'} "${graph.name}" needs exactly one entry node, found ${entries}.`,
+          graph.name,
+        );
+      }
+    }
+    for (const issue of validateBlueprint(graph)) {
+      issues.push({...issue, graph: graph.name});
+    }
+    issues.push(...checkVariableNodes(asset, graph, catalog));
+    for (const node of catalog ? unknownNodes(asset, graph, catalog) : []) {
+      issues.push({
+        severity: 'warning',
+        code: 'unknown-node',
+        message: `"${node.label}" isn't a known Unreal node or a graph of this blueprint; check that it exists.`,
+        nodeIds: [node.id],
+        connections: [],
+        graph: graph.name,
+      });
+    }
+  }
+
+  const variableNames = new Set<string>();
+  for (const variable of asset.variables) {
+    if (!variable.name.trim()) {
+      assetIssue('variable-name', 'A variable has no name.');
+      continue;
+    }
+    if (variableNames.has(variable.name)) {
+      assetIssue(
+        'duplicate-variable',
+        `Variable "${variable.name}" is declared more than once.`,
+      );
+    }
+    variableNames.add(variable.name);
+    const error = defaultValueError({
+      name: variable.name,
+      direction: 'input',
+      ...variable.type,
+      defaultValue: variable.defaultValue,
+    });
+    // Containers start empty, so only a literal for a single value is checked.
+    if (error && !variable.type.container) {
+      assetIssue(
+        'invalid-default',
+        `Default value of variable "${variable.name}": ${error}`,
+      );
+    }
+  }
+  return issues;
+}
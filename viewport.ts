@@ -0,0 +1,80 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import {Bounds} from './geometry';
+
+/** Pan offset (in screen pixels) and zoom factor of the canvas. */
+export interface ViewState {
+  x: number;
+  y: number;
+  zoom: number;
+}
+
+export const MIN_ZOOM = 0.1;
+export const MAX_ZOOM = 2.5;
+
+function clampZoom(zoom: number) {
+  return Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+}
+
+/** Zooms by `factor` while keeping the graph point under `point` in place. */
+export function zoomAt(
+  view: ViewState,
+  point: {x: number; y: number},
+  factor: number,
+): ViewState {
+  const zoom = clampZoom(view.zoom * factor);
+  const scale = zoom / view.zoom;
+  return {
+    x: point.x - (point.x - view.x) * scale,
+    y: point.y - (point.y - view.y) * scale,
+    zoom,
+  };
+}
+
+/** View that shows `bounds` centered in a canvas of the given size. */
+export function fitView(
+  bounds: Bounds,
+  size: {width: number; height: number},
+  padding = 40,
+): ViewState {
+  const zoom = clampZoom(
+    Math.min(
+      (size.width - padding * 2) / Math.max(bounds.width, 1),
+      (size.height - padding * 2) / Math.max(bounds.height, 1),
+      1,
+    ),
+  );
+  return {
+    x: size.width / 2 - (bounds.x + bounds.width / 2) * zoom,
+    y: size.height / 2 - (bounds.y + bounds.height / 2) * zoom,
+    zoom,
+  };
+}
+
+/** Moves the view so that the graph point `center` is in the middle. */
+export function centerView(
+  view: ViewState,
+  center: {x: number; y: number},
+  size: {width: number; height: number},
+): ViewState {
+  return {
+    ...view,
+    x: size.width / 2 - center.x * view.zoom,
+    y: size.height / 2 - center.y * view.zoom,
+  };
+}
+
+/** The part of the graph (in graph coordinates) the canvas currently shows. */
+export function visibleBounds(
+  view: ViewState,
+  size: {width: number; height: number},
+): Bounds {
+  return {
+    x: -view.x / view.zoom,
+    y: -view.y / view.zoom,
+    width: size.width / view.zoom,
+    height: size.height / view.zoom,
+  };
+}